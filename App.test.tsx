@@ -0,0 +1,72 @@
+import 'fake-indexeddb/auto';
+import React, { act } from 'react';
+import { createRoot, Root } from 'react-dom/client';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import App from './App';
+import { analyzeLifeInputStream, classifyInputs } from './services/geminiService';
+import { AnalysisError } from './services/analysisErrors';
+import { AnalysisCategory, AnalysisLens, InputItem } from './types';
+
+vi.mock('./services/geminiService', () => ({
+  analyzeLifeInputStream: vi.fn(),
+  classifyInputs: vi.fn()
+}));
+
+// Stands in for the input form: submits a fixed input through a lens without a category
+vi.mock('./components/InputArea', () => ({
+  default: ({ onAnalyze }: { onAnalyze: (inputs: InputItem[], lens?: AnalysisLens) => void }) => (
+    <button onClick={() => onAnalyze(INPUTS, LENS)}>Analyze</button>
+  )
+}));
+
+const INPUTS: InputItem[] = [{ id: 'i1', type: 'text', content: 'Quarterly budget notes' }];
+
+const LENS: AnalysisLens = {
+  id: 'lens-1',
+  name: 'Investor',
+  instruction: 'Read it as an investor would.',
+  metrics: [{ label: 'Runway', unit: 'months' }],
+  rubric: '100 means fully funded'
+};
+
+(globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }).IS_REACT_ACT_ENVIRONMENT = true;
+
+const clickButton = async (label: string) => {
+  const button = [...document.querySelectorAll('button')].find(el => el.textContent?.trim() === label);
+  if (!button) throw new Error(`No "${label}" button`);
+  await act(async () => button.click());
+};
+
+describe('retrying a failed analysis', () => {
+  let root: Root;
+
+  beforeEach(async () => {
+    const host = document.createElement('div');
+    document.body.appendChild(host);
+    root = createRoot(host);
+    await act(async () => root.render(<App />));
+  });
+
+  afterEach(() => {
+    act(() => root.unmount());
+    document.body.innerHTML = '';
+  });
+
+  it('keeps the lens when classification failed before a category was confirmed', async () => {
+    vi.mocked(classifyInputs)
+      .mockRejectedValueOnce(new AnalysisError('network'))
+      .mockResolvedValueOnce(null);
+    vi.mocked(analyzeLifeInputStream).mockResolvedValue({
+      category: AnalysisCategory.GENERAL, summary: 'Summary', score: 60, metrics: [], insights: [],
+      actionPlan: [], risks: [], opportunities: [], consequences: []
+    });
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    await clickButton('Analyze');
+    expect(analyzeLifeInputStream).not.toHaveBeenCalled();
+
+    await clickButton('Retry');
+    expect(classifyInputs).toHaveBeenCalledTimes(2);
+    expect(analyzeLifeInputStream).toHaveBeenCalledWith(INPUTS, expect.any(Function), expect.objectContaining({ lens: LENS }));
+  });
+});
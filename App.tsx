@@ -1,57 +1,319 @@
-import React, { useState, useEffect } from 'react';
-import { analyzeLifeInput } from './services/geminiService';
-import { AnalysisResult, HistoryItem, InputItem, ChatMessage } from './types';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { analyzeLifeInputStream, classifyInputs } from './services/geminiService';
+import { AnalysisError, toAnalysisError } from './services/analysisErrors';
+import {
+  HistoryItemPatch, StorageError, clearHistory, deleteHistoryItems, deleteProject, replaceHistory,
+  saveHistoryItem, saveHistoryItems, saveProject, toStorageError, updateChatHistory, updateHistoryFields
+} from './services/historyStore';
+import { getAutoLockMinutes, isVaultEnabled, isVaultLocked, lockVault } from './services/vault';
+import { isHistoryPersisted, persistHistory, syncStoredHistory } from './services/historyPersistence';
+import { useSettings } from './services/settingsStore';
+import { applyReminderActionFromUrl, startReminderScheduler } from './services/reminderScheduler';
+import { isDigestDue, recordDigest } from './services/digestStore';
+import { SHARE_HASH_PREFIX, ShareError, ShareSnapshot, decodeShareFragment } from './services/analysisShare';
+import { loadApiKey, unloadApiKey } from './services/apiKeyStore';
+import { notifyAnalysisComplete } from './utils/notifications';
+import { replaceSearchParams } from './utils/urlState';
+import { createProject } from './utils/projects';
+import { createActionItems } from './utils/actions';
+import { getExpiredTrash, isInTrash } from './utils/trash';
+import { AnalysisResult, AnalysisCategory, AnalysisLens, ClassificationResult, HistoryItem, InputItem, ChatMessage, Project } from './types';
 import InputArea from './components/InputArea';
+import CategoryConfirm from './components/CategoryConfirm';
 import AnalysisDashboard from './components/AnalysisDashboard';
 import Sidebar from './components/Sidebar';
 import { HistoryView, GraphView } from './components/HistoryView';
 import { AetherLogo } from './components/Logo';
-import SettingsView from './components/SettingsView';
-import { Plus } from 'lucide-react';
+import SettingsView, { ImportMode } from './components/SettingsView';
+import TrendsView from './components/TrendsView';
+import ProjectsView from './components/ProjectsView';
+import TrashView from './components/TrashView';
+import ActionsView from './components/ActionsView';
+import DigestView from './components/DigestView';
+import VaultLockScreen from './components/VaultLockScreen';
+import SharedAnalysisView from './components/SharedAnalysisView';
+import { Newspaper, Plus, RotateCcw, Undo2, X } from 'lucide-react';
+
+// Sections the dashboard shows placeholders for until they have streamed in
+const STREAMED_FIELDS: (keyof AnalysisResult)[] = [
+  'summary', 'score', 'metrics', 'chartData', 'insights', 'actionPlan', 'risks',
+  'opportunities', 'consequences', 'predictions', 'causeEffectChain', 'knowledgeGraph'
+];
+
+const URL_VIEWS = ['dashboard', 'history', 'projects', 'actions', 'trends', 'digest', 'graph', 'trash', 'settings'];
+
+// How long the undo toast stays up after a delete
+const UNDO_TIMEOUT_MS = 8000;
+
+// Initial view from a bookmarked ?view= URL
+const readViewFromUrl = () => {
+  const view = new URLSearchParams(window.location.search).get('view');
+  return view && URL_VIEWS.includes(view) ? view : 'dashboard';
+};
+
+// Fill required fields so a partial result can be rendered safely. Partials arrive validated
+// field by field, so a present field never replaces a default with something unusable.
+const toRenderableResult = (partial: Partial<AnalysisResult>): AnalysisResult => ({
+  category: AnalysisCategory.GENERAL,
+  summary: '',
+  score: 0,
+  metrics: [],
+  insights: [],
+  actionPlan: [],
+  risks: [],
+  opportunities: [],
+  consequences: [],
+  ...partial
+});
 
 function App() {
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [result, setResult] = useState<AnalysisResult | null>(null);
-  const [error, setError] = useState<string | null>(null);
+  const [partialResult, setPartialResult] = useState<Partial<AnalysisResult> | null>(null);
+  const [error, setError] = useState<AnalysisError | null>(null);
+  const [storageError, setStorageError] = useState<StorageError | null>(null);
+  const [classification, setClassification] = useState<ClassificationResult | null>(null);
+  const [stageLabel, setStageLabel] = useState<string | undefined>(undefined);
   const [userImages, setUserImages] = useState<string[]>([]); // Changed to array
   
   // State for Navigation and History
-  const [currentView, setCurrentView] = useState('dashboard');
+  const [currentView, setCurrentView] = useState(readViewFromUrl);
   const [history, setHistory] = useState<HistoryItem[]>([]);
   const [activeHistoryItem, setActiveHistoryItem] = useState<HistoryItem | null>(null);
+  const historyRef = useRef<HistoryItem[]>([]);
+  historyRef.current = history;
+  // `history` keeps trashed items (they still need re-keying, export and restore); views get the rest
+  const liveHistory = useMemo(() => history.filter(item => !isInTrash(item)), [history]);
+  const trashedHistory = useMemo(() => history.filter(isInTrash), [history]);
+  const [undoDelete, setUndoDelete] = useState<{ ids: string[] } | null>(null);
+  const [digestReady, setDigestReady] = useState(false);
+  // Set while a #share= link is open; `{}` until it has been decoded
+  const [shared, setShared] = useState<{ snapshot?: ShareSnapshot; error?: string } | null>(
+    () => window.location.hash.startsWith(SHARE_HASH_PREFIX) ? {} : null
+  );
+  const [projects, setProjects] = useState<Project[]>([]);
+  const projectsRef = useRef<Project[]>([]);
+  projectsRef.current = projects;
+  const settings = useSettings();
+
+  // Vault: history stays encrypted at rest and unloaded until unlocked
+  const [isLocked, setIsLocked] = useState(isVaultLocked);
+  const [vaultRevision, setVaultRevision] = useState(0); // Bumped when vault settings change
+
+  // In-flight request control
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const lastInputsRef = useRef<InputItem[]>([]);
+  const lastCategoryRef = useRef<AnalysisCategory | undefined>(undefined);
+  const lastLensRef = useRef<AnalysisLens | undefined>(undefined);
+
+  // Before the view sync below drops them from the URL
+  useEffect(applyReminderActionFromUrl, []);
+
+  // Keep ?view= in the address bar so views (and the history filters / open project they own) can be bookmarked
+  useEffect(() => {
+    const current = new URLSearchParams(window.location.search);
+    const params = new URLSearchParams(currentView === 'history' ? current : '');
+    if (currentView === 'projects' && current.has('project')) params.set('project', current.get('project')!);
+    if (currentView === 'dashboard') params.delete('view');
+    else params.set('view', currentView);
+    replaceSearchParams(params);
+  }, [currentView]);
+
+  // Share links open read-only on top of everything else, also when pasted into an open tab
+  useEffect(() => {
+    const openSharedLink = () => {
+      const hash = window.location.hash;
+      if (!hash.startsWith(SHARE_HASH_PREFIX)) return;
+      setShared({});
+      decodeShareFragment(hash)
+        .then(snapshot => setShared({ snapshot }))
+        .catch(err => setShared({ error: err instanceof ShareError ? err.message : "This share link could not be opened." }));
+    };
+    openSharedLink();
+    window.addEventListener('hashchange', openSharedLink);
+    return () => window.removeEventListener('hashchange', openSharedLink);
+  }, []);
+
+  const handleExitShared = () => {
+    window.history.replaceState(null, '', `${window.location.pathname}${window.location.search}`);
+    setShared(null);
+  };
 
   // --- PERSISTENCE LAYER ---
   useEffect(() => {
-    // Load from DB (LocalStorage) on mount
-    const saved = localStorage.getItem('aether_history');
-    if (saved) {
-      try {
-        const parsed = JSON.parse(saved);
-        // Re-hydrate Date objects
-        const hydrated = parsed.map((item: any) => ({
-          ...item,
-          timestamp: new Date(item.timestamp)
-        }));
-        setHistory(hydrated);
-      } catch (e) {
-        console.error("Database load error:", e);
+    // Load from DB (IndexedDB) on mount/unlock; migrates legacy localStorage history on first run
+    if (isLocked) return;
+    // A key saved while the vault was on can only be decrypted now
+    loadApiKey().catch(err => console.error("Failed to load API key:", err));
+    const onError = (err: unknown) => {
+      console.error("Database load error:", err);
+      setStorageError(toStorageError(err));
+    };
+
+    // Session-only purges what is stored but keeps the current session's analyses in memory;
+    // re-enabled mid-session, what was analysed meanwhile is stored before reloading
+    syncStoredHistory(historyRef.current, projectsRef.current)
+      .then(stored => {
+        if (!stored) return;
+        setHistory(stored.items);
+        setProjects(stored.projects);
+        if (stored.skipped.length > 0) setStorageError(new StorageError('newer'));
+      })
+      .catch(onError);
+  }, [isLocked, settings.localStorageEnabled]);
+
+  const handleLock = () => {
+    abortControllerRef.current?.abort();
+    lockVault();
+    unloadApiKey();
+    // Drop every decrypted copy from memory
+    setHistory([]);
+    setProjects([]);
+    setResult(null);
+    setPartialResult(null);
+    setClassification(null);
+    setActiveHistoryItem(null);
+    setUserImages([]);
+    lastInputsRef.current = [];
+    setIsLocked(true);
+  };
+
+  // Auto-lock after the configured idle period
+  useEffect(() => {
+    if (isLocked || !isVaultEnabled()) return;
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const resetTimer = () => {
+      clearTimeout(timer);
+      const minutes = getAutoLockMinutes();
+      if (minutes > 0) timer = setTimeout(handleLock, minutes * 60 * 1000);
+    };
+
+    const events = ['pointerdown', 'pointermove', 'keydown', 'wheel', 'touchstart'];
+    events.forEach(event => window.addEventListener(event, resetTimer, { passive: true }));
+    resetTimer();
+    return () => {
+      clearTimeout(timer);
+      events.forEach(event => window.removeEventListener(event, resetTimer));
+    };
+  }, [isLocked, vaultRevision]);
+
+  // Writes are incremental; failures (e.g. quota) surface as a toast instead of being lost silently.
+  // Skipped entirely in session-only mode.
+  const persist = (operation: () => Promise<void>) => {
+    persistHistory(operation).catch(err => {
+      console.error("Database write error:", err);
+      setStorageError(toStorageError(err));
+    });
+  };
+
+  // Purge trash past its retention period, at load and whenever the setting changes
+  useEffect(() => {
+    const expired = getExpiredTrash(history, settings.trashRetentionDays);
+    if (expired.length === 0) return;
+    const ids = expired.map(item => item.id);
+    setHistory(prev => prev.filter(item => !ids.includes(item.id)));
+    persist(() => deleteHistoryItems(ids));
+  }, [history, settings.trashRetentionDays]);
+
+  // Reminders for due actions and urgent consequences, checked while the app is unlocked.
+  // A clicked notification opens the analysis it came from.
+  useEffect(() => {
+    if (isLocked) return;
+    return startReminderScheduler(
+      () => historyRef.current.filter(item => !isInTrash(item)),
+      historyId => {
+        const item = historyRef.current.find(entry => entry.id === historyId && !isInTrash(entry));
+        if (item) loadHistoryItem(item);
+        else setCurrentView('actions');
       }
-    }
-  }, []);
+    );
+  }, [isLocked]);
 
+  // First launch of a week: produce the digest of the past seven days and point to it
   useEffect(() => {
-    // Save to DB (LocalStorage) on change
-    if (history.length > 0) {
-      localStorage.setItem('aether_history', JSON.stringify(history));
-    }
-  }, [history]);
+    if (isLocked || !settings.weeklyDigest || !isDigestDue()) return;
+    recordDigest();
+    setDigestReady(true);
+  }, [isLocked, settings.weeklyDigest]);
+
+  useEffect(() => {
+    if (!undoDelete) return;
+    const timer = setTimeout(() => setUndoDelete(null), UNDO_TIMEOUT_MS);
+    return () => clearTimeout(timer);
+  }, [undoDelete]);
 
   // --- ACTIONS ---
 
-  const handleAnalyze = async (inputs: InputItem[]) => {
+  const startRequest = () => {
+    abortControllerRef.current?.abort();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
     setIsAnalyzing(true);
     setError(null);
     setResult(null);
+    setPartialResult(null);
+    setClassification(null);
+    return controller;
+  };
+
+  const failRequest = (err: unknown, controller: AbortController) => {
+    const analysisError = toAnalysisError(err, controller.signal);
+    // Cancelling is a user action, not a failure worth a toast
+    if (analysisError.kind !== 'cancelled') {
+      console.error(analysisError);
+      setError(analysisError);
+    }
+  };
+
+  const finishRequest = (controller: AbortController) => {
+    // A newer request may have replaced this one; leave its state alone
+    if (abortControllerRef.current === controller) {
+      abortControllerRef.current = null;
+      setIsAnalyzing(false);
+      setPartialResult(null);
+      setStageLabel(undefined);
+    }
+  };
+
+  // Stage 1: classify, then wait for the user to confirm or override the category.
+  // A lens with a fixed category skips straight to its specialist.
+  const handleAnalyze = async (inputs: InputItem[], lens?: AnalysisLens) => {
+    lastInputsRef.current = inputs;
+    lastCategoryRef.current = undefined;
+    lastLensRef.current = lens;
+    if (lens?.category) {
+      runSpecialistAnalysis(inputs, lens.category);
+      return;
+    }
+    const controller = startRequest();
+    setStageLabel('Classifying Inputs...');
+
+    try {
+      const detected = await classifyInputs(inputs, { signal: controller.signal });
+      if (abortControllerRef.current !== controller) return;
+
+      if (detected) {
+        setClassification(detected);
+      } else {
+        // Provider has no classifier: run the generic single-stage analysis
+        runSpecialistAnalysis(inputs);
+      }
+    } catch (err) {
+      failRequest(err, controller);
+    } finally {
+      finishRequest(controller);
+    }
+  };
+
+  // Stage 2: category specialist (or generic analysis when no category is given), through the chosen lens
+  const runSpecialistAnalysis = async (inputs: InputItem[], category?: AnalysisCategory) => {
+    lastInputsRef.current = inputs;
+    lastCategoryRef.current = category;
+    const lens = lastLensRef.current;
+    const controller = startRequest();
+    setStageLabel(lens ? `Applying ${lens.name} Lens...` : category ? `Running ${category} Specialist...` : undefined);
     
     // Extract ALL images for Reality Merge display
     const images = inputs
@@ -61,32 +323,61 @@ function App() {
     setUserImages(images);
 
     try {
-      const analysis = await analyzeLifeInput(inputs);
+      const analysis = await analyzeLifeInputStream(
+        inputs,
+        partial => setPartialResult(partial),
+        { signal: controller.signal, category, lens }
+      );
       setResult(analysis);
       
+      const id = Date.now().toString();
       const newItem: HistoryItem = {
-        id: Date.now().toString(),
+        id,
         timestamp: new Date(),
         result: analysis,
-        image: images[0] || null, // Primary thumbnail
-        images: images, // Store all images
-        chatHistory: [] 
+        images,
+        chatHistory: [],
+        tags: [],
+        pinned: false,
+        projectIds: [],
+        actions: createActionItems(id, analysis.actionPlan),
+        ...(lens && { lens })
       };
       
       setHistory(prev => [newItem, ...prev]);
       setActiveHistoryItem(newItem);
+      persist(() => saveHistoryItem(newItem));
+      notifyAnalysisComplete(analysis);
 
-    } catch (err: any) {
-      console.error(err);
-      setError("Analysis interrupted. Please check your API key or connection.");
+    } catch (err) {
+      failRequest(err, controller);
     } finally {
-      setIsAnalyzing(false);
+      finishRequest(controller);
+    }
+  };
+
+  const handleCancelAnalysis = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  const handleRetryAnalysis = () => {
+    if (lastInputsRef.current.length > 0) {
+      setCurrentView('dashboard');
+      // Reuse the confirmed category so a retry doesn't ask again, and the lens so it reads the same
+      if (lastCategoryRef.current) {
+        runSpecialistAnalysis(lastInputsRef.current, lastCategoryRef.current);
+      } else {
+        handleAnalyze(lastInputsRef.current, lastLensRef.current);
+      }
     }
   };
 
   const handleNewAnalysis = () => {
     // Reset View State to show InputArea
+    abortControllerRef.current?.abort();
     setResult(null);
+    setPartialResult(null);
+    setClassification(null);
     setActiveHistoryItem(null);
     setUserImages([]);
     setError(null);
@@ -96,19 +387,14 @@ function App() {
 
   const handleNavigate = (view: string) => {
     setCurrentView(view);
-    if (view === 'graph' && !activeHistoryItem && history.length > 0) {
-      setActiveHistoryItem(history[0]);
+    if (view === 'graph' && !activeHistoryItem && liveHistory.length > 0) {
+      setActiveHistoryItem(liveHistory[0]);
     }
   };
 
   const loadHistoryItem = (item: HistoryItem) => {
     setResult(item.result);
-    // Load all images if available, fall back to single image if legacy
-    const imgs = item.images && item.images.length > 0 
-      ? item.images 
-      : (item.image ? [item.image] : []);
-      
-    setUserImages(imgs);
+    setUserImages(item.images);
     setActiveHistoryItem(item);
     setCurrentView('dashboard');
   };
@@ -118,6 +404,7 @@ function App() {
     setHistory(prev => prev.map(item => 
       item.id === historyId ? { ...item, chatHistory: messages } : item
     ));
+    persist(() => updateChatHistory(historyId, messages));
     
     // Update active item if it matches
     if (activeHistoryItem?.id === historyId) {
@@ -125,16 +412,113 @@ function App() {
     }
   };
 
+  // Titles, tags, pins and project membership
+  const handleUpdateItem = (historyId: string, patch: HistoryItemPatch) => {
+    setHistory(prev => prev.map(item => item.id === historyId ? { ...item, ...patch } : item));
+    persist(() => updateHistoryFields(historyId, patch));
+    if (activeHistoryItem?.id === historyId) {
+      setActiveHistoryItem(prev => prev ? { ...prev, ...patch } : null);
+    }
+  };
+
+  // Returns synchronously so callers can file an item into the new project right away
+  const handleCreateProject = (name: string): Project => {
+    const project = createProject(name);
+    setProjects(prev => [...prev, project]);
+    persist(() => saveProject(project));
+    return project;
+  };
+
+  const handleRenameProject = (projectId: string, name: string) => {
+    const project = projects.find(p => p.id === projectId);
+    if (!project) return;
+    const renamed = { ...project, name };
+    setProjects(prev => prev.map(p => p.id === projectId ? renamed : p));
+    persist(() => saveProject(renamed));
+  };
+
+  // Members stay in history (and in their other projects)
+  const handleDeleteProject = (projectId: string) => {
+    setProjects(prev => prev.filter(p => p.id !== projectId));
+    persist(() => deleteProject(projectId));
+    history
+      .filter(item => item.projectIds.includes(projectId))
+      .forEach(item => handleUpdateItem(item.id, { projectIds: item.projectIds.filter(id => id !== projectId) }));
+  };
+
+  // Whatever shows a removed item falls back: the dashboard to a fresh analysis,
+  // the World Graph to the newest remaining analysis
+  const releaseActiveItem = (removedIds: string[]) => {
+    if (!activeHistoryItem || !removedIds.includes(activeHistoryItem.id)) return;
+    setResult(null);
+    setUserImages([]);
+    setActiveHistoryItem(currentView === 'graph' ? liveHistory.find(item => !removedIds.includes(item.id)) || null : null);
+  };
+
+  // Soft delete: items move to the trash and can be restored until purged
+  const handleDeleteItems = (ids: string[]) => {
+    const deletedAt = Date.now();
+    setHistory(prev => prev.map(item => ids.includes(item.id) ? { ...item, deletedAt } : item));
+    ids.forEach(id => persist(() => updateHistoryFields(id, { deletedAt })));
+    releaseActiveItem(ids);
+    setUndoDelete({ ids });
+  };
+
+  const handleRestoreItems = (ids: string[]) => {
+    setHistory(prev => prev.map(item => ids.includes(item.id) ? { ...item, deletedAt: undefined } : item));
+    ids.forEach(id => persist(() => updateHistoryFields(id, { deletedAt: undefined })));
+    setUndoDelete(null);
+  };
+
+  const handlePurgeItems = (ids: string[]) => {
+    setHistory(prev => prev.filter(item => !ids.includes(item.id)));
+    persist(() => deleteHistoryItems(ids));
+  };
+
   const handleClearHistory = () => {
     if (confirm("Are you sure you want to delete all history? This cannot be undone.")) {
       setHistory([]);
+      setProjects([]);
       setActiveHistoryItem(null);
       setResult(null);
-      localStorage.removeItem('aether_history');
+      persist(clearHistory);
       setCurrentView('dashboard');
     }
   };
 
+  // Archive items are already validated; duplicates (by id) are skipped on merge, for projects too
+  const handleImportHistory = async (items: HistoryItem[], archiveProjects: Project[], mode: ImportMode) => {
+    const byNewest = (a: HistoryItem, b: HistoryItem) => b.timestamp.getTime() - a.timestamp.getTime();
+    const stored = isHistoryPersisted();
+    try {
+      if (mode === 'replace') {
+        if (stored) await replaceHistory(items, archiveProjects);
+        setHistory([...items].sort(byNewest));
+        setProjects(archiveProjects);
+        setActiveHistoryItem(null);
+        setResult(null);
+      } else {
+        const existingIds = new Set(history.map(item => item.id));
+        const fresh = items.filter(item => !existingIds.has(item.id));
+        const existingProjectIds = new Set(projects.map(project => project.id));
+        const freshProjects = archiveProjects.filter(project => !existingProjectIds.has(project.id));
+        if (stored) await saveHistoryItems(fresh, freshProjects);
+        setHistory(prev => [...prev, ...fresh].sort(byNewest));
+        setProjects(prev => [...prev, ...freshProjects]);
+      }
+    } catch (err) {
+      throw toStorageError(err);
+    }
+  };
+
+  if (shared) {
+    return <SharedAnalysisView snapshot={shared.snapshot} error={shared.error} onExit={handleExitShared} />;
+  }
+
+  if (isLocked) {
+    return <VaultLockScreen onUnlocked={() => setIsLocked(false)} />;
+  }
+
   return (
     <div className="flex min-h-screen bg-[#020617] text-slate-50 selection:bg-cyan-500/30 font-sans overflow-x-hidden">
       
@@ -173,7 +557,7 @@ function App() {
           {/* DASHBOARD VIEW */}
           {currentView === 'dashboard' && (
             <>
-              {!result && !isAnalyzing && (
+              {!result && !isAnalyzing && !classification && (
                 <div className="flex-1 flex flex-col items-center justify-center mb-10 text-center animate-in fade-in duration-700">
                    <div className="mb-6 animate-pulse">
                       <AetherLogo size={80} />
@@ -186,24 +570,58 @@ function App() {
                      Upload reality. Download intelligence.
                    </p>
                    <div className="w-full">
-                     <InputArea onAnalyze={handleAnalyze} isAnalyzing={isAnalyzing} />
+                     <InputArea onAnalyze={handleAnalyze} isAnalyzing={isAnalyzing} initialLensId={lastLensRef.current?.id} />
                    </div>
                 </div>
               )}
 
-              {isAnalyzing && (
+              {isAnalyzing && !partialResult && (
                  <div className="flex-1 flex items-center justify-center">
-                    <InputArea onAnalyze={handleAnalyze} isAnalyzing={isAnalyzing} />
+                    <InputArea onAnalyze={handleAnalyze} isAnalyzing={isAnalyzing} onCancel={handleCancelAnalysis} stageLabel={stageLabel} initialLensId={lastLensRef.current?.id} />
                  </div>
               )}
 
+              {classification && !isAnalyzing && (
+                 <div className="flex-1 flex items-center justify-center">
+                    <CategoryConfirm
+                      classification={classification}
+                      onConfirm={category => runSpecialistAnalysis(lastInputsRef.current, category)}
+                      onCancel={handleNewAnalysis}
+                    />
+                 </div>
+              )}
+
+              {isAnalyzing && partialResult && (
+                 <>
+                 <div className="flex items-center justify-between mb-4 px-4 py-2 rounded-xl border border-cyan-500/30 bg-cyan-500/5 text-sm text-cyan-300 animate-pulse">
+                   <span>Streaming analysis...</span>
+                   <button onClick={handleCancelAnalysis} className="px-3 py-1 rounded-lg bg-white/5 hover:bg-red-500/20 hover:text-red-300 text-slate-300 transition-colors">
+                     Cancel
+                   </button>
+                 </div>
+                 <AnalysisDashboard 
+                   result={toRenderableResult(partialResult)} 
+                   userImages={userImages} 
+                   historyId=""
+                   initialChatHistory={[]}
+                   onChatUpdate={handleChatUpdate}
+                   pendingFields={STREAMED_FIELDS.filter(field => !(field in partialResult))}
+                   lens={lastLensRef.current}
+                 />
+                 </>
+              )}
+
               {result && activeHistoryItem && (
                  <AnalysisDashboard 
                    result={result} 
                    userImages={userImages} 
                    historyId={activeHistoryItem.id}
+                   timestamp={activeHistoryItem.timestamp}
                    initialChatHistory={activeHistoryItem.chatHistory || []}
                    onChatUpdate={handleChatUpdate}
+                   lens={activeHistoryItem.lens}
+                   actions={activeHistoryItem.actions}
+                   onActionsChange={actions => handleUpdateItem(activeHistoryItem.id, { actions })}
                  />
               )}
             </>
@@ -213,7 +631,66 @@ function App() {
           {currentView === 'history' && (
              <div className="w-full">
                 <h2 className="text-3xl font-light text-white mb-8 tracking-tight">ANALYSIS HISTORY</h2>
-                <HistoryView history={history} onSelect={loadHistoryItem} />
+                <HistoryView
+                  history={liveHistory}
+                  projects={projects}
+                  onSelect={loadHistoryItem}
+                  onUpdateItem={handleUpdateItem}
+                  onCreateProject={handleCreateProject}
+                  onDeleteItems={handleDeleteItems}
+                />
+             </div>
+          )}
+
+          {/* PROJECTS VIEW */}
+          {currentView === 'projects' && (
+             <div className="w-full">
+                <h2 className="text-3xl font-light text-white mb-8 tracking-tight">PROJECTS</h2>
+                <ProjectsView
+                  history={liveHistory}
+                  projects={projects}
+                  onSelect={loadHistoryItem}
+                  onUpdateItem={handleUpdateItem}
+                  onCreateProject={handleCreateProject}
+                  onRenameProject={handleRenameProject}
+                  onDeleteProject={handleDeleteProject}
+                />
+             </div>
+          )}
+
+          {/* OPEN ACTIONS VIEW */}
+          {currentView === 'actions' && (
+             <div className="w-full">
+                <h2 className="text-3xl font-light text-white mb-8 tracking-tight">OPEN ACTIONS</h2>
+                <ActionsView
+                  history={liveHistory}
+                  onSelect={loadHistoryItem}
+                  onActionsChange={(historyId, actions) => handleUpdateItem(historyId, { actions })}
+                />
+             </div>
+          )}
+
+          {/* TRENDS VIEW */}
+          {currentView === 'trends' && (
+             <div className="w-full">
+                <h2 className="text-3xl font-light text-white mb-8 tracking-tight">TRENDS</h2>
+                <TrendsView history={liveHistory} onSelect={loadHistoryItem} />
+             </div>
+          )}
+
+          {/* WEEKLY DIGEST VIEW */}
+          {currentView === 'digest' && (
+             <div className="w-full">
+                <h2 className="text-3xl font-light text-white mb-8 tracking-tight">WEEKLY DIGEST</h2>
+                <DigestView history={liveHistory} onSelect={loadHistoryItem} />
+             </div>
+          )}
+
+          {/* TRASH VIEW */}
+          {currentView === 'trash' && (
+             <div className="w-full">
+                <h2 className="text-3xl font-light text-white mb-8 tracking-tight">TRASH</h2>
+                <TrashView items={trashedHistory} onRestore={handleRestoreItems} onPurge={handlePurgeItems} />
              </div>
           )}
 
@@ -226,12 +703,76 @@ function App() {
 
           {/* SETTINGS VIEW */}
           {currentView === 'settings' && (
-            <SettingsView onClearHistory={handleClearHistory} />
+            <SettingsView
+              onClearHistory={handleClearHistory}
+              history={history}
+              projects={projects}
+              onImportHistory={handleImportHistory}
+              onVaultChanged={() => setVaultRevision(revision => revision + 1)}
+              onLockVault={handleLock}
+            />
+          )}
+
+          {undoDelete && (
+            <div className="fixed bottom-10 left-1/2 -translate-x-1/2 z-50 flex items-center gap-4 bg-slate-900/90 border border-white/10 text-slate-200 px-5 py-3 rounded-xl backdrop-blur-md shadow-xl animate-in slide-in-from-bottom-10">
+              <span>Moved {undoDelete.ids.length === 1 ? '1 analysis' : `${undoDelete.ids.length} analyses`} to Trash</span>
+              <button
+                onClick={() => handleRestoreItems(undoDelete.ids)}
+                className="px-3 py-1 rounded-lg bg-cyan-500/20 hover:bg-cyan-500/30 text-cyan-300 text-sm flex items-center gap-1 transition-colors"
+              >
+                <Undo2 size={14} /> Undo
+              </button>
+              <button onClick={() => setUndoDelete(null)} className="text-slate-500 hover:text-white transition-colors" title="Dismiss">
+                <X size={16} />
+              </button>
+            </div>
+          )}
+
+          {digestReady && !undoDelete && currentView !== 'digest' && (
+            <div className="fixed bottom-10 left-1/2 -translate-x-1/2 z-50 flex items-center gap-4 bg-slate-900/90 border border-white/10 text-slate-200 px-5 py-3 rounded-xl backdrop-blur-md shadow-xl animate-in slide-in-from-bottom-10">
+              <span className="flex items-center gap-2"><Newspaper size={16} className="text-cyan-400" /> Your weekly digest is ready</span>
+              <button
+                onClick={() => {
+                  setDigestReady(false);
+                  setCurrentView('digest');
+                }}
+                className="px-3 py-1 rounded-lg bg-cyan-500/20 hover:bg-cyan-500/30 text-cyan-300 text-sm transition-colors"
+              >
+                View
+              </button>
+              <button onClick={() => setDigestReady(false)} className="text-slate-500 hover:text-white transition-colors" title="Dismiss">
+                <X size={16} />
+              </button>
+            </div>
+          )}
+
+          {storageError && (
+            <div className={`fixed ${error ? 'bottom-36' : 'bottom-10'} right-10 max-w-md bg-amber-500/10 border border-amber-500/50 text-amber-200 px-6 py-4 rounded-xl backdrop-blur-md animate-in slide-in-from-right-10`}>
+              <div className="flex items-start gap-4">
+                <p>💾 {storageError.userMessage}</p>
+                <button onClick={() => setStorageError(null)} className="text-amber-300/70 hover:text-white transition-colors" title="Dismiss">
+                  <X size={16} />
+                </button>
+              </div>
+            </div>
           )}
 
           {error && (
             <div className="fixed bottom-10 right-10 bg-red-500/10 border border-red-500/50 text-red-200 px-6 py-4 rounded-xl backdrop-blur-md animate-in slide-in-from-right-10">
-              <p>⚠️ {error}</p>
+              <div className="flex items-start gap-4">
+                <p>⚠️ {error.userMessage}</p>
+                <button onClick={() => setError(null)} className="text-red-300/70 hover:text-white transition-colors" title="Dismiss">
+                  <X size={16} />
+                </button>
+              </div>
+              {error.kind !== 'auth' && error.kind !== 'safety' && (
+                <button
+                  onClick={handleRetryAnalysis}
+                  className="mt-3 px-3 py-1.5 rounded-lg bg-red-500/20 hover:bg-red-500/30 text-white text-sm flex items-center gap-2 transition-colors"
+                >
+                  <RotateCcw size={14} /> Retry
+                </button>
+              )}
             </div>
           )}
 
@@ -0,0 +1,155 @@
+import React, { useMemo, useState } from 'react';
+import { ActionItem, ActionPriority, HistoryItem } from '../types';
+import { ACTION_PRIORITIES, collectOpenActions, isOverdue, setActionDone } from '../utils/actions';
+import { getItemTitle } from '../utils/projects';
+import { Reminder, SNOOZE_HOUR_MS, collectReminders, isReminderActive, nextMorning } from '../utils/reminders';
+import { useSettings } from '../services/settingsStore';
+import { dismissReminder, snoozeReminder, useReminderStates } from '../services/reminderStore';
+import { PRIORITY_STYLES } from './AnalysisDashboard';
+import { AlarmClock, ArrowRight, BellRing, Check, Clock, ListTodo, X } from 'lucide-react';
+
+interface ActionsViewProps {
+  history: HistoryItem[];
+  onSelect: (item: HistoryItem) => void;
+  onActionsChange: (historyId: string, actions: ActionItem[]) => void;
+}
+
+type ActionGroup = 'overdue' | 'scheduled' | 'unscheduled';
+
+const GROUP_LABELS: Record<ActionGroup, string> = {
+  overdue: 'Overdue',
+  scheduled: 'Scheduled',
+  unscheduled: 'No due date'
+};
+
+const groupOf = (action: ActionItem): ActionGroup =>
+  isOverdue(action) ? 'overdue' : action.dueDate ? 'scheduled' : 'unscheduled';
+
+// --- Sub-Component: Reminder Panel ---
+// The same reminders the browser notifications show, so they can be snoozed or dismissed in-app too
+const ReminderPanel: React.FC<{ reminders: Reminder[]; onOpen: (historyId: string) => void }> = ({ reminders, onOpen }) => {
+  const snoozeButtonClass = 'p-2 rounded-lg bg-white/5 hover:bg-white/10 text-slate-400 hover:text-white border border-white/10 transition-colors';
+  return (
+    <div className="glass-panel rounded-2xl p-5 border border-amber-500/20">
+      <h3 className="text-xs font-bold uppercase tracking-widest text-amber-400 mb-3 flex items-center gap-2">
+        <BellRing size={14} /> Reminders <span className="opacity-60">{reminders.length}</span>
+      </h3>
+      <div className="space-y-2">
+        {reminders.map(reminder => (
+          <div key={reminder.key} className="flex items-center gap-3">
+            <div className="flex-1 min-w-0">
+              <p className={`text-sm ${reminder.kind === 'consequence' ? 'text-red-300' : 'text-slate-200'}`}>{reminder.title}</p>
+              <p className="text-xs text-slate-500 truncate">{reminder.body}</p>
+            </div>
+            <button onClick={() => snoozeReminder(reminder.key, Date.now() + SNOOZE_HOUR_MS)} className={snoozeButtonClass} title="Snooze for an hour">
+              <Clock size={14} />
+            </button>
+            <button onClick={() => snoozeReminder(reminder.key, nextMorning())} className={snoozeButtonClass} title="Snooze until tomorrow morning">
+              <AlarmClock size={14} />
+            </button>
+            <button onClick={() => dismissReminder(reminder.key)} className={snoozeButtonClass} title="Dismiss">
+              <X size={14} />
+            </button>
+            <button onClick={() => onOpen(reminder.historyId)} className={snoozeButtonClass} title="Open analysis">
+              <ArrowRight size={14} />
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+// Every pending task across history, so open work doesn't hide inside old analyses.
+const ActionsView: React.FC<ActionsViewProps> = ({ history, onSelect, onActionsChange }) => {
+  const [priorityFilter, setPriorityFilter] = useState<ActionPriority | 'all'>('all');
+  const { reminders: reminderSettings } = useSettings();
+  const reminderStates = useReminderStates();
+  const reminders = useMemo(
+    () => collectReminders(history, reminderSettings).filter(reminder => isReminderActive(reminderStates[reminder.key])),
+    [history, reminderSettings, reminderStates]
+  );
+
+  const openActions = useMemo(() => collectOpenActions(history), [history]);
+  const visible = openActions.filter(({ action }) => priorityFilter === 'all' || action.priority === priorityFilter);
+  const groups = (Object.keys(GROUP_LABELS) as ActionGroup[])
+    .map(group => ({ group, entries: visible.filter(({ action }) => groupOf(action) === group) }))
+    .filter(({ entries }) => entries.length > 0);
+
+  const complete = (item: HistoryItem, actionId: string) =>
+    onActionsChange(item.id, item.actions.map(action => action.id === actionId ? setActionDone(action, true) : action));
+
+  const openItem = (historyId: string) => {
+    const item = history.find(entry => entry.id === historyId);
+    if (item) onSelect(item);
+  };
+
+  if (openActions.length === 0 && reminders.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center h-[50vh] text-slate-500">
+         <ListTodo size={48} className="mb-4 opacity-50" />
+         <p className="text-xl">No Open Actions</p>
+         <p className="text-sm">Recommended actions from your analyses show up here until they are done.</p>
+      </div>
+    );
+  }
+
+  const chipClass = (active: boolean) =>
+    `px-3 py-1.5 rounded-full text-xs font-bold border transition-colors ${active ? 'bg-cyan-500/20 border-cyan-500/50 text-cyan-300' : 'bg-white/5 border-white/10 text-slate-400 hover:text-white'}`;
+
+  return (
+    <div className="space-y-6 animate-in fade-in slide-in-from-bottom-8">
+      {reminders.length > 0 && <ReminderPanel reminders={reminders} onOpen={openItem} />}
+
+      <div className="flex flex-wrap items-center gap-2">
+        {(['all', ...ACTION_PRIORITIES] as (ActionPriority | 'all')[]).map(priority => (
+          <button key={priority} onClick={() => setPriorityFilter(priority)} className={chipClass(priorityFilter === priority)}>
+            {priority === 'all' ? 'ALL' : priority.toUpperCase()}
+          </button>
+        ))}
+        <span className="ml-auto text-xs text-slate-500">{openActions.length} open across {new Set(openActions.map(({ item }) => item.id)).size} analyses</span>
+      </div>
+
+      {groups.map(({ group, entries }) => (
+        <div key={group}>
+          <h3 className={`text-xs font-bold uppercase tracking-widest mb-3 ${group === 'overdue' ? 'text-red-400' : 'text-slate-500'}`}>
+            {GROUP_LABELS[group]} <span className="opacity-60">{entries.length}</span>
+          </h3>
+          <div className="space-y-2">
+            {entries.map(({ item, action }) => (
+              <div key={action.id} className="glass-panel p-4 rounded-xl flex items-center gap-4">
+                <button
+                  onClick={() => complete(item, action.id)}
+                  className="w-5 h-5 flex-shrink-0 rounded border border-slate-600 hover:border-emerald-500 hover:bg-emerald-500/20 flex items-center justify-center group transition-colors"
+                  title="Mark as done"
+                >
+                  <Check size={12} className="text-emerald-400 opacity-0 group-hover:opacity-100" />
+                </button>
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm text-slate-200">{action.text}</p>
+                  <div className="flex flex-wrap items-center gap-3 mt-1 text-[10px] text-slate-500">
+                    <span className={`px-1.5 py-0.5 rounded border uppercase tracking-wider ${PRIORITY_STYLES[action.priority]}`}>{action.priority}</span>
+                    {action.dueDate && <span className={group === 'overdue' ? 'text-red-400' : ''}>Due {action.dueDate}</span>}
+                    <span className="truncate">{item.result.category} · {getItemTitle(item)}</span>
+                  </div>
+                  {action.notes && <p className="text-xs text-slate-500 mt-1">{action.notes}</p>}
+                </div>
+                <button
+                  onClick={() => onSelect(item)}
+                  className="p-2 rounded-lg bg-white/5 hover:bg-white/10 text-slate-300 hover:text-white border border-white/10 transition-colors"
+                  title="Open analysis"
+                >
+                  <ArrowRight size={16} />
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+      ))}
+
+      {visible.length === 0 && openActions.length > 0 && <p className="text-sm text-slate-600 italic">No open actions with this priority.</p>}
+    </div>
+  );
+};
+
+export default ActionsView;
@@ -1,7 +1,8 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { AnalysisResult, ChatMessage } from '../types';
 import { chatWithAnalysis } from '../services/geminiService';
-import { Send, X, Bot, User, Sparkles } from 'lucide-react';
+import { toAnalysisError } from '../services/analysisErrors';
+import { Send, X, Bot, User, Sparkles, AlertCircle, RotateCcw } from 'lucide-react';
 
 interface AetherAssistantProps {
   analysisResult: AnalysisResult;
@@ -19,7 +20,13 @@ const AetherAssistant: React.FC<AetherAssistantProps> = ({
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [inputText, setInputText] = useState('');
   const [isTyping, setIsTyping] = useState(false);
+  // Failed turn: shown inline, never persisted as if the AI had said it
+  const [chatError, setChatError] = useState<{ message: string; question: string; history: ChatMessage[] } | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  // Abort any pending reply when the panel closes
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
 
   // Initialize messages or set default welcome if empty
   useEffect(() => {
@@ -43,26 +50,18 @@ const AetherAssistant: React.FC<AetherAssistantProps> = ({
 
   useEffect(() => {
     scrollToBottom();
-  }, [messages]);
-
-  const handleSend = async () => {
-    if (!inputText.trim()) return;
+  }, [messages, chatError]);
 
-    const userMsg: ChatMessage = {
-      id: Date.now().toString(),
-      role: 'user',
-      text: inputText
-    };
+  const requestReply = async (question: string, newHistory: ChatMessage[]) => {
+    abortControllerRef.current?.abort();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
 
-    const newHistory = [...messages, userMsg];
-    setMessages(newHistory);
-    onUpdateMessages(newHistory); // Persist
-    
-    setInputText('');
+    setChatError(null);
     setIsTyping(true);
 
     try {
-      const responseText = await chatWithAnalysis(inputText, newHistory, analysisResult);
+      const responseText = await chatWithAnalysis(question, newHistory, analysisResult, { signal: controller.signal });
       
       const aiMsg: ChatMessage = {
         id: (Date.now() + 1).toString(),
@@ -75,12 +74,36 @@ const AetherAssistant: React.FC<AetherAssistantProps> = ({
       onUpdateMessages(updatedHistory); // Persist
 
     } catch (e) {
-      console.error(e);
+      const error = toAnalysisError(e, controller.signal);
+      if (error.kind !== 'cancelled') {
+        console.error(error);
+        setChatError({ message: error.userMessage, question, history: newHistory });
+      }
     } finally {
-      setIsTyping(false);
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null;
+        setIsTyping(false);
+      }
     }
   };
 
+  const handleSend = async () => {
+    if (!inputText.trim()) return;
+
+    const userMsg: ChatMessage = {
+      id: Date.now().toString(),
+      role: 'user',
+      text: inputText
+    };
+
+    const newHistory = [...messages, userMsg];
+    setMessages(newHistory);
+    onUpdateMessages(newHistory); // Persist
+    
+    setInputText('');
+    await requestReply(userMsg.text, newHistory);
+  };
+
   return (
     <div className="fixed bottom-6 right-6 w-96 h-[600px] glass-card rounded-2xl border border-cyan-500/30 shadow-2xl flex flex-col overflow-hidden z-[100] animate-in slide-in-from-right-10 fade-in duration-300">
       
@@ -125,6 +148,18 @@ const AetherAssistant: React.FC<AetherAssistantProps> = ({
              <div className="text-xs text-slate-500 flex items-center">Aether is thinking...</div>
            </div>
         )}
+        {chatError && !isTyping && (
+           <div className="flex items-start gap-3 p-3 rounded-xl border border-red-500/30 bg-red-500/10 text-xs text-red-200">
+             <AlertCircle size={14} className="mt-0.5 shrink-0" />
+             <div className="flex-1">{chatError.message}</div>
+             <button
+               onClick={() => requestReply(chatError.question, chatError.history)}
+               className="flex items-center gap-1 text-red-100 hover:text-white transition-colors"
+             >
+               <RotateCcw size={12} /> Retry
+             </button>
+           </div>
+        )}
         <div ref={messagesEndRef} />
       </div>
 
@@ -1,84 +1,48 @@
 import React, { useState, useEffect, useMemo } from 'react';
-import { AnalysisResult, AnalysisCategory, GraphNode, GraphEdge, ChatMessage } from '../types';
+import { AnalysisResult, AnalysisCategory, AnalysisLens, GraphNode, GraphEdge, ChatMessage, Prediction, ActionItem, ActionPriority } from '../types';
 import { generatePDFReport } from '../utils/pdfGenerator';
+import { ACTION_PRIORITIES, getActionProgress, isOverdue, setActionDone } from '../utils/actions';
+import { PLAN_EXPORT_LABELS, PlanExportFormat, downloadPlan } from '../utils/planExport';
+import { PREDICTION_LEVELS, buildPredictionMatrix } from '../utils/predictionMatrix';
+import { getNodeColor, layoutKnowledgeGraph } from '../utils/graphLayout';
+import {
+  ShareError, ShareSource, buildShareLink, createShareSnapshot, downloadShareFile, shareSnapshot, webShareSupported
+} from '../services/analysisShare';
 import AetherAssistant from './AetherAssistant';
+import ChartPanel, { getChartKind, renderChartImage } from './ChartPanel';
 import { 
   Zap, Heart, DollarSign, Layout, Calendar, Brain,
-  Map as MapIcon, BookOpen, Activity, FileDown, Share2, MessageSquare, Flame, AlertCircle, Clock, Smile, TrendingUp
+  Map as MapIcon, BookOpen, Activity, FileDown, Share2, MessageSquare, Flame, AlertCircle, Clock, Smile, TrendingUp, Aperture, Check, ChevronDown, CalendarPlus, Link, Download
 } from 'lucide-react';
 
 interface AnalysisDashboardProps {
   result: AnalysisResult | null;
   userImages?: string[]; // Changed to array
   historyId: string;
+  timestamp?: Date; // When the analysis was made; absent while streaming
   initialChatHistory: ChatMessage[];
   onChatUpdate: (id: string, messages: ChatMessage[]) => void;
+  pendingFields?: (keyof AnalysisResult)[]; // Set while the analysis is still streaming in
+  lens?: AnalysisLens; // Lens the analysis ran through, if any
+  actions?: ActionItem[]; // Tracked tasks; absent while streaming, when the plan is shown read-only
+  onActionsChange?: (actions: ActionItem[]) => void;
+  readOnly?: boolean; // Opened from a share link: no chat, no re-sharing
 }
 
+// --- Sub-Component: Placeholder for sections that have not streamed in yet ---
+const SectionSkeleton: React.FC<{ lines?: number }> = ({ lines = 3 }) => (
+  <div className="space-y-3 animate-pulse">
+    {Array.from({ length: lines }).map((_, i) => (
+      <div key={i} className="h-10 rounded-lg bg-white/5 border border-white/5" style={{ width: `${100 - i * 12}%` }} />
+    ))}
+  </div>
+);
+
 // --- Sub-Component: Knowledge Graph Visualization (SVG) ---
 const KnowledgeGraphViz: React.FC<{ nodes: GraphNode[], edges: GraphEdge[] }> = ({ nodes, edges }) => {
   const [hoveredNodeId, setHoveredNodeId] = useState<string | null>(null);
 
-  const width = 400;
-  const height = 300;
-  const cx = width / 2;
-  const cy = height / 2;
-
-  // --- Smart Concentric Layout ---
-  const nodePositions = useMemo(() => {
-    // Group nodes by hierarchy
-    const entities = nodes.filter(n => n.type === 'entity');
-    const actions = nodes.filter(n => n.type === 'action');
-    const risks = nodes.filter(n => n.type === 'risk');
-    const outcomes = nodes.filter(n => n.type === 'outcome');
-    const others = nodes.filter(n => !['entity', 'action', 'risk', 'outcome'].includes(n.type));
-
-    const posMap = new Map<string, { x: number, y: number }>();
-
-    // Helper: Distribute nodes along a circle
-    const distribute = (list: GraphNode[], radius: number, startAngle: number = 0) => {
-      const count = list.length;
-      if (count === 0) return;
-      const step = (2 * Math.PI) / count;
-      list.forEach((node, i) => {
-        const angle = startAngle + i * step - Math.PI / 2; // Start from top
-        posMap.set(node.id, {
-          x: cx + radius * Math.cos(angle),
-          y: cy + radius * Math.sin(angle)
-        });
-      });
-    };
-
-    // Layer 1: Entities (Center)
-    // If only 1 entity, put it dead center. If multiple, small ring.
-    if (entities.length === 1) {
-      posMap.set(entities[0].id, { x: cx, y: cy });
-    } else {
-      distribute(entities, 40, 0);
-    }
-
-    // Layer 2: Actions (Middle Ring)
-    distribute(actions, 90, 0.5); // Slight angle offset
-
-    // Layer 3: Outcomes & Risks (Outer Ring)
-    // Interleave them or place them together in the outer ring
-    distribute([...risks, ...outcomes, ...others], 130, 1.0);
-
-    return nodes.map(n => ({
-      ...n,
-      ...(posMap.get(n.id) || { x: cx, y: cy }) // Fallback
-    }));
-  }, [nodes]);
-
-  const getNodeColor = (type: string) => {
-    switch (type) {
-      case 'risk': return '#ef4444'; // Red
-      case 'outcome': return '#f59e0b'; // Amber
-      case 'action': return '#10b981'; // Green
-      case 'entity': return '#06b6d4'; // Cyan
-      default: return '#94a3b8'; // Slate 400
-    }
-  };
+  const nodePositions = useMemo(() => layoutKnowledgeGraph(nodes), [nodes]);
 
   const activeNode = nodePositions.find(n => n.id === hoveredNodeId);
 
@@ -188,22 +152,325 @@ const KnowledgeGraphViz: React.FC<{ nodes: GraphNode[], edges: GraphEdge[] }> =
   );
 };
 
+// --- Sub-Component: Category specialist extension data (transactions, nutrients, events) ---
+const SpecialistDataPanel: React.FC<{ result: AnalysisResult }> = ({ result }) => {
+  const { transactions, nutrients, events } = result;
+  const cellClass = "py-2 pr-4 text-slate-300";
+  const headClass = "pb-2 pr-4 text-[10px] text-slate-500 uppercase tracking-widest font-bold text-left";
+
+  if (transactions && transactions.length > 0) {
+    const net = transactions.reduce((sum, t) => sum + t.amount, 0);
+    return (
+      <table className="w-full text-sm">
+        <thead><tr><th className={headClass}>Date</th><th className={headClass}>Description</th><th className={headClass}>Category</th><th className={`${headClass} text-right`}>Amount</th></tr></thead>
+        <tbody className="divide-y divide-white/5">
+          {transactions.map((t, i) => (
+            <tr key={i}>
+              <td className={`${cellClass} font-mono text-xs`}>{t.date || '—'}</td>
+              <td className={cellClass}>{t.description}</td>
+              <td className={cellClass}>{t.category || '—'}</td>
+              <td className={`py-2 font-mono text-right ${t.amount < 0 ? 'text-red-400' : 'text-emerald-400'}`}>{t.amount.toFixed(2)}</td>
+            </tr>
+          ))}
+        </tbody>
+        <tfoot><tr><td colSpan={3} className="pt-3 text-xs text-slate-500 uppercase tracking-widest">Net</td><td className={`pt-3 font-mono text-right ${net < 0 ? 'text-red-400' : 'text-emerald-400'}`}>{net.toFixed(2)}</td></tr></tfoot>
+      </table>
+    );
+  }
+
+  if (nutrients && nutrients.length > 0) {
+    return (
+      <div className="space-y-3">
+        {nutrients.map((n, i) => (
+          <div key={i}>
+            <div className="flex justify-between text-sm mb-1">
+              <span className="text-slate-300">{n.name}</span>
+              <span className="font-mono text-white">{n.amount} {n.unit}{n.dailyValuePercent != null && <span className="text-slate-500"> · {n.dailyValuePercent}% DV</span>}</span>
+            </div>
+            {n.dailyValuePercent != null && (
+              <div className="h-1.5 rounded-full bg-white/5 overflow-hidden">
+                <div className={`h-full rounded-full ${n.dailyValuePercent > 50 ? 'bg-amber-500' : 'bg-emerald-500'}`} style={{ width: `${Math.min(n.dailyValuePercent, 100)}%` }} />
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    );
+  }
+
+  if (events && events.length > 0) {
+    return (
+      <table className="w-full text-sm">
+        <thead><tr><th className={headClass}>Day</th><th className={headClass}>Time</th><th className={headClass}>Event</th></tr></thead>
+        <tbody className="divide-y divide-white/5">
+          {events.map((e, i) => (
+            <tr key={i}>
+              <td className={cellClass}>{e.day}</td>
+              <td className={`${cellClass} font-mono text-xs`}>{e.start ? `${e.start}${e.end ? `–${e.end}` : ''}` : 'All day'}</td>
+              <td className={cellClass}>{e.title}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    );
+  }
+
+  return null;
+};
+
+const SPECIALIST_PANEL_TITLES: Partial<Record<AnalysisCategory, string>> = {
+  [AnalysisCategory.FINANCE]: 'Transactions',
+  [AnalysisCategory.FOOD]: 'Nutrition Breakdown',
+  [AnalysisCategory.SCHEDULE]: 'Extracted Events'
+};
+
+// --- Sub-Component: Likelihood × Impact matrix for predictions ---
+const MATRIX_CELL_TONES = [
+  ['bg-emerald-500/5', 'bg-emerald-500/10', 'bg-amber-500/10'],
+  ['bg-emerald-500/10', 'bg-amber-500/10', 'bg-red-500/10'],
+  ['bg-amber-500/10', 'bg-red-500/10', 'bg-red-500/20']
+]; // Indexed [likelihood][impact]
+
+const PredictionMatrix: React.FC<{ predictions: Prediction[] }> = ({ predictions }) => {
+  const rows = buildPredictionMatrix(predictions);
+
+  return (
+    <div className="flex gap-3">
+      <div className="flex items-center">
+        <span className="text-[10px] text-slate-500 uppercase tracking-widest [writing-mode:vertical-rl] rotate-180">Likelihood →</span>
+      </div>
+      <div className="flex-1">
+        <div className="grid grid-cols-[auto_1fr_1fr_1fr] gap-2">
+          {rows.map(row => (
+            <React.Fragment key={row[0].likelihood}>
+              <div className="flex items-center pr-2 text-[10px] text-slate-400 uppercase">{PREDICTION_LEVELS[row[0].likelihood]}</div>
+              {row.map(cell => (
+                <div
+                  key={cell.impact}
+                  className={`min-h-[90px] rounded-lg border border-white/5 p-2 space-y-2 ${MATRIX_CELL_TONES[cell.likelihood][cell.impact]}`}
+                >
+                  {cell.predictions.map((p, i) => (
+                    <div key={i} className="rounded-md bg-[#020617]/60 border border-white/10 p-2">
+                      <p className="text-xs text-slate-200 leading-snug">{p.outcome}</p>
+                      <span className="mt-1 inline-flex items-center gap-1 text-[10px] text-cyan-400 font-mono">
+                        <Clock size={10} /> {p.timeframe}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              ))}
+            </React.Fragment>
+          ))}
+          <div />
+          {PREDICTION_LEVELS.map(level => (
+            <div key={level} className="text-center text-[10px] text-slate-400 uppercase">{level}</div>
+          ))}
+        </div>
+        <p className="mt-2 text-center text-[10px] text-slate-500 uppercase tracking-widest">Impact →</p>
+      </div>
+    </div>
+  );
+};
+
+// --- Sub-Component: Action plan as a checklist with progress ---
+export const PRIORITY_STYLES: Record<ActionPriority, string> = {
+  high: 'text-red-400 border-red-500/30 bg-red-500/10',
+  medium: 'text-amber-400 border-amber-500/30 bg-amber-500/10',
+  low: 'text-slate-400 border-white/10 bg-white/5'
+};
+
+const ActionChecklist: React.FC<{ actions: ActionItem[], onChange: (actions: ActionItem[]) => void }> = ({ actions, onChange }) => {
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const progress = getActionProgress(actions);
+
+  const update = (id: string, patch: Partial<ActionItem>) =>
+    onChange(actions.map(action => action.id === id ? { ...action, ...patch } : action));
+  const toggle = (action: ActionItem) =>
+    onChange(actions.map(a => a.id === action.id ? setActionDone(a, !a.done) : a));
+
+  const fieldClass = "bg-black/30 border border-white/10 rounded-lg px-2 py-1 text-xs text-white focus:outline-none focus:border-cyan-500/50";
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <div className="flex justify-between text-xs text-slate-400 mb-1">
+          <span>{progress.done} of {progress.total} done</span>
+          <span className="font-mono">{progress.percent}%</span>
+        </div>
+        <div className="h-1.5 rounded-full bg-white/5 overflow-hidden">
+          <div className="h-full bg-emerald-500 transition-all duration-500" style={{ width: `${progress.percent}%` }} />
+        </div>
+      </div>
+
+      {actions.map(action => {
+        const isExpanded = expandedId === action.id;
+        return (
+          <div key={action.id} className="rounded-lg hover:bg-white/5 transition-colors">
+            <div className="flex gap-3 items-start p-3">
+              <button
+                onClick={() => toggle(action)}
+                className={`mt-0.5 w-4 h-4 flex-shrink-0 rounded border flex items-center justify-center transition-colors ${action.done ? 'bg-emerald-500 border-emerald-500' : 'border-slate-600 hover:border-emerald-500'}`}
+                title={action.done ? 'Mark as open' : 'Mark as done'}
+              >
+                {action.done && <Check size={12} className="text-white" />}
+              </button>
+              <div className="flex-1 min-w-0">
+                <span className={`text-sm transition-colors ${action.done ? 'text-slate-500 line-through' : 'text-slate-300'}`}>{action.text}</span>
+                <div className="flex flex-wrap items-center gap-2 mt-1 text-[10px]">
+                  {action.priority !== 'medium' && (
+                    <span className={`px-1.5 py-0.5 rounded border uppercase tracking-wider ${PRIORITY_STYLES[action.priority]}`}>{action.priority}</span>
+                  )}
+                  {action.dueDate && (
+                    <span className={isOverdue(action) ? 'text-red-400' : 'text-slate-500'}>Due {action.dueDate}</span>
+                  )}
+                  {action.done && action.completedAt && (
+                    <span className="text-emerald-500/80">Done {new Date(action.completedAt).toLocaleDateString()}</span>
+                  )}
+                  {action.notes && !isExpanded && <span className="text-slate-500 truncate max-w-[12rem]">{action.notes}</span>}
+                </div>
+              </div>
+              <button onClick={() => setExpandedId(isExpanded ? null : action.id)} className="text-slate-600 hover:text-white transition-colors" title="Details">
+                <ChevronDown size={14} className={`transition-transform ${isExpanded ? 'rotate-180' : ''}`} />
+              </button>
+            </div>
+
+            {isExpanded && (
+              <div className="px-3 pb-3 pl-10 space-y-2 animate-in fade-in slide-in-from-top-1">
+                <div className="flex gap-2">
+                  <input type="date" value={action.dueDate || ''} onChange={e => update(action.id, { dueDate: e.target.value || undefined })} className={fieldClass} />
+                  <select value={action.priority} onChange={e => update(action.id, { priority: e.target.value as ActionPriority })} className={fieldClass}>
+                    {ACTION_PRIORITIES.map(priority => <option key={priority} value={priority}>{priority} priority</option>)}
+                  </select>
+                </div>
+                <textarea
+                  defaultValue={action.notes || ''}
+                  onBlur={e => e.target.value !== (action.notes || '') && update(action.id, { notes: e.target.value || undefined })}
+                  placeholder="Notes"
+                  rows={2}
+                  className={`${fieldClass} w-full`}
+                />
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+const NO_IMAGES: string[] = [];
+
+// --- Sub-Component: Share panel with redaction ---
+// Images and chat stay on the device unless ticked. Links never carry images; a snapshot
+// too large for a link can still go out as the HTML file.
+const SharePanel: React.FC<ShareSource> = ({ result, lens, images, chat }) => {
+  const [includeImages, setIncludeImages] = useState(false);
+  const [includeChat, setIncludeChat] = useState(false);
+  const [link, setLink] = useState<string | null | undefined>(undefined); // undefined while encoding
+  const [notice, setNotice] = useState<string | null>(null);
+
+  // Rebuilt (and the link re-encoded) only when the content or the redaction changes
+  const snapshot = useMemo(
+    () => createShareSnapshot({ result, lens, images, chat }, { includeImages, includeChat }),
+    [result, lens, images, chat, includeImages, includeChat]
+  );
+
+  useEffect(() => {
+    let cancelled = false;
+    setLink(undefined);
+    buildShareLink(snapshot)
+      .then(built => { if (!cancelled) setLink(built); })
+      .catch(err => {
+        console.error("Failed to build share link", err);
+        if (!cancelled) setLink(null);
+      });
+    return () => { cancelled = true; };
+  }, [snapshot]);
+
+  const handleShare = async () => {
+    setNotice(null);
+    try {
+      await shareSnapshot(snapshot, link || null);
+    } catch (err) {
+      setNotice(err instanceof ShareError ? err.message : "Sharing failed.");
+    }
+  };
+
+  const handleCopyLink = async () => {
+    if (!link) return;
+    try {
+      await navigator.clipboard.writeText(link);
+      setNotice("Link copied. Anyone with it can view this analysis.");
+    } catch {
+      setNotice("Could not access the clipboard.");
+    }
+  };
+
+  const optionClass = "flex items-center gap-2 text-xs text-slate-400 cursor-pointer";
+  const buttonClass = "py-2 rounded-lg bg-cyan-500/10 hover:bg-cyan-500/20 border border-cyan-500/30 text-[11px] text-cyan-300 transition-colors disabled:opacity-40 flex items-center justify-center gap-1";
+
+  return (
+    <div className="space-y-3 p-3 rounded-xl bg-black/20 border border-white/5 animate-in fade-in slide-in-from-top-1">
+      <label className={optionClass}>
+        <input type="checkbox" checked={includeImages} disabled={images.length === 0} onChange={e => setIncludeImages(e.target.checked)} className="accent-cyan-500" />
+        Include images ({images.length})
+      </label>
+      <label className={optionClass}>
+        <input type="checkbox" checked={includeChat} disabled={chat.length === 0} onChange={e => setIncludeChat(e.target.checked)} className="accent-cyan-500" />
+        Include chat ({chat.length} messages)
+      </label>
+      <div className="grid grid-cols-2 gap-2">
+        {webShareSupported() && (
+          <button onClick={handleShare} className={`${buttonClass} col-span-2`}>
+            <Share2 size={12} /> Share…
+          </button>
+        )}
+        <button onClick={() => downloadShareFile(snapshot)} className={buttonClass}>
+          <Download size={12} /> HTML File
+        </button>
+        <button onClick={handleCopyLink} disabled={!link} className={buttonClass}>
+          <Link size={12} /> Copy Link
+        </button>
+      </div>
+      {link === null && <p className="text-[10px] text-slate-500">Too large for a link; share the HTML file instead.</p>}
+      {link && includeImages && <p className="text-[10px] text-slate-500">Links never include images.</p>}
+      {notice && <p className="text-[10px] text-cyan-300">{notice}</p>}
+    </div>
+  );
+};
+
 // --- Main Dashboard ---
 const AnalysisDashboard: React.FC<AnalysisDashboardProps> = ({ 
-  result, userImages, historyId, initialChatHistory, onChatUpdate 
+  result, userImages, historyId, timestamp, initialChatHistory, onChatUpdate, pendingFields, lens, actions, onActionsChange, readOnly
 }) => {
-  const [activeTab, setActiveTab] = useState<'overview' | 'impact' | 'cause-effect'>('overview');
+  const [activeTab, setActiveTab] = useState<'overview' | 'impact' | 'predictions' | 'cause-effect'>('overview');
   const [showAssistant, setShowAssistant] = useState(false);
+  const [showPlanExport, setShowPlanExport] = useState(false);
+  const [showShare, setShowShare] = useState(false);
 
+  // Keyed on the history id so streamed partial updates don't reset the view
   useEffect(() => {
     setActiveTab('overview');
     setShowAssistant(false);
-  }, [result]);
+    setShowPlanExport(false);
+    setShowShare(false);
+  }, [historyId]);
 
   if (!result) return null;
 
-  const handleExportPDF = () => {
-    generatePDFReport(result, userImages);
+  const isStreaming = !!pendingFields;
+  const isPending = (field: keyof AnalysisResult) => !!pendingFields?.includes(field);
+  const hasSpecialistData = !!(result.transactions?.length || result.nutrients?.length || result.events?.length);
+  const lensMetricLabels = new Set(lens?.metrics.map(metric => metric.label.toLowerCase()) || []);
+
+  const handleExportPDF = async () => {
+    generatePDFReport(result, userImages, lens, await renderChartImage(result));
+  };
+
+  const hasPlan = result.actionPlan.length > 0 || !!result.events?.length;
+  const handleExportPlan = (format: PlanExportFormat) => {
+    downloadPlan(format, { id: historyId, timestamp: timestamp || new Date(), result, actions }, `${result.category} Action Plan`);
+    setShowPlanExport(false);
   };
 
   const getCategoryIcon = (category: AnalysisCategory) => {
@@ -243,13 +510,39 @@ const AnalysisDashboard: React.FC<AnalysisDashboardProps> = ({
                    {result.isMergedReality && (
                      <span className="text-xs font-bold text-purple-400 border border-purple-500/30 px-2 py-0.5 rounded-full bg-purple-500/10">REALITY MERGE ACTIVE</span>
                    )}
+                   {lens && (
+                     <span
+                       className="ml-2 text-xs font-bold text-cyan-300 border border-cyan-500/30 px-2 py-0.5 rounded-full bg-cyan-500/10 cursor-help inline-flex items-center gap-1"
+                       title={lens.instruction}
+                     >
+                       <Aperture size={10} /> {lens.name.toUpperCase()}
+                     </span>
+                   )}
+                   {result.validationNotes && result.validationNotes.length > 0 && (
+                     <span
+                       className="ml-2 text-xs font-bold text-amber-400 border border-amber-500/30 px-2 py-0.5 rounded-full bg-amber-500/10 cursor-help"
+                       title={result.validationNotes.join('\n')}
+                     >
+                       AUTO-REPAIRED ({result.validationNotes.length})
+                     </span>
+                   )}
                  </div>
                </div>
-               <p className="text-slate-300 leading-relaxed max-w-2xl">{result.summary}</p>
+               {isPending('summary') ? (
+                 <div className="w-full max-w-2xl"><SectionSkeleton lines={2} /></div>
+               ) : (
+                 <p className="text-slate-300 leading-relaxed max-w-2xl">{result.summary}</p>
+               )}
+               {lens?.rubric && result.scoreRationale && (
+                 <div className="max-w-2xl p-3 rounded-lg bg-cyan-500/5 border border-cyan-500/20 text-sm">
+                   <span className="block text-[10px] font-bold text-cyan-400 uppercase tracking-widest mb-1 cursor-help" title={lens.rubric}>Score Rationale · {lens.name} rubric</span>
+                   <p className="text-slate-300">{result.scoreRationale}</p>
+                 </div>
+               )}
             </div>
             
             <div className="hidden md:flex flex-col items-center justify-center w-24 h-24 rounded-full border-4 border-white/5 bg-white/5 backdrop-blur-md">
-               <span className="text-3xl font-bold text-white">{result.score}</span>
+               <span className="text-3xl font-bold text-white">{isPending('score') ? '--' : result.score}</span>
                <span className="text-[10px] text-slate-400 uppercase tracking-widest">Score</span>
             </div>
           </div>
@@ -259,6 +552,7 @@ const AnalysisDashboard: React.FC<AnalysisDashboardProps> = ({
              {[
                { id: 'overview', label: 'Overview' },
                { id: 'impact', label: 'Future Impact' },
+               { id: 'predictions', label: 'Predictions' },
                { id: 'cause-effect', label: 'Logic Chain' }
              ].map(tab => (
                <button 
@@ -280,21 +574,26 @@ const AnalysisDashboard: React.FC<AnalysisDashboardProps> = ({
                {/* Metrics */}
                <div className="glass-panel rounded-2xl p-6">
                   <h3 className="text-xs font-bold text-slate-500 uppercase tracking-widest mb-6">Key Metrics</h3>
-                  <div className="space-y-4">
+                  {isPending('metrics') ? <SectionSkeleton /> : <div className="space-y-4">
                     {result.metrics.map((m, i) => (
-                      <div key={i} className="flex justify-between items-center p-3 rounded-lg bg-white/5 border border-white/5">
-                        <span className="text-sm text-slate-400">{m.label}</span>
+                      <div key={i} className={`flex justify-between items-center p-3 rounded-lg border ${lensMetricLabels.has(m.label.toLowerCase()) ? 'bg-cyan-500/5 border-cyan-500/20' : 'bg-white/5 border-white/5'}`}>
+                        <span className="text-sm text-slate-400 flex items-center gap-1">
+                          {lensMetricLabels.has(m.label.toLowerCase()) && <Aperture size={12} className="text-cyan-400" />}
+                          {m.label}
+                        </span>
                         <span className="font-mono text-white">{m.value} {m.unit}</span>
                       </div>
                     ))}
-                  </div>
+                  </div>}
                </div>
 
                {/* Graph */}
                <div className="glass-panel rounded-2xl p-6 flex flex-col min-h-[300px]">
                   <h3 className="text-xs font-bold text-slate-500 uppercase tracking-widest mb-2">World Graph</h3>
                   <div className="flex-1 relative">
-                    {result.knowledgeGraph ? (
+                    {isPending('knowledgeGraph') ? (
+                      <SectionSkeleton lines={4} />
+                    ) : result.knowledgeGraph ? (
                       <KnowledgeGraphViz nodes={result.knowledgeGraph.nodes} edges={result.knowledgeGraph.edges} />
                     ) : (
                       <div className="flex items-center justify-center h-full text-slate-600">No Graph Data</div>
@@ -302,6 +601,18 @@ const AnalysisDashboard: React.FC<AnalysisDashboardProps> = ({
                   </div>
                </div>
 
+               {/* Chart Data */}
+               {(isPending('chartData') || (result.chartData && result.chartData.length > 0)) && (
+                 <div className="md:col-span-2 glass-panel rounded-2xl p-6">
+                    <h3 className="text-xs font-bold text-slate-500 uppercase tracking-widest mb-6">Data Breakdown</h3>
+                    {isPending('chartData') ? (
+                      <SectionSkeleton lines={4} />
+                    ) : (
+                      <ChartPanel data={result.chartData!} kind={getChartKind(result.category)} />
+                    )}
+                 </div>
+               )}
+
                {/* Reality Merge Intelligence Section (Only if Merged) */}
                {result.isMergedReality && result.mergeConnections && result.mergeConnections.length > 0 && (
                  <div className="md:col-span-2 glass-panel rounded-2xl p-6 border-l-4 border-purple-500 bg-purple-500/5">
@@ -329,24 +640,36 @@ const AnalysisDashboard: React.FC<AnalysisDashboardProps> = ({
                {/* Insights */}
                <div className="md:col-span-2 glass-panel rounded-2xl p-6">
                   <h3 className="text-xs font-bold text-slate-500 uppercase tracking-widest mb-6">Strategic Insights</h3>
-                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  {isPending('insights') ? <SectionSkeleton lines={2} /> : <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                     {result.insights.map((insight, i) => (
                       <div key={i} className="flex gap-3 text-sm text-slate-300">
                         <Zap className="text-yellow-400 shrink-0" size={16} />
                         {insight}
                       </div>
                     ))}
-                  </div>
+                  </div>}
                </div>
+
+               {/* Specialist Data (only after a category specialist run) */}
+               {hasSpecialistData && (
+                 <div className="md:col-span-2 glass-panel rounded-2xl p-6 overflow-x-auto">
+                    <h3 className="text-xs font-bold text-slate-500 uppercase tracking-widest mb-6">
+                      {SPECIALIST_PANEL_TITLES[result.category] || 'Specialist Data'}
+                    </h3>
+                    <SpecialistDataPanel result={result} />
+                 </div>
+               )}
             </div>
           )}
 
-          {activeTab === 'impact' && (
+          {activeTab === 'impact' && isPending('consequences') && <SectionSkeleton lines={4} />}
+
+          {activeTab === 'impact' && !isPending('consequences') && (
              <div className="grid grid-cols-1 md:grid-cols-3 gap-4 animate-in fade-in slide-in-from-bottom-4">
                 {/* Immediate Column */}
                 <div className="space-y-4">
                    <h4 className="text-xs font-bold text-cyan-400 uppercase tracking-widest border-b border-cyan-500/30 pb-2">Immediate (1 Week)</h4>
-                   {result.consequences?.filter(c => c.timeframe === 'immediate').map((cons, i) => (
+                   {result.consequences.filter(c => c.timeframe === 'immediate').map((cons, i) => (
                       <div key={i} className={`p-4 rounded-xl border border-white/5 bg-white/5 ${cons.severity === 'high' ? 'border-l-4 border-l-red-500' : 'border-l-4 border-l-cyan-500'}`}>
                          <div className="flex justify-between items-center mb-1">
                             <span className="text-[10px] text-slate-400 uppercase">{cons.domain}</span>
@@ -354,13 +677,13 @@ const AnalysisDashboard: React.FC<AnalysisDashboardProps> = ({
                          <p className="text-sm text-slate-200">{cons.prediction}</p>
                       </div>
                    ))}
-                   {!result.consequences?.some(c => c.timeframe === 'immediate') && <p className="text-xs text-slate-600 italic">No immediate impacts detected.</p>}
+                   {!result.consequences.some(c => c.timeframe === 'immediate') && <p className="text-xs text-slate-600 italic">No immediate impacts detected.</p>}
                 </div>
 
                 {/* Short Term Column */}
                 <div className="space-y-4">
                    <h4 className="text-xs font-bold text-blue-400 uppercase tracking-widest border-b border-blue-500/30 pb-2">Short Term (1 Month)</h4>
-                   {result.consequences?.filter(c => c.timeframe === 'short_term').map((cons, i) => (
+                   {result.consequences.filter(c => c.timeframe === 'short_term').map((cons, i) => (
                       <div key={i} className={`p-4 rounded-xl border border-white/5 bg-white/5 ${cons.severity === 'high' ? 'border-l-4 border-l-red-500' : 'border-l-4 border-l-blue-500'}`}>
                          <div className="flex justify-between items-center mb-1">
                             <span className="text-[10px] text-slate-400 uppercase">{cons.domain}</span>
@@ -368,13 +691,13 @@ const AnalysisDashboard: React.FC<AnalysisDashboardProps> = ({
                          <p className="text-sm text-slate-200">{cons.prediction}</p>
                       </div>
                    ))}
-                   {!result.consequences?.some(c => c.timeframe === 'short_term') && <p className="text-xs text-slate-600 italic">No short term impacts detected.</p>}
+                   {!result.consequences.some(c => c.timeframe === 'short_term') && <p className="text-xs text-slate-600 italic">No short term impacts detected.</p>}
                 </div>
 
                 {/* Long Term Column */}
                 <div className="space-y-4">
                    <h4 className="text-xs font-bold text-purple-400 uppercase tracking-widest border-b border-purple-500/30 pb-2">Long Term (1 Year)</h4>
-                   {result.consequences?.filter(c => c.timeframe === 'long_term').map((cons, i) => (
+                   {result.consequences.filter(c => c.timeframe === 'long_term').map((cons, i) => (
                       <div key={i} className={`p-4 rounded-xl border border-white/5 bg-white/5 ${cons.severity === 'high' ? 'border-l-4 border-l-red-500' : 'border-l-4 border-l-purple-500'}`}>
                          <div className="flex justify-between items-center mb-1">
                             <span className="text-[10px] text-slate-400 uppercase">{cons.domain}</span>
@@ -382,19 +705,27 @@ const AnalysisDashboard: React.FC<AnalysisDashboardProps> = ({
                          <p className="text-sm text-slate-200">{cons.prediction}</p>
                       </div>
                    ))}
-                   {!result.consequences?.some(c => c.timeframe === 'long_term') && <p className="text-xs text-slate-600 italic">No long term impacts detected.</p>}
+                   {!result.consequences.some(c => c.timeframe === 'long_term') && <p className="text-xs text-slate-600 italic">No long term impacts detected.</p>}
                 </div>
+             </div>
+          )}
+
+          {activeTab === 'predictions' && isPending('predictions') && <SectionSkeleton lines={4} />}
 
-                {/* Legacy Fallback if no consequences */}
-                {!result.consequences && (
-                   <div className="col-span-3 text-center py-10 text-slate-500">
-                      Run a new analysis to see temporal consequences.
-                   </div>
+          {activeTab === 'predictions' && !isPending('predictions') && (
+             <div className="glass-panel rounded-2xl p-6 animate-in fade-in slide-in-from-bottom-4">
+                <h3 className="text-xs font-bold text-slate-500 uppercase tracking-widest mb-6">Likelihood × Impact</h3>
+                {result.predictions && result.predictions.length > 0 ? (
+                  <PredictionMatrix predictions={result.predictions} />
+                ) : (
+                  <div className="text-center py-10 text-slate-500">No predictions for this analysis.</div>
                 )}
              </div>
           )}
 
-          {activeTab === 'cause-effect' && (
+          {activeTab === 'cause-effect' && isPending('causeEffectChain') && <SectionSkeleton lines={4} />}
+
+          {activeTab === 'cause-effect' && !isPending('causeEffectChain') && (
              <div className="glass-panel rounded-2xl p-8 relative">
                 <div className="absolute left-8 top-8 bottom-8 w-0.5 bg-slate-800" />
                 <div className="space-y-8">
@@ -416,10 +747,11 @@ const AnalysisDashboard: React.FC<AnalysisDashboardProps> = ({
       <div className="w-full lg:w-80 flex flex-col gap-6">
         
         {/* NEW: WINNING FEATURE - LIVE LINK BUTTON */}
-        <div className="glass-card rounded-2xl p-1 bg-gradient-to-r from-cyan-500 to-blue-600">
+        {!readOnly && <div className="glass-card rounded-2xl p-1 bg-gradient-to-r from-cyan-500 to-blue-600">
            <button 
              onClick={() => setShowAssistant(!showAssistant)}
-             className="w-full py-4 bg-[#020617] hover:bg-[#0f172a] rounded-xl flex items-center justify-center gap-3 transition-colors group relative overflow-hidden"
+             disabled={isStreaming}
+             className="w-full py-4 bg-[#020617] hover:bg-[#0f172a] rounded-xl flex items-center justify-center gap-3 transition-colors group relative overflow-hidden disabled:opacity-50 disabled:cursor-wait"
            >
              <div className="absolute inset-0 bg-gradient-to-r from-cyan-500/10 to-blue-500/10 opacity-0 group-hover:opacity-100 transition-opacity" />
              <MessageSquare size={20} className="text-cyan-400" />
@@ -428,21 +760,21 @@ const AnalysisDashboard: React.FC<AnalysisDashboardProps> = ({
                <span className="block text-[10px] text-cyan-400">Chat with this Analysis</span>
              </div>
            </button>
-        </div>
+        </div>}
 
         {/* Actions Box */}
         <div className="glass-panel rounded-2xl p-6">
            <h3 className="text-xs font-bold text-slate-500 uppercase tracking-widest mb-6">Recommended Actions</h3>
-           <div className="space-y-3">
+           {isPending('actionPlan') ? <SectionSkeleton /> : actions && onActionsChange ? (
+              <ActionChecklist actions={actions} onChange={onActionsChange} />
+           ) : <div className="space-y-3">
               {result.actionPlan.map((action, i) => (
-                 <div key={i} className="flex gap-3 items-start p-3 rounded-lg hover:bg-white/5 transition-colors cursor-pointer group">
-                    <div className="mt-0.5 w-4 h-4 rounded border border-slate-600 group-hover:border-emerald-500 flex items-center justify-center">
-                       <div className="w-2 h-2 bg-emerald-500 opacity-0 group-hover:opacity-100 rounded-sm transition-opacity" />
-                    </div>
-                    <span className="text-sm text-slate-300 group-hover:text-white transition-colors">{action}</span>
+                 <div key={i} className="flex gap-3 items-start p-3 rounded-lg">
+                    <div className="mt-0.5 w-4 h-4 flex-shrink-0 rounded border border-slate-700" />
+                    <span className="text-sm text-slate-300">{action}</span>
                  </div>
               ))}
-           </div>
+           </div>}
         </div>
 
         {/* Export Tools */}
@@ -451,15 +783,46 @@ const AnalysisDashboard: React.FC<AnalysisDashboardProps> = ({
            <div className="space-y-3">
               <button 
                 onClick={handleExportPDF}
-                className="w-full py-3 bg-white/5 hover:bg-white/10 border border-white/10 rounded-xl text-sm font-medium text-white flex items-center justify-center gap-2 transition-all"
+                disabled={isStreaming}
+                className="w-full py-3 bg-white/5 hover:bg-white/10 border border-white/10 rounded-xl text-sm font-medium text-white flex items-center justify-center gap-2 transition-all disabled:opacity-50"
               >
                  <FileDown size={16} />
                  Download PDF Report
               </button>
-              <button className="w-full py-3 bg-white/5 hover:bg-white/10 border border-white/10 rounded-xl text-sm font-medium text-slate-300 flex items-center justify-center gap-2 transition-all">
-                 <Share2 size={16} />
-                 Share Analysis
+              <button
+                onClick={() => setShowPlanExport(!showPlanExport)}
+                disabled={isStreaming || !hasPlan}
+                className="w-full py-3 bg-white/5 hover:bg-white/10 border border-white/10 rounded-xl text-sm font-medium text-white flex items-center justify-center gap-2 transition-all disabled:opacity-50"
+              >
+                 <CalendarPlus size={16} />
+                 Export Action Plan
               </button>
+              {showPlanExport && (
+                <div className="grid grid-cols-3 gap-2 animate-in fade-in slide-in-from-top-1">
+                  {(Object.keys(PLAN_EXPORT_LABELS) as PlanExportFormat[]).map(format => (
+                    <button
+                      key={format}
+                      onClick={() => handleExportPlan(format)}
+                      className="py-2 rounded-lg bg-cyan-500/10 hover:bg-cyan-500/20 border border-cyan-500/30 text-[11px] text-cyan-300 transition-colors"
+                    >
+                      {PLAN_EXPORT_LABELS[format]}
+                    </button>
+                  ))}
+                </div>
+              )}
+              {!readOnly && (
+                <button
+                  onClick={() => setShowShare(!showShare)}
+                  disabled={isStreaming}
+                  className="w-full py-3 bg-white/5 hover:bg-white/10 border border-white/10 rounded-xl text-sm font-medium text-slate-300 flex items-center justify-center gap-2 transition-all disabled:opacity-50"
+                >
+                   <Share2 size={16} />
+                   Share Analysis
+                </button>
+              )}
+              {showShare && !readOnly && (
+                <SharePanel result={result} lens={lens} images={userImages || NO_IMAGES} chat={initialChatHistory} />
+              )}
            </div>
         </div>
 
@@ -0,0 +1,65 @@
+import React, { useState } from 'react';
+import { AnalysisCategory, ClassificationResult } from '../types';
+import { BrainCircuit, ArrowRight } from 'lucide-react';
+
+interface CategoryConfirmProps {
+  classification: ClassificationResult;
+  onConfirm: (category: AnalysisCategory) => void;
+  onCancel: () => void;
+}
+
+// Shown between the classification pass and the specialist pass so the user can override the category.
+const CategoryConfirm: React.FC<CategoryConfirmProps> = ({ classification, onConfirm, onCancel }) => {
+  const [selected, setSelected] = useState<AnalysisCategory>(classification.category);
+  const confidencePct = Math.round(classification.confidence * 100);
+
+  return (
+    <div className="w-full max-w-2xl mx-auto glass-panel rounded-3xl p-8 border border-white/10 animate-in fade-in zoom-in duration-500">
+      <div className="flex items-center gap-3 mb-6">
+        <div className="p-2 bg-cyan-500/10 rounded-lg border border-cyan-500/30">
+          <BrainCircuit className="text-cyan-400" size={24} />
+        </div>
+        <div>
+          <h2 className="text-xl font-bold text-white tracking-tight">Detected: {classification.category}</h2>
+          <p className="text-xs text-slate-400 font-mono">{confidencePct}% confidence</p>
+        </div>
+      </div>
+
+      <p className="text-sm text-slate-300 mb-6">{classification.rationale}</p>
+
+      <h3 className="text-xs font-bold text-slate-500 uppercase tracking-widest mb-3">Run specialist as</h3>
+      <div className="flex flex-wrap gap-2 mb-8">
+        {Object.values(AnalysisCategory).map(category => (
+          <button
+            key={category}
+            onClick={() => setSelected(category)}
+            className={`px-3 py-1.5 rounded-full text-xs font-bold border transition-colors ${
+              selected === category
+                ? 'bg-cyan-500/20 border-cyan-500/50 text-cyan-300'
+                : 'bg-white/5 border-white/10 text-slate-400 hover:text-white'
+            }`}
+          >
+            {category}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex justify-end gap-3">
+        <button
+          onClick={onCancel}
+          className="px-5 py-2.5 rounded-xl border border-white/10 bg-white/5 hover:bg-white/10 text-slate-300 text-sm transition-colors"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={() => onConfirm(selected)}
+          className="px-5 py-2.5 rounded-xl bg-gradient-to-r from-cyan-500 to-blue-600 text-white text-sm font-bold flex items-center gap-2 hover:opacity-90 transition-opacity"
+        >
+          Run {selected} Analysis <ArrowRight size={16} />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default CategoryConfirm;
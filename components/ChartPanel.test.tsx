@@ -0,0 +1,43 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { renderChartImage } from './ChartPanel';
+import { renderSvgToImage } from '../utils/chartImage';
+import { AnalysisCategory, AnalysisResult } from '../types';
+
+vi.mock('../utils/chartImage', () => ({ renderSvgToImage: vi.fn() }));
+
+const IMAGE = { dataUrl: 'data:image/png;base64,', width: 720, height: 260 };
+
+const result = (chartData: AnalysisResult['chartData']) =>
+  ({ category: AnalysisCategory.GENERAL, chartData } as AnalysisResult);
+
+describe('renderChartImage', () => {
+  afterEach(() => vi.mocked(renderSvgToImage).mockReset());
+
+  it('rasterizes the chart without it being on screen', async () => {
+    let bars = 0;
+    vi.mocked(renderSvgToImage).mockImplementation(async svg => {
+      expect(svg.isConnected).toBe(true);
+      bars = svg.querySelectorAll('.recharts-bar-rectangle').length;
+      return IMAGE;
+    });
+
+    const image = await renderChartImage(result([{ name: 'A', value: 3 }, { name: 'B', value: 5 }]));
+
+    expect(image).toBe(IMAGE);
+    expect(bars).toBe(2);
+    expect(document.querySelector('[aria-hidden] .recharts-wrapper')).toBeNull();
+  });
+
+  it('skips results without chart data', async () => {
+    expect(await renderChartImage(result([]))).toBeNull();
+    expect(renderSvgToImage).not.toHaveBeenCalled();
+  });
+
+  it('falls back to drawn bars when rasterizing fails', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.mocked(renderSvgToImage).mockRejectedValue(new Error('tainted canvas'));
+
+    expect(await renderChartImage(result([{ name: 'A', value: 1 }]))).toBeNull();
+    expect(document.querySelector('[aria-hidden] .recharts-wrapper')).toBeNull();
+  });
+});
@@ -0,0 +1,114 @@
+import React from 'react';
+import { createRoot } from 'react-dom/client';
+import { flushSync } from 'react-dom';
+import { AnalysisCategory, AnalysisResult, ChartDataPoint } from '../types';
+import { TOOLTIP_STYLE } from '../utils/chartTheme';
+import { ChartImage, renderSvgToImage } from '../utils/chartImage';
+import {
+  ResponsiveContainer, BarChart, Bar, LineChart, Line, PieChart, Pie, Cell,
+  RadarChart, Radar, PolarGrid, PolarAngleAxis, XAxis, YAxis, CartesianGrid, Tooltip
+} from 'recharts';
+
+export type ChartKind = 'bar' | 'line' | 'pie' | 'radar';
+
+// Breakdowns read best as pies, progress as lines, skill/area profiles as radars.
+const CHART_KINDS: Record<AnalysisCategory, ChartKind> = {
+  [AnalysisCategory.FINANCE]: 'pie',
+  [AnalysisCategory.FOOD]: 'pie',
+  [AnalysisCategory.GOAL]: 'line',
+  [AnalysisCategory.LEARNING]: 'radar',
+  [AnalysisCategory.PROBLEM]: 'radar',
+  [AnalysisCategory.ROOM]: 'bar',
+  [AnalysisCategory.SCHEDULE]: 'bar',
+  [AnalysisCategory.MAP]: 'bar',
+  [AnalysisCategory.GENERAL]: 'bar'
+};
+
+export const getChartKind = (category: AnalysisCategory): ChartKind => CHART_KINDS[category] || 'bar';
+
+const CHART_COLORS = ['#06b6d4', '#8b5cf6', '#10b981', '#f59e0b', '#ef4444', '#3b82f6', '#ec4899', '#64748b'];
+
+const CHART_HEIGHT = 260;
+
+// Roughly the Data Breakdown panel on a desktop dashboard, so exported charts look the same
+const EXPORT_WIDTH = 720;
+
+interface ChartPanelProps {
+  data: ChartDataPoint[];
+  kind: ChartKind;
+  width?: number; // Fixed size for export; otherwise the chart fills its container
+}
+
+// The chartData chart on the dashboard, and the same chart rendered off-screen for PDFs.
+const ChartPanel: React.FC<ChartPanelProps> = ({ data, kind, width }) => {
+  const axisProps = { stroke: '#64748b', fontSize: 11, tickLine: false };
+  const size = width ? { width, height: CHART_HEIGHT } : {};
+  const animate = !width; // An export is captured on its first frame
+
+  const chart = kind === 'pie' ? (
+    <PieChart {...size}>
+      <Pie data={data} dataKey="value" nameKey="name" innerRadius={55} outerRadius={95} paddingAngle={2} stroke="none" isAnimationActive={animate}
+        label={({ name, percent }) => `${name} ${Math.round((percent || 0) * 100)}%`}>
+        {data.map((_, i) => <Cell key={i} fill={CHART_COLORS[i % CHART_COLORS.length]} />)}
+      </Pie>
+      <Tooltip {...TOOLTIP_STYLE} />
+    </PieChart>
+  ) : kind === 'line' ? (
+    <LineChart data={data} {...size}>
+      <CartesianGrid stroke="rgba(255,255,255,0.05)" vertical={false} />
+      <XAxis dataKey="name" {...axisProps} />
+      <YAxis {...axisProps} width={40} />
+      <Tooltip {...TOOLTIP_STYLE} />
+      <Line type="monotone" dataKey="value" stroke="#06b6d4" strokeWidth={2} dot={{ r: 3, fill: '#06b6d4' }} isAnimationActive={animate} />
+    </LineChart>
+  ) : kind === 'radar' ? (
+    <RadarChart data={data} outerRadius={90} {...size}>
+      <PolarGrid stroke="rgba(255,255,255,0.1)" />
+      <PolarAngleAxis dataKey="name" stroke="#94a3b8" fontSize={11} />
+      <Tooltip {...TOOLTIP_STYLE} />
+      <Radar dataKey="value" stroke="#8b5cf6" fill="#8b5cf6" fillOpacity={0.3} isAnimationActive={animate} />
+    </RadarChart>
+  ) : (
+    <BarChart data={data} {...size}>
+      <CartesianGrid stroke="rgba(255,255,255,0.05)" vertical={false} />
+      <XAxis dataKey="name" {...axisProps} />
+      <YAxis {...axisProps} width={40} />
+      <Tooltip {...TOOLTIP_STYLE} cursor={{ fill: 'rgba(255,255,255,0.03)' }} />
+      <Bar dataKey="value" radius={[4, 4, 0, 0]} isAnimationActive={animate}>
+        {data.map((_, i) => <Cell key={i} fill={CHART_COLORS[i % CHART_COLORS.length]} />)}
+      </Bar>
+    </BarChart>
+  );
+
+  return width ? chart : <ResponsiveContainer width="100%" height={CHART_HEIGHT}>{chart}</ResponsiveContainer>;
+};
+
+// Recharts lays out in effects after the first commit; two frames let it settle
+const nextFrames = () => new Promise<void>(resolve => requestAnimationFrame(() => requestAnimationFrame(() => resolve())));
+
+// The PDF's Data Breakdown image. The chart is rendered into a detached, fixed-size host, so
+// every export gets it: from History, or from a dashboard tab that doesn't show the chart.
+// Null when there is no chart data or it could not be rasterized; the PDF then draws bars.
+export const renderChartImage = async (result: AnalysisResult): Promise<ChartImage | null> => {
+  if (!result.chartData?.length) return null;
+
+  const host = document.createElement('div');
+  host.setAttribute('aria-hidden', 'true');
+  host.style.cssText = `position:fixed;left:-10000px;top:0;width:${EXPORT_WIDTH}px;height:${CHART_HEIGHT}px;pointer-events:none`;
+  document.body.appendChild(host);
+  const root = createRoot(host);
+  try {
+    flushSync(() => root.render(<ChartPanel data={result.chartData!} kind={getChartKind(result.category)} width={EXPORT_WIDTH} />));
+    await nextFrames();
+    const svg = host.querySelector<SVGSVGElement>('svg.recharts-surface');
+    return svg ? await renderSvgToImage(svg) : null;
+  } catch (e) {
+    console.warn("Chart image failed; the PDF draws the data instead", e);
+    return null;
+  } finally {
+    root.unmount();
+    host.remove();
+  }
+};
+
+export default ChartPanel;
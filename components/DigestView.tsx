@@ -0,0 +1,164 @@
+import React, { useMemo } from 'react';
+import { HistoryItem } from '../types';
+import { buildWeeklyDigest, downloadDigestMarkdown, formatDigestPeriod, formatScoreChange } from '../utils/digest';
+import { generateDigestPDF } from '../utils/pdfGenerator';
+import { recordDigest, useDigestRecord } from '../services/digestStore';
+import { updateSettings, useSettings } from '../services/settingsStore';
+import { CATEGORY_COLORS } from '../utils/chartTheme';
+import { ArrowRight, FileDown, FileText, Newspaper, RefreshCw } from 'lucide-react';
+
+interface DigestViewProps {
+  history: HistoryItem[];
+  onSelect: (item: HistoryItem) => void;
+}
+
+// --- Sub-Component: Stat ---
+const Stat: React.FC<{ label: string; value: number; tone?: string }> = ({ label, value, tone = 'text-white' }) => (
+  <div className="glass-panel rounded-2xl p-5">
+    <p className="text-[10px] font-bold uppercase tracking-widest text-slate-500">{label}</p>
+    <p className={`text-3xl font-light mt-1 ${tone}`}>{value}</p>
+  </div>
+);
+
+// The latest weekly digest, rebuilt from history for the period it was produced for
+const DigestView: React.FC<DigestViewProps> = ({ history, onSelect }) => {
+  const record = useDigestRecord();
+  const { weeklyDigest } = useSettings();
+  const digest = useMemo(() => record ? buildWeeklyDigest(history, record.generatedAt) : null, [history, record]);
+
+  const openItem = (historyId: string) => {
+    const item = history.find(entry => entry.id === historyId);
+    if (item) onSelect(item);
+  };
+
+  if (!digest) {
+    return (
+      <div className="flex flex-col items-center justify-center h-[50vh] text-slate-500 text-center">
+         <Newspaper size={48} className="mb-4 opacity-50" />
+         <p className="text-xl">No Digest Yet</p>
+         <p className="text-sm mb-6">
+           {weeklyDigest
+             ? 'Your first digest is produced the next time you open the app in a new week.'
+             : 'Turn on the weekly digest to get a summary of your past seven days every week.'}
+         </p>
+         <div className="flex gap-3">
+           <button
+             onClick={() => recordDigest()}
+             className="px-4 py-2 rounded-xl bg-cyan-500/20 border border-cyan-500/40 text-cyan-300 text-sm hover:bg-cyan-500/30 flex items-center gap-2 transition-colors"
+           >
+             <RefreshCw size={14} /> Generate Now
+           </button>
+           {!weeklyDigest && (
+             <button
+               onClick={() => updateSettings({ weeklyDigest: true })}
+               className="px-4 py-2 rounded-xl border border-white/10 bg-white/5 text-sm text-white hover:bg-white/10 transition-colors"
+             >
+               Enable Weekly Digest
+             </button>
+           )}
+         </div>
+      </div>
+    );
+  }
+
+  const buttonClass = 'px-4 py-2 rounded-xl border border-white/10 bg-white/5 text-sm text-white hover:bg-white/10 flex items-center gap-2 transition-colors';
+
+  return (
+    <div className="space-y-6 animate-in fade-in slide-in-from-bottom-8">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-3">
+        <p className="text-sm text-slate-400">
+          {formatDigestPeriod(digest)} · {digest.analysisCount} {digest.analysisCount === 1 ? 'analysis' : 'analyses'}
+        </p>
+        <div className="flex flex-wrap gap-3">
+          <button onClick={() => recordDigest()} className={buttonClass} title="Rebuild for the seven days up to now">
+            <RefreshCw size={14} /> Refresh
+          </button>
+          <button onClick={() => generateDigestPDF(digest)} className={buttonClass}>
+            <FileDown size={14} /> PDF
+          </button>
+          <button onClick={() => downloadDigestMarkdown(digest)} className={buttonClass}>
+            <FileText size={14} /> Markdown
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <Stat label="Analyses" value={digest.analysisCount} />
+        <Stat label="Actions Completed" value={digest.actions.completed.length} tone="text-emerald-400" />
+        <Stat label="Actions Open" value={digest.actions.open} />
+        <Stat label="Overdue" value={digest.actions.overdue} tone={digest.actions.overdue > 0 ? 'text-red-400' : 'text-white'} />
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {/* Scores by category */}
+        <div className="glass-panel rounded-2xl p-6">
+          <h3 className="text-xs font-bold uppercase tracking-widest text-slate-500 mb-4">Scores by Category</h3>
+          {digest.categories.length === 0 && <p className="text-sm text-slate-600 italic">No analyses this week.</p>}
+          <div className="space-y-3">
+            {digest.categories.map(category => (
+              <div key={category.category}>
+                <div className="flex items-center justify-between text-xs mb-1">
+                  <span className="text-slate-300 font-bold">{category.category} <span className="text-slate-600 font-normal">×{category.count}</span></span>
+                  <span className="text-slate-400">
+                    {category.average}
+                    <span className={`ml-2 ${category.change === null ? 'text-slate-500' : category.change > 0 ? 'text-emerald-400' : category.change < 0 ? 'text-red-400' : 'text-slate-500'}`}>
+                      {formatScoreChange(category.change)}
+                    </span>
+                  </span>
+                </div>
+                <div className="h-1.5 rounded-full bg-white/5 overflow-hidden">
+                  <div className="h-full rounded-full" style={{ width: `${category.average}%`, backgroundColor: CATEGORY_COLORS[category.category] }} />
+                </div>
+              </div>
+            ))}
+          </div>
+          {digest.categories.length > 0 && <p className="text-[10px] text-slate-600 mt-4">Change is against the average of the week before.</p>}
+        </div>
+
+        {/* New risks */}
+        <div className="glass-panel rounded-2xl p-6">
+          <h3 className="text-xs font-bold uppercase tracking-widest text-red-400 mb-4">New High-Severity Risks</h3>
+          {digest.newRisks.length === 0 && <p className="text-sm text-slate-600 italic">Nothing new this week.</p>}
+          <div className="space-y-3">
+            {digest.newRisks.map((risk, i) => (
+              <button key={`${risk.historyId}:${i}`} onClick={() => openItem(risk.historyId)} className="w-full text-left flex items-start gap-3 group">
+                <span className="text-[10px] px-1.5 py-0.5 rounded border border-red-500/30 text-red-300 uppercase tracking-wider flex-shrink-0">{risk.domain}</span>
+                <span className="flex-1 min-w-0">
+                  <span className="block text-sm text-slate-200 group-hover:text-white">{risk.prediction}</span>
+                  <span className="block text-[10px] text-slate-500 truncate">{risk.category} · {risk.source}</span>
+                </span>
+                <ArrowRight size={14} className="text-slate-600 group-hover:text-white mt-1" />
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* Completed actions */}
+        <div className="glass-panel rounded-2xl p-6">
+          <h3 className="text-xs font-bold uppercase tracking-widest text-emerald-400 mb-4">Completed This Week</h3>
+          {digest.actions.completed.length === 0 && <p className="text-sm text-slate-600 italic">No actions completed.</p>}
+          <ul className="space-y-2">
+            {digest.actions.completed.map((text, i) => (
+              <li key={i} className="text-sm text-slate-400 line-through decoration-slate-600">{text}</li>
+            ))}
+          </ul>
+        </div>
+
+        {/* Recurring entities */}
+        <div className="glass-panel rounded-2xl p-6">
+          <h3 className="text-xs font-bold uppercase tracking-widest text-purple-400 mb-4">Recurring Entities</h3>
+          {digest.recurringEntities.length === 0 && <p className="text-sm text-slate-600 italic">No entity appeared in more than one analysis.</p>}
+          <div className="flex flex-wrap gap-2">
+            {digest.recurringEntities.map(entity => (
+              <span key={entity.label} className="px-3 py-1 rounded-full text-xs bg-purple-500/10 border border-purple-500/30 text-purple-200">
+                {entity.label} <span className="opacity-60">×{entity.count}</span>
+              </span>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DigestView;
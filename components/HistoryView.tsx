@@ -1,10 +1,20 @@
 import React, { useState, useMemo, useRef, useEffect } from 'react';
-import { HistoryItem, GraphNode, GraphEdge } from '../types';
-import { FileDown, Calendar, Search, ArrowRight, Activity, History, ZoomIn, ZoomOut, Maximize, RefreshCw } from 'lucide-react';
+import { AnalysisCategory, HistoryItem, GraphNode, GraphEdge, Project } from '../types';
+import { FileDown, Calendar, Search, ArrowRight, Activity, History, ZoomIn, ZoomOut, Maximize, RefreshCw, SlidersHorizontal, X, Pin, PinOff, Pencil, Plus, Folder, Trash2, Square, SquareCheck, ListChecks } from 'lucide-react';
 import { generatePDFReport } from '../utils/pdfGenerator';
+import { renderChartImage } from './ChartPanel';
+import { HistoryItemPatch } from '../services/historyStore';
+import { getItemTitle, normalizeTag } from '../utils/projects';
+import { getActionProgress } from '../utils/actions';
+import ProjectMenu from './ProjectMenu';
+import {
+  DEFAULT_HISTORY_FILTERS, FilteredHistory, HISTORY_SORT_LABELS, HistoryFilters, HistorySort, InputFacet,
+  applyHistoryFilters, countActiveFilters, filtersFromParams, filtersToParams, findSnippet
+} from '../utils/historyFilters';
+import { replaceSearchParams } from '../utils/urlState';
 
 // --- Full Screen Graph Visualization ---
-const FullScreenGraph: React.FC<{ nodes: GraphNode[], edges: GraphEdge[] }> = ({ nodes, edges }) => {
+export const FullScreenGraph: React.FC<{ nodes: GraphNode[], edges: GraphEdge[] }> = ({ nodes, edges }) => {
   const [hoveredNodeId, setHoveredNodeId] = useState<string | null>(null);
   
   // View State for Pan/Zoom
@@ -258,10 +268,299 @@ const FullScreenGraph: React.FC<{ nodes: GraphNode[], edges: GraphEdge[] }> = ({
 
 interface HistoryViewProps {
   history: HistoryItem[];
+  projects: Project[];
   onSelect: (item: HistoryItem) => void;
+  onUpdateItem: (id: string, patch: HistoryItemPatch) => void;
+  onCreateProject: (name: string) => Project;
+  onDeleteItems: (ids: string[]) => void; // Moves to the trash
 }
 
-export const HistoryView: React.FC<HistoryViewProps> = ({ history, onSelect }) => {
+// Mirrors the filters into the query string (replaceState, so no history entry per keystroke)
+const writeFiltersToUrl = (filters: HistoryFilters) =>
+  replaceSearchParams(filtersToParams(filters, new URLSearchParams(window.location.search)));
+
+// --- Sub-Component: Facet controls ---
+const FacetPanel: React.FC<{
+  filters: HistoryFilters;
+  categoryCounts: FilteredHistory['categoryCounts'];
+  tagCounts: FilteredHistory['tagCounts'];
+  onChange: (patch: Partial<HistoryFilters>) => void;
+}> = ({ filters, categoryCounts, tagCounts, onChange }) => {
+  const chipClass = (active: boolean) =>
+    `px-3 py-1 rounded-full text-xs border transition-colors ${active ? 'bg-cyan-500/20 border-cyan-500/50 text-cyan-300' : 'border-white/10 text-slate-400 hover:text-white hover:border-white/20'}`;
+  const fieldClass = "bg-black/30 border border-white/10 rounded-lg px-2 py-1 text-sm text-white focus:outline-none focus:border-cyan-500/50";
+
+  const toggleCategory = (category: AnalysisCategory) => onChange({
+    categories: filters.categories.includes(category)
+      ? filters.categories.filter(c => c !== category)
+      : [...filters.categories, category]
+  });
+  // Selected tags stay visible even when nothing matches them any more
+  const tags = [...new Set([...filters.tags, ...Object.keys(tagCounts)])].sort();
+
+  return (
+    <div className="glass-panel rounded-2xl p-5 space-y-4 animate-in fade-in slide-in-from-top-2">
+      <div className="flex flex-wrap gap-2">
+        {Object.values(AnalysisCategory).map(category => (
+          <button key={category} onClick={() => toggleCategory(category)} className={chipClass(filters.categories.includes(category))}>
+            {category} <span className="opacity-60">{categoryCounts[category] || 0}</span>
+          </button>
+        ))}
+      </div>
+      <div className="flex flex-wrap items-center gap-x-6 gap-y-3 text-xs text-slate-400">
+        <label className="flex items-center gap-2">
+          Score
+          <input type="number" min={0} max={100} value={filters.minScore} onChange={e => onChange({ minScore: Number(e.target.value) })} className={`${fieldClass} w-16`} />
+          –
+          <input type="number" min={0} max={100} value={filters.maxScore} onChange={e => onChange({ maxScore: Number(e.target.value) })} className={`${fieldClass} w-16`} />
+        </label>
+        <label className="flex items-center gap-2">
+          From <input type="date" value={filters.from} onChange={e => onChange({ from: e.target.value })} className={fieldClass} />
+        </label>
+        <label className="flex items-center gap-2">
+          To <input type="date" value={filters.to} onChange={e => onChange({ to: e.target.value })} className={fieldClass} />
+        </label>
+        <div className="flex items-center gap-1">
+          {([['all', 'All inputs'], ['merged', 'Reality merge'], ['single', 'Single input']] as [InputFacet, string][]).map(([value, label]) => (
+            <button key={value} onClick={() => onChange({ input: value })} className={chipClass(filters.input === value)}>{label}</button>
+          ))}
+        </div>
+        <button onClick={() => onChange({ hasRisks: !filters.hasRisks })} className={chipClass(filters.hasRisks)}>Has open risks</button>
+      </div>
+      {tags.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {tags.map(tag => (
+            <button
+              key={tag}
+              onClick={() => onChange({ tags: filters.tags.includes(tag) ? filters.tags.filter(t => t !== tag) : [...filters.tags, tag] })}
+              className={chipClass(filters.tags.includes(tag))}
+            >
+              #{tag} <span className="opacity-60">{tagCounts[tag] || 0}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+// --- Sub-Component: One analysis with its title, tags, pin and projects ---
+interface HistoryCardProps {
+  item: HistoryItem;
+  query: string;
+  projects: Project[];
+  onSelect: (item: HistoryItem) => void;
+  onUpdate: (patch: HistoryItemPatch) => void;
+  onCreateProject: (name: string) => Project;
+  onTagClick: (tag: string) => void;
+  onDelete: () => void;
+  isSelected?: boolean; // Undefined outside select mode
+  onToggleSelected: () => void;
+}
+
+const HistoryCard: React.FC<HistoryCardProps> = ({
+  item, query, projects, onSelect, onUpdate, onCreateProject, onTagClick, onDelete, isSelected, onToggleSelected
+}) => {
+  const [titleDraft, setTitleDraft] = useState<string | null>(null); // null = not renaming
+  const [tagDraft, setTagDraft] = useState<string | null>(null);
+
+  const snippet = query ? findSnippet(item, query) : null;
+  const progress = getActionProgress(item.actions);
+  const itemProjects = projects.filter(project => item.projectIds.includes(project.id));
+
+  // An empty title falls back to the summary again
+  const commitTitle = () => {
+    if (titleDraft === null) return;
+    const title = titleDraft.trim();
+    if (title !== (item.title || '')) onUpdate({ title: title || undefined });
+    setTitleDraft(null);
+  };
+
+  const commitTag = () => {
+    const tag = normalizeTag(tagDraft || '');
+    if (tag && !item.tags.includes(tag)) onUpdate({ tags: [...item.tags, tag] });
+    setTagDraft(null);
+  };
+
+  return (
+    <div className={`glass-panel p-6 rounded-2xl flex flex-col md:flex-row items-center gap-6 hover:bg-white/5 transition-colors group ${isSelected ? 'border border-red-500/40' : item.pinned ? 'border border-cyan-500/30' : ''}`}>
+        {isSelected !== undefined && (
+          <button onClick={onToggleSelected} className={isSelected ? 'text-red-400' : 'text-slate-500 hover:text-white'} title={isSelected ? 'Deselect' : 'Select'}>
+            {isSelected ? <SquareCheck size={22} /> : <Square size={22} />}
+          </button>
+        )}
+
+        {/* Thumbnail */}
+        <div className="w-24 h-24 rounded-xl bg-slate-800 flex-shrink-0 overflow-hidden border border-white/10">
+           {item.images[0] ? (
+             <img src={item.images[0]} alt="analysis" className="w-full h-full object-cover" />
+           ) : (
+             <div className="w-full h-full flex items-center justify-center">
+               <Activity className="text-slate-500" />
+             </div>
+           )}
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 min-w-0 w-full">
+           <div className="flex flex-wrap items-center gap-3 mb-2">
+              <span className="px-3 py-1 rounded-full bg-cyan-500/20 text-cyan-400 text-xs font-bold border border-cyan-500/30">
+                {item.result.category}
+              </span>
+              {item.lens && (
+                <span className="px-3 py-1 rounded-full bg-white/5 text-slate-300 text-xs border border-white/10">
+                  {item.lens.name}
+                </span>
+              )}
+              {itemProjects.map(project => (
+                <span key={project.id} className="px-3 py-1 rounded-full bg-blue-500/10 text-blue-300 text-xs border border-blue-500/20 flex items-center gap-1">
+                  <Folder size={12} /> {project.name}
+                </span>
+              ))}
+              <span className="text-slate-400 text-xs flex items-center gap-1">
+                 <Calendar size={12} /> {item.timestamp.toLocaleDateString()}
+              </span>
+           </div>
+
+           {titleDraft !== null ? (
+             <input
+               autoFocus
+               value={titleDraft}
+               onChange={e => setTitleDraft(e.target.value)}
+               onBlur={commitTitle}
+               onKeyDown={e => {
+                 if (e.key === 'Enter') commitTitle();
+                 if (e.key === 'Escape') setTitleDraft(null);
+               }}
+               placeholder={item.result.summary.substring(0, 80)}
+               className="w-full mb-1 bg-black/30 border border-cyan-500/40 rounded-lg px-3 py-1 text-lg text-white focus:outline-none"
+             />
+           ) : (
+             <h3 className="text-white font-medium text-lg mb-1 flex items-center gap-2">
+               <span className="truncate">{getItemTitle(item)}</span>
+               <button onClick={() => setTitleDraft(item.title || '')} className="text-slate-600 hover:text-cyan-400 opacity-0 group-hover:opacity-100 transition-opacity flex-shrink-0" title="Rename">
+                 <Pencil size={14} />
+               </button>
+             </h3>
+           )}
+
+           {snippet && (
+             <p className="text-sm text-slate-400 mb-1">
+               <span className="text-[10px] font-bold text-cyan-400 uppercase tracking-widest mr-2">{snippet.field}</span>
+               {snippet.text}
+             </p>
+           )}
+           <div className="flex flex-wrap items-center gap-4 text-xs text-slate-500">
+              <span>Score: <span className="text-white">{item.result.score}</span></span>
+              <span>Risks: {item.result.risks?.length || 0}</span>
+              {progress.total > 0 && (
+                <span className="flex items-center gap-2" title={`${progress.percent}% of actions done`}>
+                  Actions: <span className="text-white">{progress.done}/{progress.total}</span>
+                  <span className="w-12 h-1 rounded-full bg-white/10 overflow-hidden">
+                    <span className="block h-full bg-emerald-500" style={{ width: `${progress.percent}%` }} />
+                  </span>
+                </span>
+              )}
+              <div className="flex flex-wrap items-center gap-1">
+                {item.tags.map(tag => (
+                  <span key={tag} className="flex items-center gap-1 px-2 py-0.5 rounded-full bg-white/5 border border-white/10 text-slate-300">
+                    <button onClick={() => onTagClick(tag)} className="hover:text-cyan-300" title="Filter by tag">#{tag}</button>
+                    <button onClick={() => onUpdate({ tags: item.tags.filter(t => t !== tag) })} className="text-slate-600 hover:text-red-400" title="Remove tag">
+                      <X size={10} />
+                    </button>
+                  </span>
+                ))}
+                {tagDraft !== null ? (
+                  <input
+                    autoFocus
+                    value={tagDraft}
+                    onChange={e => setTagDraft(e.target.value)}
+                    onBlur={commitTag}
+                    onKeyDown={e => {
+                      if (e.key === 'Enter') commitTag();
+                      if (e.key === 'Escape') setTagDraft(null);
+                    }}
+                    placeholder="tag"
+                    className="w-24 bg-black/30 border border-white/10 rounded-full px-2 py-0.5 text-slate-200 focus:outline-none focus:border-cyan-500/50"
+                  />
+                ) : (
+                  <button onClick={() => setTagDraft('')} className="flex items-center gap-0.5 px-2 py-0.5 rounded-full border border-dashed border-white/10 hover:text-cyan-400 hover:border-cyan-500/40 transition-colors">
+                    <Plus size={10} /> tag
+                  </button>
+                )}
+              </div>
+           </div>
+        </div>
+
+        {/* Actions */}
+        <div className="flex gap-3">
+            <button
+              onClick={() => onUpdate({ pinned: !item.pinned })}
+              className={`p-3 rounded-xl border transition-colors ${item.pinned ? 'bg-cyan-500/20 border-cyan-500/40 text-cyan-300' : 'bg-white/5 hover:bg-white/10 text-slate-300 hover:text-white border-white/10'}`}
+              title={item.pinned ? 'Unpin' : 'Pin to top'}
+            >
+               {item.pinned ? <PinOff size={20} /> : <Pin size={20} />}
+            </button>
+            <ProjectMenu
+              projects={projects}
+              projectIds={item.projectIds}
+              onChange={projectIds => onUpdate({ projectIds })}
+              onCreateProject={onCreateProject}
+            />
+            <button 
+              onClick={async () => generatePDFReport(item.result, item.images, item.lens, await renderChartImage(item.result))}
+              className="p-3 rounded-xl bg-white/5 hover:bg-white/10 text-slate-300 hover:text-white border border-white/10 transition-colors"
+              title="Download PDF"
+            >
+               <FileDown size={20} />
+            </button>
+            <button 
+              onClick={() => onSelect(item)}
+              className="p-3 rounded-xl bg-blue-600 hover:bg-blue-500 text-white shadow-lg shadow-blue-500/20 transition-all"
+              title="View Details"
+            >
+               <ArrowRight size={20} />
+            </button>
+            <button
+              onClick={onDelete}
+              className="p-3 rounded-xl bg-white/5 hover:bg-red-500/10 text-slate-400 hover:text-red-400 border border-white/10 transition-colors"
+              title="Move to trash"
+            >
+               <Trash2 size={20} />
+            </button>
+        </div>
+    </div>
+  );
+};
+
+export const HistoryView: React.FC<HistoryViewProps> = ({ history, projects, onSelect, onUpdateItem, onCreateProject, onDeleteItems }) => {
+  const [filters, setFilters] = useState<HistoryFilters>(() => filtersFromParams(new URLSearchParams(window.location.search)));
+  const [showFacets, setShowFacets] = useState(() => countActiveFilters(filters) > 0);
+  const [selectedIds, setSelectedIds] = useState<Set<string> | null>(null); // null = not in select mode
+
+  useEffect(() => writeFiltersToUrl(filters), [filters]);
+
+  const { items, categoryCounts, tagCounts } = useMemo(() => applyHistoryFilters(history, filters), [history, filters]);
+  const activeFilterCount = countActiveFilters(filters);
+  const updateFilters = (patch: Partial<HistoryFilters>) => setFilters(prev => ({ ...prev, ...patch }));
+  const toggleTag = (tag: string) => {
+    setFilters(prev => ({ ...prev, tags: prev.tags.includes(tag) ? prev.tags.filter(t => t !== tag) : [...prev.tags, tag] }));
+    setShowFacets(true);
+  };
+
+  const toggleSelected = (id: string) => setSelectedIds(prev => {
+    const next = new Set(prev);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    return next;
+  });
+
+  const deleteSelected = () => {
+    if (!selectedIds || selectedIds.size === 0) return;
+    onDeleteItems([...selectedIds]);
+    setSelectedIds(null);
+  };
+
   if (history.length === 0) {
     return (
       <div className="flex flex-col items-center justify-center h-[50vh] text-slate-500">
@@ -273,59 +572,96 @@ export const HistoryView: React.FC<HistoryViewProps> = ({ history, onSelect }) =
   }
 
   return (
-    <div className="grid grid-cols-1 gap-6 animate-in fade-in slide-in-from-bottom-8">
-       {history.map((item) => (
-         <div key={item.id} className="glass-panel p-6 rounded-2xl flex flex-col md:flex-row items-center gap-6 hover:bg-white/5 transition-colors group">
-             {/* Thumbnail */}
-             <div className="w-24 h-24 rounded-xl bg-slate-800 flex-shrink-0 overflow-hidden border border-white/10">
-                {item.image ? (
-                  <img src={item.image} alt="analysis" className="w-full h-full object-cover" />
-                ) : (
-                  <div className="w-full h-full flex items-center justify-center">
-                    <Activity className="text-slate-500" />
-                  </div>
-                )}
-             </div>
+    <div className="space-y-6 animate-in fade-in slide-in-from-bottom-8">
+       {/* Search & Sort */}
+       <div className="flex flex-col md:flex-row gap-3">
+          <div className="flex-1 glass-card rounded-xl flex items-center border border-white/5 px-4">
+             <Search size={18} className="text-slate-500" />
+             <input
+               type="search"
+               value={filters.query}
+               onChange={e => updateFilters({ query: e.target.value })}
+               placeholder="Search titles, tags, summaries, insights, actions, risks and chats..."
+               className="flex-1 bg-transparent border-none px-3 py-3 text-white focus:outline-none placeholder:text-slate-600"
+             />
+          </div>
+          <button
+            onClick={() => setShowFacets(!showFacets)}
+            className={`px-4 py-3 rounded-xl border text-sm flex items-center gap-2 transition-colors ${showFacets ? 'bg-cyan-500/10 border-cyan-500/40 text-cyan-300' : 'glass-card border-white/5 text-slate-300 hover:bg-white/5'}`}
+          >
+             <SlidersHorizontal size={16} /> Filters{activeFilterCount > 0 && ` (${activeFilterCount})`}
+          </button>
+          <select
+            value={filters.sort}
+            onChange={e => updateFilters({ sort: e.target.value as HistorySort })}
+            className="glass-card rounded-xl border border-white/5 px-4 py-3 text-sm text-slate-300 bg-transparent focus:outline-none"
+          >
+             {(Object.keys(HISTORY_SORT_LABELS) as HistorySort[]).map(sort => (
+               <option key={sort} value={sort} className="bg-slate-900">{HISTORY_SORT_LABELS[sort]}</option>
+             ))}
+          </select>
+          <button
+            onClick={() => setSelectedIds(selectedIds ? null : new Set())}
+            className={`px-4 py-3 rounded-xl border text-sm flex items-center gap-2 transition-colors ${selectedIds ? 'bg-cyan-500/10 border-cyan-500/40 text-cyan-300' : 'glass-card border-white/5 text-slate-300 hover:bg-white/5'}`}
+          >
+             <ListChecks size={16} /> Select
+          </button>
+       </div>
 
-             {/* Content */}
-             <div className="flex-1">
-                <div className="flex items-center gap-3 mb-2">
-                   <span className="px-3 py-1 rounded-full bg-cyan-500/20 text-cyan-400 text-xs font-bold border border-cyan-500/30">
-                     {item.result.category}
-                   </span>
-                   <span className="text-slate-400 text-xs flex items-center gap-1">
-                      <Calendar size={12} /> {item.timestamp.toLocaleDateString()}
-                   </span>
-                </div>
-                <h3 className="text-white font-medium text-lg mb-1">{item.result.summary.substring(0, 80)}...</h3>
-                <div className="flex gap-4 text-xs text-slate-500">
-                   <span>Score: <span className="text-white">{item.result.score}</span></span>
-                   <span>Risks: {item.result.risks?.length || 0}</span>
-                </div>
-             </div>
+       {selectedIds && (
+         <div className="flex items-center gap-3 px-4 py-3 rounded-xl border border-white/10 bg-slate-900/80 backdrop-blur-md text-sm animate-in fade-in slide-in-from-top-2">
+            <span className="text-slate-300">{selectedIds.size} selected</span>
+            <button onClick={() => setSelectedIds(new Set(items.map(item => item.id)))} className="text-cyan-400 hover:text-cyan-300">
+              Select all {items.length}
+            </button>
+            {selectedIds.size > 0 && (
+              <button onClick={() => setSelectedIds(new Set())} className="text-slate-400 hover:text-white">Clear</button>
+            )}
+            <button
+              onClick={deleteSelected}
+              disabled={selectedIds.size === 0}
+              className="ml-auto px-3 py-1.5 rounded-lg border border-red-500/30 text-red-400 hover:bg-red-500/10 disabled:opacity-40 flex items-center gap-2 transition-colors"
+            >
+              <Trash2 size={14} /> Move to Trash
+            </button>
+         </div>
+       )}
 
-             {/* Actions */}
-             <div className="flex gap-3">
-                 <button 
-                   onClick={() => {
-                     const images = item.images || (item.image ? [item.image] : []);
-                     generatePDFReport(item.result, images);
-                   }}
-                   className="p-3 rounded-xl bg-white/5 hover:bg-white/10 text-slate-300 hover:text-white border border-white/10 transition-colors"
-                   title="Download PDF"
-                 >
-                    <FileDown size={20} />
-                 </button>
-                 <button 
-                   onClick={() => onSelect(item)}
-                   className="p-3 rounded-xl bg-blue-600 hover:bg-blue-500 text-white shadow-lg shadow-blue-500/20 transition-all"
-                   title="View Details"
-                 >
-                    <ArrowRight size={20} />
-                 </button>
-             </div>
+       {showFacets && <FacetPanel filters={filters} categoryCounts={categoryCounts} tagCounts={tagCounts} onChange={updateFilters} />}
+
+       <div className="flex items-center justify-between text-xs text-slate-500">
+          <span>Showing {items.length} of {history.length} analyses</span>
+          {(activeFilterCount > 0 || filters.query) && (
+            <button onClick={() => setFilters({ ...DEFAULT_HISTORY_FILTERS, sort: filters.sort })} className="flex items-center gap-1 text-cyan-400 hover:text-cyan-300">
+              <X size={12} /> Clear filters
+            </button>
+          )}
+       </div>
+
+       {items.length === 0 && (
+         <div className="flex flex-col items-center justify-center py-16 text-slate-500">
+            <Search size={40} className="mb-4 opacity-50" />
+            <p>No analyses match these filters.</p>
          </div>
+       )}
+
+       <div className="grid grid-cols-1 gap-6">
+       {items.map(item => (
+         <HistoryCard
+           key={item.id}
+           item={item}
+           query={filters.query}
+           projects={projects}
+           onSelect={onSelect}
+           onUpdate={patch => onUpdateItem(item.id, patch)}
+           onCreateProject={onCreateProject}
+           onTagClick={toggleTag}
+           onDelete={() => onDeleteItems([item.id])}
+           isSelected={selectedIds ? selectedIds.has(item.id) : undefined}
+           onToggleSelected={() => toggleSelected(item.id)}
+         />
        ))}
+       </div>
     </div>
   );
 };
@@ -1,45 +1,160 @@
-import React, { useState, useRef } from 'react';
-import { Camera, Mic, Send, Upload, X, BrainCircuit, Plus, Image as ImageIcon, FileText, Trash2, Layers } from 'lucide-react';
-import { blobToBase64 } from '../utils/audioUtils';
-import { InputItem } from '../types';
+import React, { useState, useRef, useEffect } from 'react';
+import { Camera, Mic, Send, Upload, X, BrainCircuit, Plus, Image as ImageIcon, FileText, Trash2, Layers, FileSpreadsheet, Loader2, Check } from 'lucide-react';
+import { EncodedClip, blobToBase64, encodeRecording, pickRecorderMimeType } from '../utils/audioUtils';
+import { DOCUMENT_ACCEPT, extractDocument } from '../utils/documentUtils';
+import { isBrowserRenderable, prepareImageFile } from '../utils/imageUtils';
+import { AnalysisLens, InputItem } from '../types';
+import { getLenses } from '../services/lensStore';
+import LensPicker from './LensPicker';
+
+// Voice notes are capped so inline audio stays well under request size limits
+const MAX_RECORDING_SECONDS = 120;
+
+const formatDuration = (seconds: number) => {
+  const s = Math.max(0, Math.round(seconds));
+  return `${Math.floor(s / 60)}:${(s % 60).toString().padStart(2, '0')}`;
+};
+
+type PendingClip = EncodedClip & { url: string };
+
+// --- Sub-Component: Review a recording before it joins the stack ---
+const ClipPreview: React.FC<{ clip: PendingClip; onConfirm: () => void; onDiscard: () => void }> = ({ clip, onConfirm, onDiscard }) => (
+  <div className="glass-card rounded-2xl p-4 border border-purple-500/30 flex flex-col md:flex-row items-center gap-4 animate-in fade-in slide-in-from-bottom-4">
+    <div className="flex-1 w-full">
+      {clip.peaks.length > 0 && (
+        <svg viewBox={`0 0 ${clip.peaks.length * 4} 40`} className="w-full h-10 mb-2" preserveAspectRatio="none">
+          {clip.peaks.map((peak, i) => {
+            const h = Math.max(2, peak * 36);
+            return <rect key={i} x={i * 4} y={20 - h / 2} width="2.5" height={h} rx="1" fill="#c084fc" />;
+          })}
+        </svg>
+      )}
+      <audio src={clip.url} controls className="w-full h-8" />
+    </div>
+    <div className="flex items-center gap-2">
+      <span className="text-xs font-mono text-slate-400">{clip.durationSec > 0 ? formatDuration(clip.durationSec) : ''} {clip.mimeType}</span>
+      <button onClick={onDiscard} className="p-2 rounded-lg bg-white/5 hover:bg-red-500/20 text-slate-300 hover:text-red-400 transition-colors" title="Discard">
+        <Trash2 size={16} />
+      </button>
+      <button onClick={onConfirm} className="px-3 py-2 rounded-lg bg-purple-600 hover:bg-purple-500 text-white text-sm flex items-center gap-1 transition-colors">
+        <Check size={16} /> Add Voice Note
+      </button>
+    </div>
+  </div>
+);
 
 interface InputAreaProps {
-  onAnalyze: (inputs: InputItem[]) => void;
+  onAnalyze: (inputs: InputItem[], lens?: AnalysisLens) => void;
   isAnalyzing: boolean;
+  onCancel?: () => void;
+  stageLabel?: string; // Loader caption for the current pipeline stage
+  initialLensId?: string; // Keeps the previous run's lens selected
 }
 
-const InputArea: React.FC<InputAreaProps> = ({ onAnalyze, isAnalyzing }) => {
+const InputArea: React.FC<InputAreaProps> = ({ onAnalyze, isAnalyzing, onCancel, stageLabel, initialLensId }) => {
   const [inputs, setInputs] = useState<InputItem[]>([]);
+  const [lensId, setLensId] = useState<string | null>(initialLensId ?? null);
   const [isRecording, setIsRecording] = useState(false);
   const [textInput, setTextInput] = useState('');
+  const [isExtracting, setIsExtracting] = useState(false);
+  const [recordingSeconds, setRecordingSeconds] = useState(0);
+  const [isEncoding, setIsEncoding] = useState(false);
+  const [pendingClip, setPendingClip] = useState<PendingClip | null>(null);
   
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const audioChunksRef = useRef<Blob[]>([]);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const documentInputRef = useRef<HTMLInputElement>(null);
+  const timerRef = useRef<number | null>(null);
+
+  const clearTimer = () => {
+    if (timerRef.current !== null) {
+      window.clearInterval(timerRef.current);
+      timerRef.current = null;
+    }
+  };
+
+  // Release the microphone and timer if the component unmounts mid-recording
+  useEffect(() => () => {
+    clearTimer();
+    const recorder = mediaRecorderRef.current;
+    if (recorder && recorder.state !== 'inactive') {
+      recorder.onstop = null;
+      recorder.stop();
+      recorder.stream.getTracks().forEach(track => track.stop());
+    }
+  }, []);
+
+  useEffect(() => () => {
+    if (pendingClip) URL.revokeObjectURL(pendingClip.url);
+  }, [pendingClip]);
 
   // --- Handlers ---
 
-  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
-    if (file) {
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        const newItem: InputItem = {
-          id: Date.now().toString(),
-          type: 'image',
-          content: reader.result as string,
-          preview: reader.result as string
-        };
-        setInputs(prev => [...prev, newItem]);
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const image = await prepareImageFile(file);
+      const newItem: InputItem = {
+        id: Date.now().toString(),
+        type: 'image',
+        content: image.dataUrl,
+        mimeType: image.mimeType,
+        preview: isBrowserRenderable(image.mimeType) ? image.dataUrl : undefined,
+        fileName: file.name
+      };
+      setInputs(prev => [...prev, newItem]);
+    } catch (err) {
+      console.error("Error reading image:", err);
+      alert(`Could not read ${file.name}.`);
+    }
+  };
+
+  const handleDocumentChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow re-selecting the same file
+    if (!file) return;
+
+    setIsExtracting(true);
+    try {
+      const doc = await extractDocument(file);
+      const newItem: InputItem = {
+        id: Date.now().toString(),
+        type: 'document',
+        content: doc.text,
+        fileName: file.name,
+        documentKind: doc.kind,
+        documentSummary: doc.summary,
+        pageImages: doc.pageImages,
+        preview: doc.pageImages[0]
       };
-      reader.readAsDataURL(file);
+      setInputs(prev => [...prev, newItem]);
+    } catch (err) {
+      console.error("Error reading document:", err);
+      alert(`Could not read ${file.name}.`);
+    } finally {
+      setIsExtracting(false);
+    }
+  };
+
+  const stopVoiceRecording = () => {
+    const recorder = mediaRecorderRef.current;
+    if (recorder && recorder.state !== 'inactive') {
+      recorder.stop();
+      recorder.stream.getTracks().forEach(track => track.stop());
     }
+    clearTimer();
+    setIsRecording(false);
   };
 
   const startVoiceRecording = async () => {
     try {
       const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-      const mediaRecorder = new MediaRecorder(stream);
+      const mimeType = pickRecorderMimeType();
+      const mediaRecorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
       mediaRecorderRef.current = mediaRecorder;
       audioChunksRef.current = [];
 
@@ -48,31 +163,45 @@ const InputArea: React.FC<InputAreaProps> = ({ onAnalyze, isAnalyzing }) => {
       };
 
       mediaRecorder.onstop = async () => {
-        const audioBlob = new Blob(audioChunksRef.current, { type: 'audio/wav' });
-        const base64Audio = await blobToBase64(audioBlob);
-        
-        const newItem: InputItem = {
-          id: Date.now().toString(),
-          type: 'audio',
-          content: base64Audio
-        };
-        setInputs(prev => [...prev, newItem]);
+        // Label the blob with what the recorder actually produced
+        const recorded = new Blob(audioChunksRef.current, { type: mediaRecorder.mimeType || 'audio/webm' });
+        setIsEncoding(true);
+        try {
+          const clip = await encodeRecording(recorded);
+          setPendingClip({ ...clip, url: URL.createObjectURL(clip.blob) });
+        } finally {
+          setIsEncoding(false);
+        }
       };
 
       mediaRecorder.start();
       setIsRecording(true);
+      setRecordingSeconds(0);
+
+      const startedAt = Date.now();
+      timerRef.current = window.setInterval(() => {
+        const elapsed = (Date.now() - startedAt) / 1000;
+        setRecordingSeconds(elapsed);
+        if (elapsed >= MAX_RECORDING_SECONDS) stopVoiceRecording();
+      }, 250);
     } catch (err) {
       console.error("Error accessing microphone:", err);
       alert("Could not access microphone.");
     }
   };
 
-  const stopVoiceRecording = () => {
-    if (mediaRecorderRef.current && isRecording) {
-      mediaRecorderRef.current.stop();
-      setIsRecording(false);
-      mediaRecorderRef.current.stream.getTracks().forEach(track => track.stop());
-    }
+  const confirmClip = async () => {
+    if (!pendingClip) return;
+    const base64Audio = await blobToBase64(pendingClip.blob);
+    const newItem: InputItem = {
+      id: Date.now().toString(),
+      type: 'audio',
+      content: base64Audio,
+      mimeType: pendingClip.mimeType,
+      durationSec: pendingClip.durationSec
+    };
+    setInputs(prev => [...prev, newItem]);
+    setPendingClip(null);
   };
 
   const addTextNote = () => {
@@ -92,7 +221,7 @@ const InputArea: React.FC<InputAreaProps> = ({ onAnalyze, isAnalyzing }) => {
 
   const handleAnalyze = () => {
     if (inputs.length > 0) {
-      onAnalyze(inputs);
+      onAnalyze(inputs, getLenses().find(lens => lens.id === lensId));
     }
   };
 
@@ -107,7 +236,15 @@ const InputArea: React.FC<InputAreaProps> = ({ onAnalyze, isAnalyzing }) => {
           </div>
         </div>
         <h2 className="mt-8 text-2xl font-light tracking-widest text-white uppercase">Reality Merge Active</h2>
-        <p className="text-cyan-400 font-mono text-sm mt-2">Simulating Real-World Consequences...</p>
+        <p className="text-cyan-400 font-mono text-sm mt-2">{stageLabel || 'Simulating Real-World Consequences...'}</p>
+        {onCancel && (
+          <button
+            onClick={onCancel}
+            className="mt-8 px-6 py-2 rounded-xl border border-white/10 bg-white/5 hover:bg-red-500/20 hover:border-red-500/40 text-slate-300 hover:text-red-300 text-sm transition-colors"
+          >
+            Cancel
+          </button>
+        )}
       </div>
     );
   }
@@ -133,7 +270,7 @@ const InputArea: React.FC<InputAreaProps> = ({ onAnalyze, isAnalyzing }) => {
             <div key={item.id} className="relative group animate-in zoom-in duration-300">
               <div className="h-32 rounded-xl bg-slate-800/80 border border-white/10 overflow-hidden flex flex-col items-center justify-center p-2 relative">
                 
-                {item.type === 'image' && (
+                {item.preview && (
                   <img src={item.preview} className="absolute inset-0 w-full h-full object-cover opacity-60 group-hover:opacity-40 transition-opacity" alt="preview" />
                 )}
                 
@@ -141,11 +278,27 @@ const InputArea: React.FC<InputAreaProps> = ({ onAnalyze, isAnalyzing }) => {
                    {item.type === 'image' && <ImageIcon className="text-cyan-400" size={24} />}
                    {item.type === 'audio' && <Mic className="text-purple-400" size={24} />}
                    {item.type === 'text' && <FileText className="text-emerald-400" size={24} />}
+                   {item.type === 'document' && (
+                     item.documentKind === 'csv' || item.documentKind === 'tsv'
+                       ? <FileSpreadsheet className="text-amber-400" size={24} />
+                       : <FileText className="text-amber-400" size={24} />
+                   )}
                 </div>
                 
-                <span className="relative z-10 text-xs font-mono text-white mt-2 uppercase tracking-wider">
-                  {item.type} Input
-                </span>
+                {item.type === 'audio' && item.durationSec ? (
+                  <span className="relative z-10 text-xs font-mono text-white mt-2 uppercase tracking-wider">
+                    Voice • {formatDuration(item.durationSec)}
+                  </span>
+                ) : item.type === 'document' ? (
+                  <div className="relative z-10 mt-2 text-center w-full px-1">
+                    <span className="block text-xs font-mono text-white truncate" title={item.fileName}>{item.fileName}</span>
+                    <span className="block text-[10px] text-slate-400 uppercase tracking-wider">{item.documentKind} • {item.documentSummary}</span>
+                  </div>
+                ) : (
+                  <span className="relative z-10 text-xs font-mono text-white mt-2 uppercase tracking-wider">
+                    {item.type} Input
+                  </span>
+                )}
                 
                 {/* Remove Button */}
                 <button 
@@ -161,12 +314,22 @@ const InputArea: React.FC<InputAreaProps> = ({ onAnalyze, isAnalyzing }) => {
           {/* ADD NEW CARD */}
           <div className="h-32 border-2 border-dashed border-slate-700 rounded-xl flex items-center justify-center hover:border-cyan-500/50 hover:bg-cyan-500/5 transition-all group">
              <div className="text-center">
-               <span className="block text-slate-500 text-sm group-hover:text-cyan-400">Add to Stack</span>
+               {isExtracting ? (
+                 <span className="flex items-center gap-2 text-amber-400 text-sm"><Loader2 size={16} className="animate-spin" /> Reading document...</span>
+               ) : (
+                 <span className="block text-slate-500 text-sm group-hover:text-cyan-400">Add to Stack</span>
+               )}
              </div>
           </div>
         </div>
       </div>
 
+      {pendingClip && (
+        <ClipPreview clip={pendingClip} onConfirm={confirmClip} onDiscard={() => setPendingClip(null)} />
+      )}
+
+      <LensPicker selectedId={lensId} onSelect={setLensId} />
+
       {/* 2. CONTROL BAR */}
       <div className="flex flex-col md:flex-row gap-4">
         
@@ -181,12 +344,29 @@ const InputArea: React.FC<InputAreaProps> = ({ onAnalyze, isAnalyzing }) => {
            </button>
            <input type="file" ref={fileInputRef} className="hidden" accept="image/*" onChange={handleFileChange} />
 
+           <button 
+             onClick={() => documentInputRef.current?.click()}
+             disabled={isExtracting}
+             className="flex-1 px-4 py-3 glass-card rounded-xl flex flex-col items-center justify-center gap-1 hover:bg-white/5 border border-white/5 active:scale-95 transition-all disabled:opacity-50"
+           >
+             <FileText className="text-amber-400" size={20} />
+             <span className="text-xs text-slate-300">Document</span>
+           </button>
+           <input type="file" ref={documentInputRef} className="hidden" accept={DOCUMENT_ACCEPT} onChange={handleDocumentChange} />
+
            <button 
              onClick={isRecording ? stopVoiceRecording : startVoiceRecording}
-             className={`flex-1 px-4 py-3 glass-card rounded-xl flex flex-col items-center justify-center gap-1 border border-white/5 active:scale-95 transition-all ${isRecording ? 'bg-red-500/20 border-red-500/50' : 'hover:bg-white/5'}`}
+             disabled={isEncoding || !!pendingClip}
+             className={`flex-1 px-4 py-3 glass-card rounded-xl flex flex-col items-center justify-center gap-1 border border-white/5 active:scale-95 transition-all disabled:opacity-50 ${isRecording ? 'bg-red-500/20 border-red-500/50' : 'hover:bg-white/5'}`}
            >
-             <Mic className={isRecording ? "text-red-400 animate-pulse" : "text-purple-400"} size={20} />
-             <span className="text-xs text-slate-300">{isRecording ? 'Stop' : 'Voice'}</span>
+             {isEncoding ? (
+               <Loader2 className="text-purple-400 animate-spin" size={20} />
+             ) : (
+               <Mic className={isRecording ? "text-red-400 animate-pulse" : "text-purple-400"} size={20} />
+             )}
+             <span className="text-xs text-slate-300 font-mono">
+               {isRecording ? `${formatDuration(recordingSeconds)} / ${formatDuration(MAX_RECORDING_SECONDS)}` : 'Voice'}
+             </span>
            </button>
         </div>
 
@@ -212,7 +392,7 @@ const InputArea: React.FC<InputAreaProps> = ({ onAnalyze, isAnalyzing }) => {
         {/* MAIN ANALYZE ACTION */}
         <button 
           onClick={handleAnalyze}
-          disabled={inputs.length === 0}
+          disabled={inputs.length === 0 || isExtracting}
           className="px-8 py-3 bg-gradient-to-r from-cyan-600 to-blue-600 rounded-xl font-bold text-white shadow-lg shadow-cyan-500/20 hover:shadow-cyan-500/40 hover:scale-105 transition-all disabled:opacity-50 disabled:grayscale disabled:pointer-events-none flex items-center gap-2 whitespace-nowrap"
         >
           <BrainCircuit size={20} />
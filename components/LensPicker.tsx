@@ -0,0 +1,168 @@
+import React, { useState } from 'react';
+import { Aperture, Plus, Pencil, Trash2, X, Check } from 'lucide-react';
+import { AnalysisCategory, AnalysisLens, LensMetric } from '../types';
+import { LENS_TEMPLATES, deleteLens, saveLens, useLenses } from '../services/lensStore';
+
+interface LensPickerProps {
+  selectedId: string | null;
+  onSelect: (id: string | null) => void;
+}
+
+const emptyLens = (): AnalysisLens => ({ id: Date.now().toString(), name: '', instruction: '', metrics: [] });
+
+// --- Sub-Component: Create or edit a lens ---
+interface LensEditorProps {
+  initial: AnalysisLens;
+  isNew: boolean;
+  onSaved: (lens: AnalysisLens) => void;
+  onDeleted: () => void;
+  onCancel: () => void;
+}
+
+const LensEditor: React.FC<LensEditorProps> = ({ initial, isNew, onSaved, onDeleted, onCancel }) => {
+  const [draft, setDraft] = useState<AnalysisLens>(initial);
+  const [error, setError] = useState<string | null>(null);
+
+  const update = (patch: Partial<AnalysisLens>) => setDraft(prev => ({ ...prev, ...patch }));
+  const updateMetric = (index: number, patch: Partial<LensMetric>) =>
+    update({ metrics: draft.metrics.map((metric, i) => i === index ? { ...metric, ...patch } : metric) });
+
+  const handleSave = () => {
+    try {
+      saveLens(draft);
+      onSaved(draft);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  const handleDelete = () => {
+    if (!confirm(`Delete the "${initial.name}" lens? Past analyses keep their copy.`)) return;
+    deleteLens(initial.id);
+    onDeleted();
+  };
+
+  const inputClass = "w-full bg-black/30 border border-white/10 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-cyan-500/50";
+
+  return (
+    <div className="glass-card rounded-2xl p-5 border border-cyan-500/30 space-y-4 animate-in fade-in slide-in-from-top-2">
+      {isNew && (
+        <div className="flex flex-wrap items-center gap-2 text-xs text-slate-500">
+          Start from:
+          {LENS_TEMPLATES.map(template => (
+            <button
+              key={template.name}
+              onClick={() => setDraft({ ...template, id: draft.id, metrics: template.metrics.map(m => ({ ...m })) })}
+              className="px-2 py-1 rounded-full border border-white/10 text-slate-300 hover:border-cyan-500/40 transition-colors"
+            >
+              {template.name}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <input value={draft.name} onChange={e => update({ name: e.target.value })} placeholder="Lens name, e.g. Landlord Inspection" className={inputClass} />
+        <select
+          value={draft.category || ''}
+          onChange={e => update({ category: (e.target.value || undefined) as AnalysisCategory | undefined })}
+          className={inputClass}
+        >
+          <option value="">Auto-detect category</option>
+          {Object.values(AnalysisCategory).map(category => <option key={category} value={category}>Always {category}</option>)}
+        </select>
+      </div>
+
+      <textarea
+        value={draft.instruction}
+        onChange={e => update({ instruction: e.target.value })}
+        placeholder="Instructions added to the prompt, e.g. 'Analyze as a landlord move-out inspection...'"
+        rows={3}
+        className={inputClass}
+      />
+
+      <div className="space-y-2">
+        <span className="text-xs text-slate-400 uppercase tracking-wider">Metrics to always extract</span>
+        {draft.metrics.map((metric, i) => (
+          <div key={i} className="flex gap-2">
+            <input value={metric.label} onChange={e => updateMetric(i, { label: e.target.value })} placeholder="Label" className={inputClass} />
+            <input value={metric.unit || ''} onChange={e => updateMetric(i, { unit: e.target.value })} placeholder="Unit" className={`${inputClass} max-w-[8rem]`} />
+            <button onClick={() => update({ metrics: draft.metrics.filter((_, j) => j !== i) })} className="p-2 text-slate-500 hover:text-red-400 transition-colors" title="Remove metric">
+              <X size={16} />
+            </button>
+          </div>
+        ))}
+        <button onClick={() => update({ metrics: [...draft.metrics, { label: '' }] })} className="text-xs text-cyan-400 hover:text-cyan-300 flex items-center gap-1">
+          <Plus size={12} /> Add metric
+        </button>
+      </div>
+
+      <textarea
+        value={draft.rubric || ''}
+        onChange={e => update({ rubric: e.target.value })}
+        placeholder="Optional scoring rubric, e.g. '100 = fully compliant; subtract 10 per violation'"
+        rows={2}
+        className={inputClass}
+      />
+
+      {error && <p className="text-xs text-red-400">{error}</p>}
+
+      <div className="flex gap-2">
+        <button onClick={handleSave} className="px-4 py-2 rounded-lg bg-cyan-600 hover:bg-cyan-500 text-white text-sm flex items-center gap-1 transition-colors">
+          <Check size={14} /> Save Lens
+        </button>
+        <button onClick={onCancel} className="px-4 py-2 rounded-lg text-slate-400 hover:text-white text-sm transition-colors">Cancel</button>
+        {!isNew && (
+          <button onClick={handleDelete} className="ml-auto px-3 py-2 rounded-lg text-red-400 hover:bg-red-500/10 text-sm flex items-center gap-1 transition-colors">
+            <Trash2 size={14} /> Delete
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+// Chooses the saved lens for the next analysis; "No lens" runs the standard prompt.
+const LensPicker: React.FC<LensPickerProps> = ({ selectedId, onSelect }) => {
+  const lenses = useLenses();
+  const [editing, setEditing] = useState<{ lens: AnalysisLens, isNew: boolean } | null>(null);
+  const selected = lenses.find(lens => lens.id === selectedId);
+
+  const chipClass = (active: boolean) =>
+    `px-3 py-1.5 rounded-full text-xs border transition-colors ${active ? 'bg-cyan-500/20 border-cyan-500/50 text-cyan-300' : 'border-white/10 text-slate-400 hover:text-white hover:border-white/20'}`;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="flex items-center gap-1 text-xs text-slate-500 uppercase tracking-wider mr-1"><Aperture size={14} /> Lens</span>
+        <button onClick={() => onSelect(null)} className={chipClass(!selected)}>No lens</button>
+        {lenses.map(lens => (
+          <button key={lens.id} onClick={() => onSelect(lens.id)} className={chipClass(lens.id === selectedId)} title={lens.instruction}>
+            {lens.name}{lens.category && <span className="ml-1 opacity-60">· {lens.category}</span>}
+          </button>
+        ))}
+        {selected && (
+          <button onClick={() => setEditing({ lens: selected, isNew: false })} className="p-1.5 text-slate-500 hover:text-cyan-400 transition-colors" title="Edit lens">
+            <Pencil size={14} />
+          </button>
+        )}
+        <button onClick={() => setEditing({ lens: emptyLens(), isNew: true })} className="px-3 py-1.5 rounded-full text-xs border border-dashed border-white/20 text-slate-400 hover:text-cyan-400 hover:border-cyan-500/40 flex items-center gap-1 transition-colors">
+          <Plus size={12} /> New lens
+        </button>
+      </div>
+
+      {editing && (
+        <LensEditor
+          key={editing.lens.id}
+          initial={editing.lens}
+          isNew={editing.isNew}
+          onSaved={lens => { onSelect(lens.id); setEditing(null); }}
+          onDeleted={() => { onSelect(null); setEditing(null); }}
+          onCancel={() => setEditing(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default LensPicker;
@@ -0,0 +1,95 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { FolderInput, FolderPlus, Check, X } from 'lucide-react';
+import { Project } from '../types';
+
+interface ProjectMenuProps {
+  projects: Project[];
+  projectIds: string[]; // The item's current memberships
+  onChange: (projectIds: string[]) => void;
+  onCreateProject: (name: string) => Project;
+  currentProjectId?: string; // On a project page, "Move" takes the item out of this one
+}
+
+// Files an item: "Add" copies it into another project (it then appears in both),
+// "Move" replaces the source project — or, outside a project page, every membership.
+const ProjectMenu: React.FC<ProjectMenuProps> = ({ projects, projectIds, onChange, onCreateProject, currentProjectId }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [newName, setNewName] = useState('');
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  const moveTo = (id: string) => {
+    const kept = currentProjectId ? projectIds.filter(existing => existing !== currentProjectId && existing !== id) : [];
+    onChange([...kept, id]);
+    setIsOpen(false);
+  };
+  const add = (id: string) => onChange([...projectIds, id]);
+  const remove = (id: string) => onChange(projectIds.filter(existing => existing !== id));
+
+  const handleCreate = () => {
+    if (!newName.trim()) return;
+    const project = onCreateProject(newName);
+    setNewName('');
+    add(project.id);
+  };
+
+  const actionClass = "px-2 py-0.5 rounded text-[11px] text-slate-400 hover:text-white hover:bg-white/10 transition-colors";
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="p-3 rounded-xl bg-white/5 hover:bg-white/10 text-slate-300 hover:text-white border border-white/10 transition-colors"
+        title="Move or copy to project"
+      >
+        <FolderInput size={20} />
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-2 w-72 z-30 bg-slate-900/95 backdrop-blur-md border border-white/10 rounded-xl shadow-xl p-2 animate-in fade-in slide-in-from-top-2">
+          {projects.length === 0 && <p className="px-2 py-2 text-xs text-slate-500">No projects yet.</p>}
+          {projects.map(project => {
+            const isMember = projectIds.includes(project.id);
+            return (
+              <div key={project.id} className="flex items-center gap-2 px-2 py-1.5 rounded-lg hover:bg-white/5">
+                <span className={`flex-1 truncate text-sm ${isMember ? 'text-cyan-300' : 'text-slate-300'}`}>
+                  {isMember && <Check size={12} className="inline mr-1" />}{project.name}
+                </span>
+                {isMember ? (
+                  <button onClick={() => remove(project.id)} className={actionClass} title="Remove from project"><X size={12} /></button>
+                ) : (
+                  <>
+                    <button onClick={() => add(project.id)} className={actionClass} title="Copy: keep existing projects">Add</button>
+                    <button onClick={() => moveTo(project.id)} className={actionClass} title="Move: leave the current project">Move</button>
+                  </>
+                )}
+              </div>
+            );
+          })}
+          <div className="flex items-center gap-2 mt-2 pt-2 border-t border-white/10">
+            <input
+              value={newName}
+              onChange={e => setNewName(e.target.value)}
+              onKeyDown={e => e.key === 'Enter' && handleCreate()}
+              placeholder="New project"
+              className="flex-1 bg-black/30 border border-white/10 rounded-lg px-2 py-1 text-sm text-white focus:outline-none focus:border-cyan-500/50"
+            />
+            <button onClick={handleCreate} disabled={!newName.trim()} className="p-1.5 text-cyan-400 hover:text-cyan-300 disabled:opacity-40" title="Create and add">
+              <FolderPlus size={16} />
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProjectMenu;
@@ -0,0 +1,261 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { HistoryItem, Project } from '../types';
+import { HistoryItemPatch } from '../services/historyStore';
+import { buildProjectTrend, getItemTitle, getProjectItems, mergeKnowledgeGraphs, summarizeProject } from '../utils/projects';
+import { TOOLTIP_STYLE, formatDate, renderDot, timeAxisProps } from '../utils/chartTheme';
+import { replaceSearchParams } from '../utils/urlState';
+import { FullScreenGraph } from './HistoryView';
+import ProjectMenu from './ProjectMenu';
+import { ResponsiveContainer, LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend } from 'recharts';
+import { ArrowLeft, ArrowRight, Calendar, Folder, FolderPlus, Globe, Pencil, Pin, Trash2 } from 'lucide-react';
+
+interface ProjectsViewProps {
+  history: HistoryItem[];
+  projects: Project[];
+  onSelect: (item: HistoryItem) => void;
+  onUpdateItem: (id: string, patch: HistoryItemPatch) => void;
+  onCreateProject: (name: string) => Project;
+  onRenameProject: (id: string, name: string) => void;
+  onDeleteProject: (id: string) => void;
+}
+
+// The open project lives in ?project= so a project page can be bookmarked
+const writeProjectToUrl = (projectId: string | null) => {
+  const params = new URLSearchParams(window.location.search);
+  if (projectId) params.set('project', projectId);
+  else params.delete('project');
+  replaceSearchParams(params);
+};
+
+// --- Sub-Component: Inline-editable project name ---
+const ProjectName: React.FC<{ name: string, onRename: (name: string) => void, className: string }> = ({ name, onRename, className }) => {
+  const [draft, setDraft] = useState<string | null>(null);
+
+  const commit = () => {
+    if (draft?.trim() && draft.trim() !== name) onRename(draft.trim());
+    setDraft(null);
+  };
+
+  if (draft !== null) {
+    return (
+      <input
+        autoFocus
+        value={draft}
+        onChange={e => setDraft(e.target.value)}
+        onBlur={commit}
+        onKeyDown={e => {
+          if (e.key === 'Enter') commit();
+          if (e.key === 'Escape') setDraft(null);
+        }}
+        onClick={e => e.stopPropagation()}
+        className="bg-black/30 border border-cyan-500/40 rounded-lg px-2 py-1 text-white focus:outline-none"
+      />
+    );
+  }
+
+  return (
+    <span className={`flex items-center gap-2 ${className}`}>
+      <span className="truncate">{name}</span>
+      <button onClick={e => { e.stopPropagation(); setDraft(name); }} className="text-slate-600 hover:text-cyan-400 transition-colors flex-shrink-0" title="Rename">
+        <Pencil size={14} />
+      </button>
+    </span>
+  );
+};
+
+// --- Sub-Component: One project's page ---
+interface ProjectDetailProps extends ProjectsViewProps {
+  project: Project;
+  onBack: () => void;
+}
+
+const ProjectDetail: React.FC<ProjectDetailProps> = ({ project, projects, history, onSelect, onUpdateItem, onCreateProject, onRenameProject, onBack }) => {
+  const items = useMemo(() => getProjectItems(history, project.id), [history, project.id]);
+  const summary = summarizeProject(items);
+  const trend = useMemo(() => buildProjectTrend(items), [items]);
+  const graph = useMemo(() => mergeKnowledgeGraphs(items), [items]);
+
+  const openHistoryItem = (historyId: string) => {
+    const item = items.find(h => h.id === historyId);
+    if (item) onSelect(item);
+  };
+
+  return (
+    <div className="space-y-6 animate-in fade-in slide-in-from-bottom-8">
+      <div className="flex items-center gap-4">
+        <button onClick={onBack} className="p-2 rounded-lg bg-white/5 hover:bg-white/10 text-slate-300 transition-colors" title="All projects">
+          <ArrowLeft size={18} />
+        </button>
+        <ProjectName name={project.name} onRename={name => onRenameProject(project.id, name)} className="text-2xl font-light text-white" />
+      </div>
+
+      <div className="grid grid-cols-3 gap-4">
+        {[
+          { label: 'Analyses', value: summary.count },
+          { label: 'Average Score', value: summary.averageScore ?? '—' },
+          { label: 'Last Activity', value: summary.lastActivity ? summary.lastActivity.toLocaleDateString() : '—' }
+        ].map(stat => (
+          <div key={stat.label} className="glass-panel rounded-2xl p-4">
+            <span className="block text-[10px] text-slate-500 uppercase tracking-widest mb-1">{stat.label}</span>
+            <span className="text-xl font-mono text-white">{stat.value}</span>
+          </div>
+        ))}
+      </div>
+
+      {items.length === 0 ? (
+        <div className="flex flex-col items-center justify-center py-16 text-slate-500">
+          <Folder size={40} className="mb-4 opacity-50" />
+          <p>This project is empty.</p>
+          <p className="text-sm">Use the folder button on a history item to add it here.</p>
+        </div>
+      ) : (
+        <>
+          {/* Aggregated Score Trend */}
+          <div className="glass-panel rounded-2xl p-6">
+            <h3 className="text-xs font-bold text-slate-500 uppercase tracking-widest mb-6">Score Trend</h3>
+            <ResponsiveContainer width="100%" height={260}>
+              <LineChart data={trend}>
+                <CartesianGrid stroke="rgba(255,255,255,0.05)" vertical={false} />
+                <XAxis {...timeAxisProps} />
+                <YAxis stroke="#64748b" fontSize={11} tickLine={false} width={40} domain={[0, 100]} />
+                <Tooltip {...TOOLTIP_STYLE} labelFormatter={label => formatDate(Number(label))} />
+                <Legend wrapperStyle={{ fontSize: 12 }} />
+                <Line dataKey="value" name="Score" stroke="#06b6d4" strokeWidth={2} dot={renderDot('#06b6d4', openHistoryItem)} activeDot={false} isAnimationActive={false} />
+                <Line dataKey="average" name="Running average" stroke="#f59e0b" strokeWidth={2} strokeDasharray="4 4" dot={false} isAnimationActive={false} />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+
+          {/* Combined Knowledge Graph */}
+          {graph.nodes.length > 0 && (
+            <div className="w-full h-[60vh] glass-card rounded-3xl p-4 overflow-hidden relative border border-cyan-500/30">
+              <div className="absolute top-6 left-6 z-10 pointer-events-none">
+                <h3 className="text-lg font-bold text-white mb-1 flex items-center gap-2"><Globe size={18} /> COMBINED GRAPH</h3>
+                <p className="text-cyan-400 text-xs font-mono">{graph.nodes.length} concepts across {items.length} analyses</p>
+              </div>
+              <FullScreenGraph nodes={graph.nodes} edges={graph.edges} />
+            </div>
+          )}
+
+          {/* Items */}
+          <div className="space-y-3">
+            {items.map(item => (
+              <div key={item.id} className="glass-panel p-4 rounded-2xl flex items-center gap-4 hover:bg-white/5 transition-colors">
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-3 mb-1 text-xs">
+                    <span className="px-2 py-0.5 rounded-full bg-cyan-500/20 text-cyan-400 font-bold border border-cyan-500/30">{item.result.category}</span>
+                    <span className="text-slate-400 flex items-center gap-1"><Calendar size={12} /> {item.timestamp.toLocaleDateString()}</span>
+                    {item.pinned && <Pin size={12} className="text-cyan-400" />}
+                  </div>
+                  <h4 className="text-white truncate">{getItemTitle(item)}</h4>
+                </div>
+                <span className="font-mono text-white text-lg">{item.result.score}</span>
+                <ProjectMenu
+                  projects={projects}
+                  projectIds={item.projectIds}
+                  onChange={projectIds => onUpdateItem(item.id, { projectIds })}
+                  onCreateProject={onCreateProject}
+                  currentProjectId={project.id}
+                />
+                <button
+                  onClick={() => onSelect(item)}
+                  className="p-3 rounded-xl bg-blue-600 hover:bg-blue-500 text-white shadow-lg shadow-blue-500/20 transition-all"
+                  title="View Details"
+                >
+                  <ArrowRight size={20} />
+                </button>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+const ProjectsView: React.FC<ProjectsViewProps> = props => {
+  const { history, projects, onCreateProject, onRenameProject, onDeleteProject } = props;
+  const [activeProjectId, setActiveProjectId] = useState<string | null>(() => new URLSearchParams(window.location.search).get('project'));
+  const [newName, setNewName] = useState('');
+
+  useEffect(() => writeProjectToUrl(activeProjectId), [activeProjectId]);
+
+  const activeProject = projects.find(project => project.id === activeProjectId);
+  if (activeProject) {
+    return <ProjectDetail {...props} project={activeProject} onBack={() => setActiveProjectId(null)} />;
+  }
+
+  const handleCreate = () => {
+    if (!newName.trim()) return;
+    onCreateProject(newName);
+    setNewName('');
+  };
+
+  const handleDelete = (project: Project, count: number) => {
+    if (!confirm(`Delete the "${project.name}" project? Its ${count} analyses stay in history.`)) return;
+    onDeleteProject(project.id);
+  };
+
+  return (
+    <div className="space-y-6 animate-in fade-in slide-in-from-bottom-8">
+      <div className="flex gap-3">
+        <input
+          value={newName}
+          onChange={e => setNewName(e.target.value)}
+          onKeyDown={e => e.key === 'Enter' && handleCreate()}
+          placeholder="New project, e.g. Apartment move"
+          className="flex-1 glass-card rounded-xl border border-white/5 px-4 py-3 text-white bg-transparent focus:outline-none placeholder:text-slate-600"
+        />
+        <button
+          onClick={handleCreate}
+          disabled={!newName.trim()}
+          className="px-4 py-3 rounded-xl bg-cyan-600 hover:bg-cyan-500 disabled:opacity-40 text-white text-sm flex items-center gap-2 transition-colors"
+        >
+          <FolderPlus size={16} /> Create
+        </button>
+      </div>
+
+      {projects.length === 0 ? (
+        <div className="flex flex-col items-center justify-center h-[40vh] text-slate-500">
+          <Folder size={48} className="mb-4 opacity-50" />
+          <p className="text-xl">No Projects Yet</p>
+          <p className="text-sm">Group related analyses, e.g. "Apartment move" or "Q3 budget".</p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6">
+          {projects.map(project => {
+            const summary = summarizeProject(getProjectItems(history, project.id));
+            return (
+              <div
+                key={project.id}
+                onClick={() => setActiveProjectId(project.id)}
+                className="glass-panel rounded-2xl p-6 cursor-pointer hover:bg-white/5 hover:border-cyan-500/30 border border-transparent transition-colors group"
+              >
+                <div className="flex items-start justify-between gap-3 mb-4">
+                  <div className="flex items-center gap-3 min-w-0">
+                    <Folder size={20} className="text-cyan-400 flex-shrink-0" />
+                    <ProjectName name={project.name} onRename={name => onRenameProject(project.id, name)} className="text-white font-medium min-w-0" />
+                  </div>
+                  <button
+                    onClick={e => { e.stopPropagation(); handleDelete(project, summary.count); }}
+                    className="text-slate-600 hover:text-red-400 opacity-0 group-hover:opacity-100 transition-opacity"
+                    title="Delete project"
+                  >
+                    <Trash2 size={16} />
+                  </button>
+                </div>
+                <div className="flex gap-4 text-xs text-slate-500">
+                  <span>{summary.count} analyses</span>
+                  <span>Avg score: <span className="text-white">{summary.averageScore ?? '—'}</span></span>
+                  {summary.lastActivity && <span className="flex items-center gap-1"><Calendar size={12} /> {summary.lastActivity.toLocaleDateString()}</span>}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProjectsView;
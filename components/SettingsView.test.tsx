@@ -0,0 +1,137 @@
+import React, { act } from 'react';
+import { createRoot, Root } from 'react-dom/client';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import SettingsView from './SettingsView';
+import { StorageError, changeVaultPassphrase, disableVault } from '../services/historyStore';
+import { buildArchive } from '../services/historyArchive';
+import { getSettings, updateSettings } from '../services/settingsStore';
+import { AnalysisCategory, HistoryItem, Project } from '../types';
+
+vi.mock('../services/historyStore', async importOriginal => ({
+  ...await importOriginal<typeof import('../services/historyStore')>(),
+  enableVault: vi.fn(() => Promise.resolve()),
+  changeVaultPassphrase: vi.fn(() => Promise.resolve()),
+  disableVault: vi.fn(() => Promise.resolve())
+}));
+
+vi.mock('../services/vault', async importOriginal => ({
+  ...await importOriginal<typeof import('../services/vault')>(),
+  isVaultEnabled: () => true
+}));
+
+(globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }).IS_REACT_ACT_ENVIRONMENT = true;
+
+const HISTORY: HistoryItem[] = [{
+  id: 'h1',
+  timestamp: new Date('2025-03-01T10:00:00Z'),
+  result: {
+    category: AnalysisCategory.GENERAL, summary: 'Summary', score: 50, metrics: [], insights: [],
+    actionPlan: [], risks: [], opportunities: [], consequences: []
+  },
+  images: [],
+  chatHistory: [],
+  tags: [],
+  pinned: false,
+  projectIds: [],
+  actions: []
+}];
+
+const PROJECTS: Project[] = [{ id: 'p1', name: 'Move', createdAt: 1 }];
+
+// The last match: the open vault form repeats its action's label on the submit button
+const clickButton = async (label: string) => {
+  const button = [...document.querySelectorAll('button')].filter(el => el.textContent?.trim() === label).pop();
+  if (!button) throw new Error(`No "${label}" button`);
+  await act(async () => button.click());
+};
+
+// jsdom's File has no text(); the view reads nothing else from it
+const chooseArchive = async (contents: string) => {
+  const input = document.querySelector<HTMLInputElement>('input[type="file"]')!;
+  Object.defineProperty(input, 'files', { value: [{ name: 'backup.json', text: () => Promise.resolve(contents) }], configurable: true });
+  await act(async () => {
+    input.dispatchEvent(new Event('change', { bubbles: true }));
+  });
+};
+
+const typeInto = async (placeholder: string, value: string) => {
+  const input = document.querySelector<HTMLInputElement>(`input[placeholder^="${placeholder}"]`);
+  if (!input) throw new Error(`No "${placeholder}" input`);
+  await act(async () => {
+    Object.getOwnPropertyDescriptor(HTMLInputElement.prototype, 'value')!.set!.call(input, value);
+    input.dispatchEvent(new Event('input', { bubbles: true }));
+  });
+};
+
+describe('vault actions in session-only mode', () => {
+  let root: Root;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    updateSettings({ localStorageEnabled: false });
+    const host = document.createElement('div');
+    document.body.appendChild(host);
+    root = createRoot(host);
+    await act(async () => root.render(<SettingsView history={HISTORY} projects={PROJECTS} />));
+  });
+
+  afterEach(() => {
+    act(() => root.unmount());
+    document.body.innerHTML = '';
+    updateSettings({ localStorageEnabled: true });
+  });
+
+  it('re-keys without writing the session history to the device', async () => {
+    await clickButton('Change Passphrase');
+    await typeInto('Current passphrase', 'correct horse battery');
+    await typeInto('New passphrase', 'staple battery horse');
+    await typeInto('Confirm new passphrase', 'staple battery horse');
+    await clickButton('Change Passphrase');
+
+    expect(changeVaultPassphrase).toHaveBeenCalledWith([], [], 'correct horse battery', 'staple battery horse');
+  });
+
+  it('disables without writing the session history to the device', async () => {
+    await clickButton('Disable Vault');
+    await typeInto('Current passphrase', 'correct horse battery');
+    await clickButton('Decrypt & Disable');
+
+    expect(disableVault).toHaveBeenCalledWith([], [], 'correct horse battery');
+  });
+});
+
+describe('replacing history from an archive', () => {
+  let root: Root;
+  const onImportHistory = vi.fn(() => Promise.resolve());
+
+  beforeEach(async () => {
+    updateSettings({ localStorageEnabled: true, trashRetentionDays: 30 });
+    const host = document.createElement('div');
+    document.body.appendChild(host);
+    root = createRoot(host);
+    await act(async () => root.render(<SettingsView history={[]} projects={[]} onImportHistory={onImportHistory} />));
+  });
+
+  afterEach(() => {
+    act(() => root.unmount());
+    document.body.innerHTML = '';
+  });
+
+  it("applies the archive's settings but keeps storing the imported history", async () => {
+    const archive = { ...buildArchive(HISTORY, PROJECTS), settings: { ...getSettings(), localStorageEnabled: false, trashRetentionDays: 7 } };
+    await chooseArchive(JSON.stringify(archive));
+    await clickButton('Replace');
+
+    expect(onImportHistory).toHaveBeenCalledWith([expect.objectContaining({ id: 'h1' })], PROJECTS, 'replace');
+    expect(getSettings()).toMatchObject({ localStorageEnabled: true, trashRetentionDays: 7 });
+    expect(document.body.textContent).toContain('Imported 1 analyses (replace).');
+  });
+
+  it('reports why a failed import was not stored', async () => {
+    onImportHistory.mockRejectedValueOnce(new StorageError('quota'));
+    await chooseArchive(JSON.stringify(buildArchive(HISTORY, PROJECTS)));
+    await clickButton('Merge');
+
+    expect(document.body.textContent).toContain(new StorageError('quota').userMessage);
+  });
+});
@@ -1,62 +1,291 @@
-import React, { useState, useEffect } from 'react';
-import { User, Shield, Key, Bell, ToggleLeft, ToggleRight, Trash2, Check, AlertCircle } from 'lucide-react';
+import React, { useState, useRef, useEffect } from 'react';
+import { User, Shield, Key, Bell, ToggleLeft, ToggleRight, Trash2, Check, AlertCircle, Archive, Download, Upload, Lock, Loader2, Cpu } from 'lucide-react';
+import { AnalysisCategory, HistoryItem, Project } from '../types';
+import { ParsedArchive, downloadArchive, parseArchive } from '../services/historyArchive';
+import { StorageError, changeVaultPassphrase, disableVault, enableVault } from '../services/historyStore';
+import { historyToStore } from '../services/historyPersistence';
+import { MIN_PASSPHRASE_LENGTH, getAutoLockMinutes, isVaultEnabled, setAutoLockMinutes } from '../services/vault';
+import {
+  MAX_OUTPUT_TOKEN_RANGE, MODEL_OPTIONS, ModelProfile, ReminderSettings, TEMPERATURE_RANGE, normalizeSettings, updateSettings, useSettings
+} from '../services/settingsStore';
+import { clearApiKey, getApiKeySource, isApiKeyEncrypted, saveApiKey } from '../services/apiKeyStore';
+import { testGeminiConnection } from '../services/providers/geminiProvider';
+import { toAnalysisError } from '../services/analysisErrors';
+import { ensureNotificationPermission, notificationsSupported } from '../utils/notifications';
+
+export type ImportMode = 'merge' | 'replace';
 
 interface SettingsViewProps {
   onClearHistory?: () => void;
+  history?: HistoryItem[];
+  projects?: Project[];
+  onImportHistory?: (items: HistoryItem[], projects: Project[], mode: ImportMode) => Promise<void>;
+  onVaultChanged?: () => void;
+  onLockVault?: () => void;
+}
+
+const AUTO_LOCK_OPTIONS = [
+  { minutes: 5, label: '5 minutes' },
+  { minutes: 15, label: '15 minutes' },
+  { minutes: 60, label: '1 hour' },
+  { minutes: 0, label: 'Never' }
+];
+
+const TRASH_RETENTION_OPTIONS = [
+  { days: 7, label: '7 days' },
+  { days: 30, label: '30 days' },
+  { days: 90, label: '90 days' },
+  { days: 0, label: 'Never' }
+];
+
+const API_KEY_SOURCE_LABELS = {
+  settings: "Using the key saved on this device.",
+  build: "Using the key bundled with this build. Save your own to override it.",
+  none: "No key configured: running in offline demo mode with sample results."
+};
+
+// --- Model Profile Editor ---
+interface ModelProfileEditorProps {
+  title: string;
+  description: string;
+  profile: ModelProfile;
+  onChange: (profile: ModelProfile) => void;
 }
 
-const SettingsView: React.FC<SettingsViewProps> = ({ onClearHistory }) => {
-  // Preference States
-  const [allowTraining, setAllowTraining] = useState(false);
-  const [localStorageEnabled, setLocalStorageEnabled] = useState(true);
-  const [notifications, setNotifications] = useState(true);
-  const [weeklyDigest, setWeeklyDigest] = useState(false);
-  
-  // API Key UI States
+const ModelProfileEditor: React.FC<ModelProfileEditorProps> = ({ title, description, profile, onChange }) => {
+  const isCustomModel = !MODEL_OPTIONS.some(option => option.id === profile.model);
+  // Committed on blur so partially typed numbers aren't clamped mid-edit
+  const [tokenDraft, setTokenDraft] = useState(String(profile.maxOutputTokens));
+  useEffect(() => setTokenDraft(String(profile.maxOutputTokens)), [profile.maxOutputTokens]);
+  return (
+    <div className="p-4 rounded-xl bg-white/5 border border-white/5 space-y-4">
+      <div>
+        <span className="text-slate-300 block">{title}</span>
+        <span className="text-xs text-slate-500">{description}</span>
+      </div>
+      <label className="flex flex-col gap-1 text-xs text-slate-400">
+        Model
+        <select
+          value={profile.model}
+          onChange={e => onChange({ ...profile, model: e.target.value })}
+          className="bg-black/30 border border-white/10 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-cyan-500/50"
+        >
+          {MODEL_OPTIONS.map(option => <option key={option.id} value={option.id}>{option.label}</option>)}
+          {isCustomModel && <option value={profile.model}>{profile.model}</option>}
+        </select>
+      </label>
+      <label className="flex flex-col gap-1 text-xs text-slate-400">
+        <span className="flex justify-between">Temperature <span className="font-mono text-slate-300">{profile.temperature.toFixed(1)}</span></span>
+        <input
+          type="range"
+          min={TEMPERATURE_RANGE.min}
+          max={TEMPERATURE_RANGE.max}
+          step={0.1}
+          value={profile.temperature}
+          onChange={e => onChange({ ...profile, temperature: Number(e.target.value) })}
+          className="accent-cyan-500"
+        />
+      </label>
+      <label className="flex flex-col gap-1 text-xs text-slate-400">
+        Max output tokens
+        <input
+          type="number"
+          min={MAX_OUTPUT_TOKEN_RANGE.min}
+          max={MAX_OUTPUT_TOKEN_RANGE.max}
+          step={256}
+          value={tokenDraft}
+          onChange={e => setTokenDraft(e.target.value)}
+          onBlur={() => {
+            onChange({ ...profile, maxOutputTokens: Number(tokenDraft) || profile.maxOutputTokens });
+            setTokenDraft(String(profile.maxOutputTokens)); // Re-synced by the effect if the value changed
+          }}
+          className="bg-black/30 border border-white/10 rounded-lg px-3 py-2 text-sm text-white font-mono focus:outline-none focus:border-cyan-500/50"
+        />
+      </label>
+    </div>
+  );
+};
+
+const SettingsView: React.FC<SettingsViewProps> = ({ onClearHistory, history = [], projects = [], onImportHistory, onVaultChanged, onLockVault }) => {
+  // Preferences (shared app-wide through the settings store)
+  const { localStorageEnabled, notifications, reminders, weeklyDigest, analysisModel, chatModel, trashRetentionDays } = useSettings();
+  const [notificationNotice, setNotificationNotice] = useState<string | null>(null);
+
+  // API Key States
   const [isEditingKey, setIsEditingKey] = useState(false);
-  const [apiKey, setApiKey] = useState("************************");
-  const [showKeySuccess, setShowKeySuccess] = useState(false);
+  const [apiKey, setApiKey] = useState('');
+  const [keySource, setKeySource] = useState(getApiKeySource);
+  const [isTestingKey, setIsTestingKey] = useState(false);
+  const [keyMessage, setKeyMessage] = useState<{ tone: 'error' | 'success', text: string } | null>(null);
+
+  // Backup & Restore States
+  const [pendingImport, setPendingImport] = useState<ParsedArchive | null>(null);
+  const [importMessage, setImportMessage] = useState<{ tone: 'error' | 'success', text: string } | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const archiveInputRef = useRef<HTMLInputElement>(null);
+
+  // Vault States
+  const [vaultEnabled, setVaultEnabled] = useState(isVaultEnabled);
+  const [vaultAction, setVaultAction] = useState<'enable' | 'rekey' | 'disable' | null>(null);
+  const [currentPassphrase, setCurrentPassphrase] = useState('');
+  const [newPassphrase, setNewPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [autoLock, setAutoLock] = useState(getAutoLockMinutes);
+  const [vaultMessage, setVaultMessage] = useState<{ tone: 'error' | 'success', text: string } | null>(null);
+  const [isVaultBusy, setIsVaultBusy] = useState(false);
+
+  const handleToggleLocalStorage = () => {
+    if (localStorageEnabled && history.length > 0 &&
+        !confirm("Switch to session-only mode? Saved history will be deleted from this device; current analyses stay until you close the tab.")) {
+      return;
+    }
+    updateSettings({ localStorageEnabled: !localStorageEnabled });
+  };
+
+  const updateReminders = (patch: Partial<ReminderSettings>) => updateSettings({ reminders: { ...reminders, ...patch } });
+
+  const toggleMutedCategory = (category: AnalysisCategory) => updateReminders({
+    mutedCategories: reminders.mutedCategories.includes(category)
+      ? reminders.mutedCategories.filter(muted => muted !== category)
+      : [...reminders.mutedCategories, category]
+  });
+
+  const handleToggleNotifications = async () => {
+    setNotificationNotice(null);
+    if (notifications) {
+      updateSettings({ notifications: false });
+      return;
+    }
+    const granted = await ensureNotificationPermission();
+    updateSettings({ notifications: granted });
+    if (!granted) {
+      setNotificationNotice(notificationsSupported()
+        ? "Notifications are blocked for this site in your browser settings."
+        : "This browser does not support notifications.");
+    }
+  };
 
-  // Load settings from localStorage on mount
-  useEffect(() => {
+  // A key is only stored once a test call with it succeeds
+  const handleSaveKey = async () => {
+    const candidate = apiKey.trim();
+    if (!candidate) return;
+
+    setIsTestingKey(true);
+    setKeyMessage(null);
     try {
-      const saved = localStorage.getItem('aether_settings');
-      if (saved) {
-        const parsed = JSON.parse(saved);
-        setAllowTraining(parsed.allowTraining ?? false);
-        setLocalStorageEnabled(parsed.localStorageEnabled ?? true);
-        setNotifications(parsed.notifications ?? true);
-        setWeeklyDigest(parsed.weeklyDigest ?? false);
-      }
-    } catch (e) {
-      console.error("Failed to load settings", e);
+      await testGeminiConnection(candidate, analysisModel.model);
+    } catch (err) {
+      setKeyMessage({ tone: 'error', text: toAnalysisError(err).userMessage });
+      setIsTestingKey(false);
+      return;
     }
-  }, []);
-
-  // Save settings to localStorage on change
-  useEffect(() => {
-    const settings = {
-      allowTraining,
-      localStorageEnabled,
-      notifications,
-      weeklyDigest
-    };
-    localStorage.setItem('aether_settings', JSON.stringify(settings));
-  }, [allowTraining, localStorageEnabled, notifications, weeklyDigest]);
-
-  const handleUpdateKey = () => {
-    if (isEditingKey) {
-      // Simulate saving
+
+    try {
+      await saveApiKey(candidate);
+      setApiKey('');
       setIsEditingKey(false);
-      setShowKeySuccess(true);
-      setTimeout(() => setShowKeySuccess(false), 2000);
-      setApiKey("************************");
-    } else {
-      setApiKey(""); // Clear mask to allow typing
-      setIsEditingKey(true);
+      setKeySource(getApiKeySource());
+      setKeyMessage({ tone: 'success', text: "Key verified and saved." });
+    } catch (err) {
+      setKeyMessage({ tone: 'error', text: (err as Error).message });
+    } finally {
+      setIsTestingKey(false);
+    }
+  };
+
+  const handleRemoveKey = () => {
+    if (!confirm("Remove the saved API key from this device?")) return;
+    clearApiKey();
+    setKeySource(getApiKeySource());
+    setKeyMessage(null);
+  };
+
+  const handleCancelKey = () => {
+    setApiKey('');
+    setIsEditingKey(false);
+    setKeyMessage(null);
+  };
+
+  const handleArchiveSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow re-selecting the same file
+    if (!file) return;
+
+    setImportMessage(null);
+    try {
+      setPendingImport(parseArchive(await file.text()));
+    } catch (err) {
+      setPendingImport(null);
+      setImportMessage({ tone: 'error', text: (err as Error).message });
+    }
+  };
+
+  const handleConfirmImport = async (mode: ImportMode) => {
+    if (!pendingImport || !onImportHistory) return;
+    setIsImporting(true);
+    try {
+      await onImportHistory(pendingImport.items, pendingImport.projects, mode);
+      // Settings only travel with a full replace; a merge keeps this device's preferences. Whether
+      // history is stored stays this device's choice: an archive from a session-only device would
+      // otherwise purge the history just imported.
+      if (mode === 'replace' && pendingImport.settings) updateSettings({ ...normalizeSettings(pendingImport.settings), localStorageEnabled });
+      setImportMessage({ tone: 'success', text: `Imported ${pendingImport.items.length} analyses (${mode}).` });
+      setPendingImport(null);
+    } catch (err) {
+      const text = err instanceof StorageError ? err.userMessage : err instanceof Error ? err.message : "Import failed.";
+      setImportMessage({ tone: 'error', text });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const resetVaultForm = () => {
+    setVaultAction(null);
+    setCurrentPassphrase('');
+    setNewPassphrase('');
+    setConfirmPassphrase('');
+  };
+
+  const handleVaultSubmit = async () => {
+    if (vaultAction !== 'disable' && newPassphrase !== confirmPassphrase) {
+      setVaultMessage({ tone: 'error', text: "Passphrases do not match." });
+      return;
+    }
+
+    setIsVaultBusy(true);
+    setVaultMessage(null);
+    try {
+      const stored = historyToStore(history, projects);
+      if (vaultAction === 'enable') await enableVault(stored.items, stored.projects, newPassphrase);
+      if (vaultAction === 'rekey') await changeVaultPassphrase(stored.items, stored.projects, currentPassphrase, newPassphrase);
+      if (vaultAction === 'disable') await disableVault(stored.items, stored.projects, currentPassphrase);
+
+      const successText = {
+        enable: "Vault enabled. History is now encrypted on this device.",
+        rekey: "Passphrase changed and history re-encrypted.",
+        disable: "Vault disabled. History is stored unencrypted."
+      }[vaultAction!];
+      setVaultEnabled(isVaultEnabled());
+      setAutoLock(getAutoLockMinutes());
+      setVaultMessage({ tone: 'success', text: successText });
+      resetVaultForm();
+      onVaultChanged?.();
+    } catch (err) {
+      setVaultMessage({ tone: 'error', text: (err as Error).message });
+    } finally {
+      setIsVaultBusy(false);
     }
   };
 
+  const handleAutoLockChange = (minutes: number) => {
+    setAutoLock(minutes);
+    setAutoLockMinutes(minutes);
+    onVaultChanged?.();
+  };
+
+  const existingIds = new Set(history.map(item => item.id));
+  const duplicateCount = pendingImport ? pendingImport.items.filter(item => existingIds.has(item.id)).length : 0;
+
   const ToggleBtn = ({ active, onClick }: { active: boolean; onClick: () => void }) => (
     <button 
       onClick={onClick} 
@@ -102,39 +331,90 @@ const SettingsView: React.FC<SettingsViewProps> = ({ onClearHistory }) => {
             <Key className="text-cyan-400" size={20} />
             <h3 className="text-sm font-bold text-slate-500 uppercase tracking-widest">Model Configuration</h3>
          </div>
-         <div className="space-y-4">
+         <div className="space-y-6">
             <div className="flex flex-col gap-2">
-               <label className="text-sm text-slate-300">Gemini API Key</label>
-               <div className="flex gap-3">
-                  <input 
-                    type={isEditingKey ? "text" : "password"}
-                    value={apiKey}
-                    onChange={(e) => setApiKey(e.target.value)}
-                    readOnly={!isEditingKey}
-                    placeholder="Enter API Key"
-                    className={`flex-1 bg-black/30 border border-white/10 rounded-lg px-4 py-2 text-slate-400 font-mono focus:outline-none focus:border-cyan-500/50 transition-colors ${isEditingKey ? 'text-white' : ''}`}
-                  />
-                  <button 
-                    onClick={handleUpdateKey}
-                    className={`px-4 py-2 border border-white/10 rounded-lg text-sm font-medium transition-colors flex items-center gap-2
-                      ${isEditingKey ? 'bg-cyan-600 text-white border-cyan-500' : 'bg-white/5 text-slate-300 hover:bg-white/10'}
-                    `}
-                  >
-                    {isEditingKey ? (
-                      <>Save Key</>
-                    ) : (
-                      showKeySuccess ? <><Check size={16} /> Saved</> : "Update"
+               <label className="text-sm text-slate-300 flex items-center gap-2">
+                 Gemini API Key
+                 {keySource === 'settings' && isApiKeyEncrypted() && (
+                   <span className="text-[10px] font-bold px-2 py-0.5 rounded-full border text-emerald-400 border-emerald-500/30 bg-emerald-500/10 flex items-center gap-1">
+                     <Lock size={10} /> ENCRYPTED
+                   </span>
+                 )}
+               </label>
+               {isEditingKey ? (
+                 <div className="flex gap-3">
+                    <input
+                      type="password"
+                      autoFocus
+                      value={apiKey}
+                      onChange={(e) => setApiKey(e.target.value)}
+                      onKeyDown={(e) => e.key === 'Enter' && handleSaveKey()}
+                      placeholder="Paste your Gemini API key"
+                      className="flex-1 bg-black/30 border border-white/10 rounded-lg px-4 py-2 text-white font-mono focus:outline-none focus:border-cyan-500/50 transition-colors"
+                    />
+                    <button
+                      onClick={handleSaveKey}
+                      disabled={!apiKey.trim() || isTestingKey}
+                      className="px-4 py-2 border border-cyan-500 rounded-lg text-sm font-medium bg-cyan-600 text-white transition-colors flex items-center gap-2 disabled:opacity-50"
+                    >
+                      {isTestingKey ? <><Loader2 size={16} className="animate-spin" /> Testing...</> : "Test & Save"}
+                    </button>
+                    <button onClick={handleCancelKey} disabled={isTestingKey} className="px-4 py-2 rounded-lg text-slate-400 hover:text-white text-sm transition-colors">
+                      Cancel
+                    </button>
+                 </div>
+               ) : (
+                 <div className="flex gap-3">
+                    <input
+                      type="password"
+                      value={keySource === 'none' ? '' : "************************"}
+                      readOnly
+                      placeholder="Not configured"
+                      className="flex-1 bg-black/30 border border-white/10 rounded-lg px-4 py-2 text-slate-400 font-mono focus:outline-none"
+                    />
+                    <button
+                      onClick={() => { setIsEditingKey(true); setKeyMessage(null); }}
+                      className="px-4 py-2 border border-white/10 rounded-lg text-sm font-medium bg-white/5 text-slate-300 hover:bg-white/10 transition-colors"
+                    >
+                      {keySource === 'settings' ? "Update" : "Add Key"}
+                    </button>
+                    {keySource === 'settings' && (
+                      <button onClick={handleRemoveKey} className="px-4 py-2 border border-red-500/30 text-red-400 rounded-lg text-sm hover:bg-red-500/10 transition-colors">
+                        Remove
+                      </button>
                     )}
-                  </button>
-               </div>
+                 </div>
+               )}
                <p className="text-xs text-slate-500 flex items-center gap-1">
-                 {isEditingKey ? (
-                   <span className="text-amber-400 flex items-center gap-1"><AlertCircle size={12}/> Be careful sharing your screen.</span>
+                 {keyMessage ? (
+                   <span className={`flex items-center gap-1 ${keyMessage.tone === 'error' ? 'text-red-400' : 'text-emerald-400'}`}>
+                     {keyMessage.tone === 'error' ? <AlertCircle size={12} /> : <Check size={12} />} {keyMessage.text}
+                   </span>
+                 ) : isEditingKey ? (
+                   <span className="text-amber-400 flex items-center gap-1"><AlertCircle size={12}/> Be careful sharing your screen. {vaultEnabled ? "The key will be encrypted with your vault." : "Enable the vault below to encrypt it at rest."}</span>
                  ) : (
-                   "Using Gemini 2.5 Flash for low-latency reasoning."
+                   API_KEY_SOURCE_LABELS[keySource]
                  )}
                </p>
             </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+               <ModelProfileEditor
+                 title="Analysis"
+                 description="Classification and full analyses"
+                 profile={analysisModel}
+                 onChange={profile => updateSettings({ analysisModel: profile })}
+               />
+               <ModelProfileEditor
+                 title="Chat"
+                 description="Follow-up questions about a result"
+                 profile={chatModel}
+                 onChange={profile => updateSettings({ chatModel: profile })}
+               />
+            </div>
+            <p className="text-xs text-slate-500 flex items-center gap-1">
+              <Cpu size={12} /> Changes apply to the next request. Gemini 2.5 counts thinking toward the output limit, so very low limits can truncate analyses.
+            </p>
          </div>
       </div>
 
@@ -150,17 +430,26 @@ const SettingsView: React.FC<SettingsViewProps> = ({ onClearHistory }) => {
             <div className="space-y-6">
                <div className="flex justify-between items-center">
                   <div>
-                    <span className="text-slate-300 block">Allow Data Training</span>
-                    <span className="text-xs text-slate-500">Help improve the model</span>
+                    <span className="text-slate-300 block">Local Storage History</span>
+                    <span className="text-xs text-slate-500">
+                      {localStorageEnabled ? "Save analysis on device" : "Session-only: history is forgotten when the tab closes"}
+                    </span>
                   </div>
-                  <ToggleBtn active={allowTraining} onClick={() => setAllowTraining(!allowTraining)} />
+                  <ToggleBtn active={localStorageEnabled} onClick={handleToggleLocalStorage} />
                </div>
+
                <div className="flex justify-between items-center">
                   <div>
-                    <span className="text-slate-300 block">Local Storage History</span>
-                    <span className="text-xs text-slate-500">Save analysis on device</span>
+                    <span className="text-slate-300 block">Empty Trash Automatically</span>
+                    <span className="text-xs text-slate-500">Permanently delete trashed analyses after</span>
                   </div>
-                  <ToggleBtn active={localStorageEnabled} onClick={() => setLocalStorageEnabled(!localStorageEnabled)} />
+                  <select
+                    value={trashRetentionDays}
+                    onChange={e => updateSettings({ trashRetentionDays: Number(e.target.value) })}
+                    className="bg-black/30 border border-white/10 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-cyan-500/50"
+                  >
+                    {TRASH_RETENTION_OPTIONS.map(option => <option key={option.days} value={option.days}>{option.label}</option>)}
+                  </select>
                </div>
                
                {onClearHistory && (
@@ -185,16 +474,231 @@ const SettingsView: React.FC<SettingsViewProps> = ({ onClearHistory }) => {
             </div>
             <div className="space-y-6">
                <div className="flex justify-between items-center">
-                  <span className="text-slate-300">Analysis Complete Alert</span>
-                  <ToggleBtn active={notifications} onClick={() => setNotifications(!notifications)} />
+                  <div>
+                    <span className="text-slate-300 block">Browser Notifications</span>
+                    <span className="text-xs text-slate-500">Background analysis finished, plus the reminders below</span>
+                  </div>
+                  <ToggleBtn active={notifications} onClick={handleToggleNotifications} />
                </div>
-               <div className="flex justify-between items-center">
-                  <span className="text-slate-300">Weekly Digest</span>
-                  <ToggleBtn active={weeklyDigest} onClick={() => setWeeklyDigest(!weeklyDigest)} />
+               {notificationNotice && (
+                 <p className="text-xs text-amber-400 flex items-center gap-1"><AlertCircle size={12} /> {notificationNotice}</p>
+               )}
+
+               <div className={`space-y-6 pt-4 border-t border-white/5 ${notifications ? '' : 'opacity-50'}`}>
+                  <div className="flex justify-between items-center">
+                     <div>
+                       <span className="text-slate-300 block">Action Due Reminders</span>
+                       <span className="text-xs text-slate-500">Open actions on or past their due date</span>
+                     </div>
+                     <ToggleBtn active={reminders.actionsDue} onClick={() => updateReminders({ actionsDue: !reminders.actionsDue })} />
+                  </div>
+                  <div className="flex justify-between items-center">
+                     <div>
+                       <span className="text-slate-300 block">Urgent Consequences</span>
+                       <span className="text-xs text-slate-500">High-severity consequences expected immediately</span>
+                     </div>
+                     <ToggleBtn active={reminders.urgentConsequences} onClick={() => updateReminders({ urgentConsequences: !reminders.urgentConsequences })} />
+                  </div>
+                  <div className="space-y-3">
+                     <div className="flex justify-between items-center">
+                        <div>
+                          <span className="text-slate-300 block">Quiet Hours</span>
+                          <span className="text-xs text-slate-500">Hold reminders until the window ends</span>
+                        </div>
+                        <ToggleBtn
+                          active={reminders.quietHours.enabled}
+                          onClick={() => updateReminders({ quietHours: { ...reminders.quietHours, enabled: !reminders.quietHours.enabled } })}
+                        />
+                     </div>
+                     {reminders.quietHours.enabled && (
+                       <div className="flex items-center gap-2 text-sm text-slate-400">
+                          <input
+                            type="time"
+                            value={reminders.quietHours.start}
+                            onChange={e => e.target.value && updateReminders({ quietHours: { ...reminders.quietHours, start: e.target.value } })}
+                            className="bg-black/30 border border-white/10 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-cyan-500/50"
+                          />
+                          <span>to</span>
+                          <input
+                            type="time"
+                            value={reminders.quietHours.end}
+                            onChange={e => e.target.value && updateReminders({ quietHours: { ...reminders.quietHours, end: e.target.value } })}
+                            className="bg-black/30 border border-white/10 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-cyan-500/50"
+                          />
+                       </div>
+                     )}
+                  </div>
+                  <div>
+                     <span className="text-slate-300 block">Remind Me About</span>
+                     <span className="text-xs text-slate-500">Tap a category to mute its reminders</span>
+                     <div className="flex flex-wrap gap-2 mt-3">
+                        {Object.values(AnalysisCategory).map(category => {
+                          const muted = reminders.mutedCategories.includes(category);
+                          return (
+                            <button
+                              key={category}
+                              onClick={() => toggleMutedCategory(category)}
+                              className={`px-3 py-1 rounded-full text-[10px] font-bold border transition-colors ${muted ? 'bg-white/5 border-white/10 text-slate-600 line-through' : 'bg-purple-500/20 border-purple-500/40 text-purple-300'}`}
+                              title={muted ? 'Muted' : 'Reminders on'}
+                            >
+                              {category}
+                            </button>
+                          );
+                        })}
+                     </div>
+                  </div>
+               </div>
+
+               <div className="flex justify-between items-center pt-4 border-t border-white/5">
+                  <div>
+                    <span className="text-slate-300 block">Weekly Digest</span>
+                    <span className="text-xs text-slate-500">Summarize the past seven days on your first visit each week</span>
+                  </div>
+                  <ToggleBtn active={weeklyDigest} onClick={() => updateSettings({ weeklyDigest: !weeklyDigest })} />
                </div>
             </div>
          </div>
       </div>
+
+      {/* Vault */}
+      <div className="glass-panel rounded-2xl p-8">
+         <div className="flex items-center gap-3 mb-6">
+            <Lock className="text-cyan-400" size={20} />
+            <h3 className="text-sm font-bold text-slate-500 uppercase tracking-widest">Encryption Vault</h3>
+            <span className={`ml-auto text-xs font-bold px-2 py-0.5 rounded-full border ${vaultEnabled ? 'text-emerald-400 border-emerald-500/30 bg-emerald-500/10' : 'text-slate-400 border-white/10 bg-white/5'}`}>
+              {vaultEnabled ? 'ENCRYPTED' : 'OFF'}
+            </span>
+         </div>
+         <p className="text-sm text-slate-400 mb-6">
+           Encrypt history, images and chats on this device with a passphrase. The passphrase cannot be recovered; forgetting it means losing your history.
+         </p>
+
+         {vaultEnabled && !vaultAction && (
+           <div className="space-y-6">
+              <div className="flex justify-between items-center">
+                 <div>
+                   <span className="text-slate-300 block">Auto-lock</span>
+                   <span className="text-xs text-slate-500">Lock after this much inactivity</span>
+                 </div>
+                 <select
+                   value={autoLock}
+                   onChange={e => handleAutoLockChange(Number(e.target.value))}
+                   className="bg-black/30 border border-white/10 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-cyan-500/50"
+                 >
+                   {AUTO_LOCK_OPTIONS.map(option => <option key={option.minutes} value={option.minutes}>{option.label}</option>)}
+                 </select>
+              </div>
+              <div className="flex flex-col md:flex-row gap-3">
+                 <button onClick={onLockVault} className="flex-1 px-4 py-3 border border-white/10 bg-white/5 rounded-xl text-sm text-white hover:bg-white/10 transition-colors">Lock Now</button>
+                 <button onClick={() => setVaultAction('rekey')} className="flex-1 px-4 py-3 border border-white/10 bg-white/5 rounded-xl text-sm text-white hover:bg-white/10 transition-colors">Change Passphrase</button>
+                 <button onClick={() => setVaultAction('disable')} className="flex-1 px-4 py-3 border border-red-500/30 text-red-400 rounded-xl text-sm hover:bg-red-500/10 transition-colors">Disable Vault</button>
+              </div>
+           </div>
+         )}
+
+         {!vaultEnabled && !vaultAction && (
+           <>
+             <button onClick={() => setVaultAction('enable')} disabled={!localStorageEnabled} className="w-full px-4 py-3 rounded-xl bg-cyan-600 hover:bg-cyan-500 text-white text-sm font-medium transition-colors disabled:opacity-50 disabled:hover:bg-cyan-600">
+               Set Up Vault
+             </button>
+             {!localStorageEnabled && (
+               <p className="mt-3 text-xs text-slate-500">Session-only mode keeps nothing on this device, so there is nothing to encrypt.</p>
+             )}
+           </>
+         )}
+
+         {vaultAction && (
+           <div className="space-y-3">
+              {vaultAction !== 'enable' && (
+                <input type="password" value={currentPassphrase} onChange={e => setCurrentPassphrase(e.target.value)} placeholder="Current passphrase"
+                  className="w-full bg-black/30 border border-white/10 rounded-lg px-4 py-2 text-white font-mono focus:outline-none focus:border-cyan-500/50" />
+              )}
+              {vaultAction !== 'disable' && (
+                <>
+                  <input type="password" value={newPassphrase} onChange={e => setNewPassphrase(e.target.value)} placeholder={`New passphrase (min. ${MIN_PASSPHRASE_LENGTH} characters)`}
+                    className="w-full bg-black/30 border border-white/10 rounded-lg px-4 py-2 text-white font-mono focus:outline-none focus:border-cyan-500/50" />
+                  <input type="password" value={confirmPassphrase} onChange={e => setConfirmPassphrase(e.target.value)} placeholder="Confirm new passphrase"
+                    className="w-full bg-black/30 border border-white/10 rounded-lg px-4 py-2 text-white font-mono focus:outline-none focus:border-cyan-500/50" />
+                </>
+              )}
+              <div className="flex gap-3 pt-2">
+                 <button
+                   onClick={handleVaultSubmit}
+                   disabled={isVaultBusy || (vaultAction === 'disable' ? !currentPassphrase : !newPassphrase)}
+                   className="px-4 py-2 rounded-lg bg-cyan-600 hover:bg-cyan-500 text-white text-sm transition-colors disabled:opacity-50"
+                 >
+                   {isVaultBusy ? 'Re-encrypting...' : { enable: 'Enable Vault', rekey: 'Change Passphrase', disable: 'Decrypt & Disable' }[vaultAction]}
+                 </button>
+                 <button onClick={resetVaultForm} disabled={isVaultBusy} className="px-4 py-2 rounded-lg text-slate-400 hover:text-white text-sm transition-colors">
+                   Cancel
+                 </button>
+              </div>
+           </div>
+         )}
+
+         {vaultMessage && (
+           <p className={`mt-4 text-sm flex items-center gap-2 ${vaultMessage.tone === 'error' ? 'text-red-400' : 'text-emerald-400'}`}>
+             {vaultMessage.tone === 'error' ? <AlertCircle size={14} /> : <Check size={14} />} {vaultMessage.text}
+           </p>
+         )}
+      </div>
+
+      {/* Backup & Restore */}
+      <div className="glass-panel rounded-2xl p-8">
+         <div className="flex items-center gap-3 mb-6">
+            <Archive className="text-amber-400" size={20} />
+            <h3 className="text-sm font-bold text-slate-500 uppercase tracking-widest">Backup & Restore</h3>
+         </div>
+         <p className="text-sm text-slate-400 mb-6">
+           Export every analysis with its images, chat transcripts and these settings into one file, or restore from a previous export.
+         </p>
+         <div className="flex flex-col md:flex-row gap-3">
+            <button
+              onClick={() => downloadArchive(history, projects)}
+              disabled={history.length === 0}
+              className="flex-1 flex items-center justify-center gap-2 px-4 py-3 border border-white/10 bg-white/5 rounded-xl text-sm text-white hover:bg-white/10 transition-colors disabled:opacity-40"
+            >
+              <Download size={16} /> Export {history.length} Analyses
+            </button>
+            <button
+              onClick={() => archiveInputRef.current?.click()}
+              disabled={!onImportHistory || isImporting}
+              className="flex-1 flex items-center justify-center gap-2 px-4 py-3 border border-white/10 bg-white/5 rounded-xl text-sm text-white hover:bg-white/10 transition-colors disabled:opacity-40"
+            >
+              <Upload size={16} /> Import Archive
+            </button>
+            <input ref={archiveInputRef} type="file" accept=".json,application/json" className="hidden" onChange={handleArchiveSelected} />
+         </div>
+
+         {pendingImport && (
+           <div className="mt-6 p-4 rounded-xl border border-amber-500/30 bg-amber-500/5">
+              <p className="text-sm text-slate-200">
+                Archive from {pendingImport.exportedAt.toLocaleDateString()} with {pendingImport.items.length} analyses
+                {duplicateCount > 0 && <>, <span className="text-amber-300">{duplicateCount} already on this device</span></>}.
+              </p>
+              <p className="text-xs text-slate-500 mt-1">
+                Merge adds new analyses and keeps existing ones. Replace deletes current history and restores the archive's settings.
+              </p>
+              <div className="flex gap-3 mt-4">
+                 <button onClick={() => handleConfirmImport('merge')} disabled={isImporting} className="px-4 py-2 rounded-lg bg-cyan-600 hover:bg-cyan-500 text-white text-sm transition-colors disabled:opacity-50">
+                   Merge
+                 </button>
+                 <button onClick={() => handleConfirmImport('replace')} disabled={isImporting} className="px-4 py-2 rounded-lg border border-red-500/30 text-red-400 hover:bg-red-500/10 text-sm transition-colors disabled:opacity-50">
+                   Replace
+                 </button>
+                 <button onClick={() => setPendingImport(null)} disabled={isImporting} className="px-4 py-2 rounded-lg text-slate-400 hover:text-white text-sm transition-colors">
+                   Cancel
+                 </button>
+              </div>
+           </div>
+         )}
+
+         {importMessage && (
+           <p className={`mt-4 text-sm flex items-center gap-2 ${importMessage.tone === 'error' ? 'text-red-400' : 'text-emerald-400'}`}>
+             {importMessage.tone === 'error' ? <AlertCircle size={14} /> : <Check size={14} />} {importMessage.text}
+           </p>
+         )}
+      </div>
     </div>
   );
 };
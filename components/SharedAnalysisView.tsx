@@ -0,0 +1,85 @@
+import React from 'react';
+import { ShareSnapshot } from '../services/analysisShare';
+import AnalysisDashboard from './AnalysisDashboard';
+import { AetherLogo } from './Logo';
+import { AlertCircle, ArrowRight, Eye, Loader2 } from 'lucide-react';
+
+interface SharedAnalysisViewProps {
+  snapshot?: ShareSnapshot; // Absent while decoding or when the link is broken
+  error?: string;
+  onExit: () => void;
+}
+
+const NO_IMAGES: string[] = [];
+
+// An analysis opened from a #share= link. Nothing here is saved, and the visitor's own
+// history (and vault) stay untouched until they leave this view.
+const SharedAnalysisView: React.FC<SharedAnalysisViewProps> = ({ snapshot, error, onExit }) => (
+  <div className="min-h-screen bg-[#020617] text-slate-50 font-sans p-6 lg:p-10">
+    <div className="max-w-7xl mx-auto">
+      <header className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-8 px-5 py-4 rounded-2xl glass-panel">
+        <div className="flex items-center gap-3">
+          <AetherLogo size={32} />
+          <div>
+            <span className="block font-bold text-white">Shared Analysis</span>
+            <span className="text-xs text-slate-500 flex items-center gap-1">
+              <Eye size={12} /> Read-only{snapshot ? ` · shared ${new Date(snapshot.sharedAt).toLocaleString()}` : ''}
+            </span>
+          </div>
+        </div>
+        <button
+          onClick={onExit}
+          className="px-4 py-2 rounded-xl border border-white/10 bg-white/5 text-sm text-white hover:bg-white/10 flex items-center gap-2 transition-colors"
+        >
+          Open My Workspace <ArrowRight size={14} />
+        </button>
+      </header>
+
+      {!snapshot && !error && (
+        <div className="flex items-center justify-center h-[50vh] text-slate-500 gap-2">
+          <Loader2 size={20} className="animate-spin" /> Opening shared analysis...
+        </div>
+      )}
+
+      {error && (
+        <div className="flex flex-col items-center justify-center h-[50vh] text-slate-500">
+          <AlertCircle size={48} className="mb-4 opacity-50" />
+          <p className="text-xl">Link Could Not Be Opened</p>
+          <p className="text-sm">{error}</p>
+        </div>
+      )}
+
+      {snapshot && (
+        <>
+          <AnalysisDashboard
+            result={snapshot.result}
+            userImages={NO_IMAGES}
+            historyId="shared"
+            timestamp={new Date(snapshot.sharedAt)}
+            initialChatHistory={snapshot.chat || []}
+            onChatUpdate={() => {}}
+            lens={snapshot.lens}
+            readOnly
+          />
+          {snapshot.chat && (
+            <div className="glass-panel rounded-2xl p-6 mb-10">
+              <h3 className="text-xs font-bold text-slate-500 uppercase tracking-widest mb-4">Conversation</h3>
+              <div className="space-y-3">
+                {snapshot.chat.map(message => (
+                  <p
+                    key={message.id}
+                    className={`text-sm p-3 rounded-xl whitespace-pre-wrap ${message.role === 'user' ? 'bg-cyan-500/10 text-cyan-100 ml-[15%]' : 'bg-white/5 text-slate-300 mr-[15%]'}`}
+                  >
+                    {message.text}
+                  </p>
+                ))}
+              </div>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  </div>
+);
+
+export default SharedAnalysisView;
@@ -1,5 +1,5 @@
 import React from 'react';
-import { LayoutDashboard, Brain, History, Settings, FileText, Globe, Plus } from 'lucide-react';
+import { LayoutDashboard, Brain, History, Settings, FileText, Globe, Plus, TrendingUp, Folder, Trash2, ListTodo, Newspaper } from 'lucide-react';
 import { AetherLogo } from './Logo';
 
 interface SidebarProps {
@@ -49,9 +49,34 @@ const Sidebar: React.FC<SidebarProps> = ({ currentView, onNavigate, onNewAnalysi
           active={currentView === 'history'} 
           onClick={() => onNavigate('history')} 
         />
+        <NavItem 
+          icon={<Folder size={20} />} 
+          label="Projects" 
+          active={currentView === 'projects'} 
+          onClick={() => onNavigate('projects')} 
+        />
+        <NavItem 
+          icon={<ListTodo size={20} />} 
+          label="Open Actions" 
+          active={currentView === 'actions'} 
+          onClick={() => onNavigate('actions')} 
+        />
+        <NavItem 
+          icon={<TrendingUp size={20} />} 
+          label="Trends" 
+          active={currentView === 'trends'} 
+          onClick={() => onNavigate('trends')} 
+        />
+        <NavItem 
+          icon={<Newspaper size={20} />} 
+          label="Weekly Digest" 
+          active={currentView === 'digest'} 
+          onClick={() => onNavigate('digest')} 
+        />
       </nav>
 
-      <div className="p-4 border-t border-white/10">
+      <div className="p-4 border-t border-white/10 space-y-2">
+        <NavItem icon={<Trash2 size={20} />} label="Trash" active={currentView === 'trash'} onClick={() => onNavigate('trash')} />
         <NavItem icon={<Settings size={20} />} label="Settings" active={currentView === 'settings'} onClick={() => onNavigate('settings')} />
       </div>
     </div>
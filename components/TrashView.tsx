@@ -0,0 +1,102 @@
+import React from 'react';
+import { HistoryItem } from '../types';
+import { useSettings } from '../services/settingsStore';
+import { daysUntilPurge } from '../utils/trash';
+import { getItemTitle } from '../utils/projects';
+import { Activity, RotateCcw, Trash2 } from 'lucide-react';
+
+interface TrashViewProps {
+  items: HistoryItem[]; // Only trashed items
+  onRestore: (ids: string[]) => void;
+  onPurge: (ids: string[]) => void;
+}
+
+const TrashView: React.FC<TrashViewProps> = ({ items, onRestore, onPurge }) => {
+  const { trashRetentionDays } = useSettings();
+  const sorted = [...items].sort((a, b) => b.deletedAt! - a.deletedAt!);
+
+  const handlePurge = (ids: string[]) => {
+    const what = ids.length === 1 ? 'this analysis' : `${ids.length} analyses`;
+    if (confirm(`Permanently delete ${what}? This cannot be undone.`)) onPurge(ids);
+  };
+
+  if (items.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center h-[50vh] text-slate-500">
+         <Trash2 size={48} className="mb-4 opacity-50" />
+         <p className="text-xl">Trash is Empty</p>
+         <p className="text-sm">
+           {trashRetentionDays > 0
+             ? `Deleted analyses stay here for ${trashRetentionDays} days before they are purged.`
+             : 'Deleted analyses stay here until you empty the trash.'}
+         </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6 animate-in fade-in slide-in-from-bottom-8">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-3">
+        <p className="text-sm text-slate-400">
+          {items.length} deleted {items.length === 1 ? 'analysis' : 'analyses'}
+          {trashRetentionDays > 0 ? ` · purged automatically after ${trashRetentionDays} days` : ' · kept until emptied'}
+        </p>
+        <div className="flex gap-3">
+          <button
+            onClick={() => onRestore(items.map(item => item.id))}
+            className="px-4 py-2 rounded-xl border border-white/10 bg-white/5 text-sm text-white hover:bg-white/10 flex items-center gap-2 transition-colors"
+          >
+            <RotateCcw size={14} /> Restore All
+          </button>
+          <button
+            onClick={() => handlePurge(items.map(item => item.id))}
+            className="px-4 py-2 rounded-xl border border-red-500/30 text-red-400 text-sm hover:bg-red-500/10 flex items-center gap-2 transition-colors"
+          >
+            <Trash2 size={14} /> Empty Trash
+          </button>
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        {sorted.map(item => {
+          const daysLeft = daysUntilPurge(item, trashRetentionDays);
+          return (
+            <div key={item.id} className="glass-panel p-4 rounded-2xl flex items-center gap-4">
+              <div className="w-14 h-14 rounded-lg bg-slate-800 flex-shrink-0 overflow-hidden border border-white/10 opacity-60">
+                {item.images[0] ? (
+                  <img src={item.images[0]} alt="analysis" className="w-full h-full object-cover" />
+                ) : (
+                  <div className="w-full h-full flex items-center justify-center"><Activity size={18} className="text-slate-500" /></div>
+                )}
+              </div>
+              <div className="flex-1 min-w-0">
+                <h4 className="text-slate-300 truncate">{getItemTitle(item)}</h4>
+                <div className="flex gap-4 text-xs text-slate-500">
+                  <span>{item.result.category}</span>
+                  <span>Deleted {new Date(item.deletedAt!).toLocaleDateString()}</span>
+                  {daysLeft !== null && <span className="text-amber-400/80">Purged in {daysLeft} {daysLeft === 1 ? 'day' : 'days'}</span>}
+                </div>
+              </div>
+              <button
+                onClick={() => onRestore([item.id])}
+                className="p-3 rounded-xl bg-white/5 hover:bg-white/10 text-slate-300 hover:text-white border border-white/10 transition-colors"
+                title="Restore"
+              >
+                <RotateCcw size={18} />
+              </button>
+              <button
+                onClick={() => handlePurge([item.id])}
+                className="p-3 rounded-xl bg-white/5 hover:bg-red-500/10 text-slate-400 hover:text-red-400 border border-white/10 transition-colors"
+                title="Delete forever"
+              >
+                <Trash2 size={18} />
+              </button>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default TrashView;
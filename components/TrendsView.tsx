@@ -0,0 +1,135 @@
+import React, { useMemo, useState } from 'react';
+import { AnalysisCategory, HistoryItem } from '../types';
+import { MetricSeries, buildMetricSeries, buildScoreSeries } from '../utils/trends';
+import { CATEGORY_COLORS, TOOLTIP_STYLE, formatDate, formatNumber, renderDot, timeAxisProps } from '../utils/chartTheme';
+import { ResponsiveContainer, LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ReferenceLine } from 'recharts';
+import { TrendingUp } from 'lucide-react';
+
+// --- Sub-Component: One metric tracked across analyses ---
+const MetricTrendCard: React.FC<{ series: MetricSeries, onOpen: (historyId: string) => void }> = ({ series, onOpen }) => (
+  <div className="glass-panel rounded-2xl p-6">
+    <div className="flex items-start justify-between mb-4">
+      <h3 className="text-sm font-medium text-white">{series.label}{series.unit && <span className="text-slate-500"> ({series.unit})</span>}</h3>
+      <span className="text-[10px] text-slate-500 font-mono">{series.points.length} points</span>
+    </div>
+    <div className="grid grid-cols-3 gap-2 mb-4">
+      {[
+        { label: 'Min', value: series.min },
+        { label: 'Avg', value: series.average },
+        { label: 'Max', value: series.max }
+      ].map(stat => (
+        <div key={stat.label} className="p-2 rounded-lg bg-white/5 border border-white/5 text-center">
+          <span className="block text-[10px] text-slate-500 uppercase tracking-widest">{stat.label}</span>
+          <span className="font-mono text-white text-sm">{formatNumber(stat.value)}</span>
+        </div>
+      ))}
+    </div>
+    <ResponsiveContainer width="100%" height={160}>
+      <LineChart data={series.points}>
+        <CartesianGrid stroke="rgba(255,255,255,0.05)" vertical={false} />
+        <XAxis {...timeAxisProps} />
+        <YAxis stroke="#64748b" fontSize={11} tickLine={false} width={40} domain={['auto', 'auto']} />
+        <Tooltip {...TOOLTIP_STYLE} labelFormatter={label => formatDate(Number(label))} formatter={value => [formatNumber(Number(value)), series.label]} />
+        <ReferenceLine y={series.average} stroke="#f59e0b" strokeDasharray="4 4" strokeOpacity={0.6} />
+        <Line dataKey="value" stroke="#06b6d4" strokeWidth={2} dot={renderDot('#06b6d4', onOpen)} activeDot={false} isAnimationActive={false} />
+      </LineChart>
+    </ResponsiveContainer>
+  </div>
+);
+
+interface TrendsViewProps {
+  history: HistoryItem[];
+  onSelect: (item: HistoryItem) => void;
+}
+
+const TrendsView: React.FC<TrendsViewProps> = ({ history, onSelect }) => {
+  const [categoryFilter, setCategoryFilter] = useState<AnalysisCategory | 'ALL'>('ALL');
+
+  const scoreSeries = useMemo(() => buildScoreSeries(history), [history]);
+  const metricSeries = useMemo(
+    () => buildMetricSeries(categoryFilter === 'ALL' ? history : history.filter(h => h.result.category === categoryFilter)),
+    [history, categoryFilter]
+  );
+
+  const visibleScoreSeries = scoreSeries.filter(s => categoryFilter === 'ALL' || s.category === categoryFilter);
+
+  const openHistoryItem = (historyId: string) => {
+    const item = history.find(h => h.id === historyId);
+    if (item) onSelect(item);
+  };
+
+  if (history.length < 2) {
+    return (
+      <div className="flex flex-col items-center justify-center h-[50vh] text-slate-500">
+         <TrendingUp size={48} className="mb-4 opacity-50" />
+         <p className="text-xl">Not Enough History Yet</p>
+         <p className="text-sm">Trends appear once you have at least two analyses.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6 animate-in fade-in slide-in-from-bottom-8">
+      {/* Category Filter */}
+      <div className="flex flex-wrap gap-2">
+        {(['ALL', ...scoreSeries.map(s => s.category)] as (AnalysisCategory | 'ALL')[]).map(category => (
+          <button
+            key={category}
+            onClick={() => setCategoryFilter(category)}
+            className={`px-3 py-1.5 rounded-full text-xs font-bold border transition-colors ${
+              categoryFilter === category
+                ? 'bg-cyan-500/20 border-cyan-500/50 text-cyan-300'
+                : 'bg-white/5 border-white/10 text-slate-400 hover:text-white'
+            }`}
+          >
+            {category}
+          </button>
+        ))}
+      </div>
+
+      {/* Score Over Time */}
+      <div className="glass-panel rounded-2xl p-6">
+        <h3 className="text-xs font-bold text-slate-500 uppercase tracking-widest mb-6">Score Over Time</h3>
+        <ResponsiveContainer width="100%" height={300}>
+          <LineChart>
+            <CartesianGrid stroke="rgba(255,255,255,0.05)" vertical={false} />
+            <XAxis {...timeAxisProps} />
+            <YAxis stroke="#64748b" fontSize={11} tickLine={false} width={40} domain={[0, 100]} />
+            <Tooltip {...TOOLTIP_STYLE} labelFormatter={label => formatDate(Number(label))} />
+            <Legend wrapperStyle={{ fontSize: 12 }} />
+            {visibleScoreSeries.map(series => (
+              <Line
+                key={series.category}
+                data={series.points}
+                dataKey="value"
+                name={series.category}
+                stroke={CATEGORY_COLORS[series.category]}
+                strokeWidth={2}
+                dot={renderDot(CATEGORY_COLORS[series.category], openHistoryItem)}
+                activeDot={false}
+                isAnimationActive={false}
+              />
+            ))}
+          </LineChart>
+        </ResponsiveContainer>
+        <p className="mt-2 text-xs text-slate-600">Click a point to open that analysis.</p>
+      </div>
+
+      {/* Metric Series */}
+      <div>
+        <h3 className="text-xs font-bold text-slate-500 uppercase tracking-widest mb-4">Tracked Metrics</h3>
+        {metricSeries.length > 0 ? (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            {metricSeries.map(series => (
+              <MetricTrendCard key={series.label} series={series} onOpen={openHistoryItem} />
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-slate-600 italic">No numeric metric appears in more than one analysis yet.</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TrendsView;
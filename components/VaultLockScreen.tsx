@@ -0,0 +1,69 @@
+import React, { useState } from 'react';
+import { Lock, Loader2, AlertCircle } from 'lucide-react';
+import { AetherLogo } from './Logo';
+import { unlockVault } from '../services/vault';
+
+interface VaultLockScreenProps {
+  onUnlocked: () => void;
+}
+
+// Blocks the app until the vault passphrase is entered; nothing is decrypted before that.
+const VaultLockScreen: React.FC<VaultLockScreenProps> = ({ onUnlocked }) => {
+  const [passphrase, setPassphrase] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isUnlocking, setIsUnlocking] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!passphrase) return;
+
+    setIsUnlocking(true);
+    setError(null);
+    try {
+      await unlockVault(passphrase);
+      setPassphrase('');
+      onUnlocked();
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-[#020617] text-slate-50 p-6">
+      <form onSubmit={handleSubmit} className="w-full max-w-sm glass-panel rounded-3xl p-8 border border-white/10 text-center animate-in fade-in zoom-in duration-500">
+        <div className="flex justify-center mb-6">
+          <AetherLogo size={64} />
+        </div>
+        <h1 className="text-xl font-bold text-white tracking-tight flex items-center justify-center gap-2">
+          <Lock size={18} className="text-cyan-400" /> Vault Locked
+        </h1>
+        <p className="text-sm text-slate-400 mt-2 mb-6">Enter your passphrase to decrypt your history.</p>
+
+        <input
+          type="password"
+          autoFocus
+          value={passphrase}
+          onChange={e => setPassphrase(e.target.value)}
+          placeholder="Passphrase"
+          className="w-full bg-black/30 border border-white/10 rounded-lg px-4 py-3 text-white font-mono focus:outline-none focus:border-cyan-500/50 transition-colors"
+        />
+
+        {error && (
+          <p className="mt-3 text-sm text-red-400 flex items-center justify-center gap-1"><AlertCircle size={14} /> {error}</p>
+        )}
+
+        <button
+          type="submit"
+          disabled={!passphrase || isUnlocking}
+          className="mt-6 w-full py-3 rounded-xl bg-gradient-to-r from-cyan-500 to-blue-600 text-white font-bold flex items-center justify-center gap-2 disabled:opacity-50 transition-opacity"
+        >
+          {isUnlocking ? <><Loader2 size={16} className="animate-spin" /> Unlocking...</> : 'Unlock'}
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default VaultLockScreen;
@@ -0,0 +1,33 @@
+// Relays clicks on reminder notifications to the app (see services/reminderScheduler.ts).
+// No caching and no fetch handler: the app works exactly as it does without a worker.
+
+const REMINDER_MESSAGE = 'aether-reminder';
+
+self.addEventListener('install', () => self.skipWaiting());
+self.addEventListener('activate', event => event.waitUntil(self.clients.claim()));
+
+self.addEventListener('notificationclick', event => {
+  const data = event.notification.data;
+  event.notification.close();
+  if (!data || !data.key) return;
+  const action = event.action || 'open';
+
+  event.waitUntil((async () => {
+    const clients = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+    const client = clients[0];
+    if (client) {
+      client.postMessage({ type: REMINDER_MESSAGE, action, key: data.key, historyId: data.historyId });
+      if (action === 'open') await client.focus();
+    } else {
+      // App closed: open the task list. Snooze / Dismiss ride along in the query string and
+      // are stored at startup; otherwise the reminder would come back once its day is up
+      const url = new URL('./', self.registration.scope);
+      url.searchParams.set('view', 'actions');
+      if (action !== 'open') {
+        url.searchParams.set('reminder', action);
+        url.searchParams.set('key', data.key);
+      }
+      await self.clients.openWindow(url.href);
+    }
+  })());
+});
@@ -0,0 +1,103 @@
+import { ApiError } from "@google/genai";
+
+export type AnalysisErrorKind = 'auth' | 'quota' | 'safety' | 'network' | 'malformed' | 'cancelled' | 'unknown';
+
+// User-facing copy for each failure class
+export const ANALYSIS_ERROR_MESSAGES: Record<AnalysisErrorKind, string> = {
+  auth: "The API key was rejected. Check your Gemini API key in Settings.",
+  quota: "Rate limit or quota reached. Wait a moment and try again.",
+  safety: "The request was blocked by the model's safety filters. Try different inputs.",
+  network: "Could not reach the analysis service. Check your connection.",
+  malformed: "The model returned an unusable response. Please retry.",
+  cancelled: "Analysis cancelled.",
+  unknown: "Analysis interrupted due to an unexpected error."
+};
+
+// Only these are worth retrying automatically
+const RETRYABLE_KINDS: AnalysisErrorKind[] = ['quota', 'network'];
+
+export class AnalysisError extends Error {
+  readonly kind: AnalysisErrorKind;
+  readonly retryable: boolean;
+
+  constructor(kind: AnalysisErrorKind, detail?: string, cause?: unknown) {
+    super(detail || ANALYSIS_ERROR_MESSAGES[kind], { cause });
+    this.name = 'AnalysisError';
+    this.kind = kind;
+    this.retryable = RETRYABLE_KINDS.includes(kind);
+  }
+
+  get userMessage(): string {
+    return ANALYSIS_ERROR_MESSAGES[this.kind];
+  }
+}
+
+const classifyStatus = (status: number, message: string): AnalysisErrorKind => {
+  if (status === 401 || status === 403) return 'auth';
+  if (status === 400 && /api key/i.test(message)) return 'auth';
+  if (status === 429) return 'quota';
+  if (status === 408 || status >= 500) return 'network';
+  return 'unknown';
+};
+
+// Normalize anything thrown by a provider into the AnalysisError taxonomy.
+export const toAnalysisError = (error: unknown, signal?: AbortSignal): AnalysisError => {
+  if (error instanceof AnalysisError) return error;
+  if (signal?.aborted || (error instanceof DOMException && error.name === 'AbortError')) {
+    return new AnalysisError('cancelled', undefined, error);
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+
+  if (error instanceof ApiError) {
+    return new AnalysisError(classifyStatus(error.status, message), message, error);
+  }
+  if (error instanceof SyntaxError) return new AnalysisError('malformed', message, error);
+  if (error instanceof TypeError && /fetch|network|load failed/i.test(message)) {
+    return new AnalysisError('network', message, error);
+  }
+  if (/RESOURCE_EXHAUSTED|quota/i.test(message)) return new AnalysisError('quota', message, error);
+  if (/API key/i.test(message)) return new AnalysisError('auth', message, error);
+
+  return new AnalysisError('unknown', message, error);
+};
+
+// --- Retry With Backoff ---
+export interface RetryOptions {
+  signal?: AbortSignal;
+  retries?: number;
+  baseDelayMs?: number;
+}
+
+export const abortableDelay = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(new AnalysisError('cancelled'));
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new AnalysisError('cancelled'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+export const withRetry = async <T>(
+  operation: () => Promise<T>,
+  { signal, retries = 2, baseDelayMs = 800 }: RetryOptions = {}
+): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await operation();
+    } catch (raw) {
+      const error = toAnalysisError(raw, signal);
+      if (!error.retryable || attempt >= retries) throw error;
+
+      // Exponential backoff with jitter
+      const delay = baseDelayMs * 2 ** attempt + Math.random() * baseDelayMs;
+      console.warn(`Transient ${error.kind} error, retrying in ${Math.round(delay)}ms`, error);
+      await abortableDelay(delay, signal);
+    }
+  }
+};
@@ -0,0 +1,58 @@
+import { AnalysisResult, AnalysisCategory, AnalysisLens, ChatMessage, InputItem } from '../types';
+import { getApiKey } from './apiKeyStore';
+
+export interface RequestOptions {
+  signal?: AbortSignal;
+}
+
+export interface AnalyzeOptions extends RequestOptions {
+  // Errors from a previous attempt, fed back so the model can correct itself.
+  validationErrors?: string[];
+  // Confirmed category from the classification stage; selects the specialist prompt and schema.
+  category?: AnalysisCategory;
+  // User-defined lens: extra instructions, required metrics and an optional scoring rubric.
+  lens?: AnalysisLens;
+}
+
+// Contract every analysis backend (Gemini, offline mock, future models) implements.
+// `analyze` returns raw, unvalidated output; callers run it through the result validator.
+// `analyzeStream` is optional and yields raw JSON text chunks as they arrive.
+// `classify` is the optional fast first stage; without it the pipeline runs single-stage.
+// Providers throw `AnalysisError`s (see analysisErrors.ts) or raw SDK errors, never sentinel strings.
+export interface AnalysisProvider {
+  id: string;
+  label: string;
+  analyze: (inputs: InputItem[], options?: AnalyzeOptions) => Promise<unknown>;
+  analyzeStream?: (inputs: InputItem[], options?: AnalyzeOptions) => AsyncGenerator<string>;
+  classify?: (inputs: InputItem[], options?: RequestOptions) => Promise<unknown>;
+  chat: (currentMessage: string, history: ChatMessage[], analysisContext: AnalysisResult, options?: RequestOptions) => Promise<string>;
+}
+
+// --- Provider Registry ---
+const providers = new Map<string, AnalysisProvider>();
+let activeProviderId: string | null = null;
+
+export const registerProvider = (provider: AnalysisProvider) => {
+  providers.set(provider.id, provider);
+};
+
+export const listProviders = (): AnalysisProvider[] => Array.from(providers.values());
+
+export const setActiveProvider = (id: string) => {
+  if (!providers.has(id)) throw new Error(`Unknown analysis provider: ${id}`);
+  activeProviderId = id;
+};
+
+// Default: explicit AETHER_PROVIDER wins, otherwise fall back to the offline mock
+// whenever no Gemini key is available (neither entered in Settings nor baked in).
+const resolveDefaultProviderId = (): string => {
+  if (process.env.AETHER_PROVIDER) return process.env.AETHER_PROVIDER;
+  return getApiKey() ? 'gemini' : 'mock';
+};
+
+export const getActiveProvider = (): AnalysisProvider => {
+  const id = activeProviderId ?? resolveDefaultProviderId();
+  const provider = providers.get(id);
+  if (!provider) throw new Error(`Analysis provider "${id}" is not registered`);
+  return provider;
+};
@@ -0,0 +1,136 @@
+import { Schema, Type } from "@google/genai";
+import { AnalysisCategory } from '../types';
+
+// Response schema shared by the Gemini request config and the runtime validator.
+export const analysisSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    category: {
+      type: Type.STRING,
+      enum: [
+        AnalysisCategory.ROOM, AnalysisCategory.FOOD, AnalysisCategory.FINANCE, 
+        AnalysisCategory.SCHEDULE, AnalysisCategory.GOAL, AnalysisCategory.MAP, 
+        AnalysisCategory.LEARNING, AnalysisCategory.PROBLEM, AnalysisCategory.GENERAL
+      ]
+    },
+    summary: { type: Type.STRING, description: "Executive summary. If multiple inputs, explain how they connect." },
+    score: { type: Type.NUMBER, description: "0-100 Rating." },
+    isMergedReality: { type: Type.BOOLEAN, description: "True if analysis combined multiple inputs." },
+    metrics: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          label: { type: Type.STRING },
+          value: { type: Type.STRING },
+          unit: { type: Type.STRING },
+          color: { type: Type.STRING }
+        },
+        required: ["label", "value"]
+      }
+    },
+    chartData: {
+      type: Type.ARRAY,
+      description: "3-8 data points quantifying the main breakdown, e.g. spend per category, macros, hours per day.",
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          name: { type: Type.STRING },
+          value: { type: Type.NUMBER }
+        },
+        required: ["name", "value"]
+      }
+    },
+    insights: { type: Type.ARRAY, items: { type: Type.STRING } },
+    actionPlan: { type: Type.ARRAY, items: { type: Type.STRING } },
+    risks: { type: Type.ARRAY, items: { type: Type.STRING } },
+    opportunities: { type: Type.ARRAY, items: { type: Type.STRING } },
+    consequences: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          domain: { type: Type.STRING, enum: ['LIFESTYLE', 'FINANCIAL', 'EMOTIONAL', 'TIME', 'HEALTH'] },
+          prediction: { type: Type.STRING },
+          severity: { type: Type.STRING, enum: ['low', 'medium', 'high'] },
+          timeframe: { type: Type.STRING, enum: ['immediate', 'short_term', 'long_term'] }
+        },
+        required: ["domain", "prediction", "severity", "timeframe"]
+      }
+    },
+    mergeConnections: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          type: { type: Type.STRING },
+          source1: { type: Type.STRING },
+          source2: { type: Type.STRING },
+          insight: { type: Type.STRING }
+        },
+        required: ["type", "source1", "source2", "insight"]
+      }
+    },
+    predictions: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          outcome: { type: Type.STRING },
+          likelihood: { type: Type.STRING, enum: ['Low', 'Medium', 'High'] },
+          impact: { type: Type.STRING, enum: ['Low', 'Medium', 'High'] },
+          timeframe: { type: Type.STRING }
+        },
+        required: ["outcome", "likelihood", "impact", "timeframe"]
+      }
+    },
+    causeEffectChain: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          step: { type: Type.STRING },
+          description: { type: Type.STRING }
+        },
+        required: ["step", "description"]
+      }
+    },
+    knowledgeGraph: {
+      type: Type.OBJECT,
+      properties: {
+        nodes: {
+          type: Type.ARRAY,
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              id: { type: Type.STRING },
+              label: { type: Type.STRING },
+              type: { type: Type.STRING, enum: ['entity', 'action', 'risk', 'outcome'] }
+            },
+            required: ["id", "label", "type"]
+          }
+        },
+        edges: {
+          type: Type.ARRAY,
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              from: { type: Type.STRING },
+              to: { type: Type.STRING },
+              label: { type: Type.STRING }
+            },
+            required: ["from", "to"]
+          }
+        }
+      },
+      required: ["nodes", "edges"]
+    }
+  },
+  required: ["category", "summary", "score", "metrics", "insights", "actionPlan", "risks", "opportunities", "consequences"],
+  // Field order matters for streaming: the dashboard fills in top to bottom.
+  propertyOrdering: [
+    "category", "summary", "score", "isMergedReality", "metrics", "chartData", "insights", "actionPlan",
+    "risks", "opportunities", "consequences", "mergeConnections", "predictions",
+    "causeEffectChain", "knowledgeGraph"
+  ]
+};
@@ -0,0 +1,51 @@
+// @vitest-environment node
+import { describe, expect, it } from 'vitest';
+import { AnalysisCategory, AnalysisResult } from '../types';
+import { SHARE_HASH_PREFIX, ShareError, createShareSnapshot, decodeShareFragment, encodeShareFragment } from './analysisShare';
+
+const RESULT: AnalysisResult = {
+  category: AnalysisCategory.FINANCE,
+  summary: 'Spending is steady.',
+  score: 72,
+  metrics: [],
+  insights: [],
+  actionPlan: ['Review subscriptions'],
+  risks: [],
+  opportunities: [],
+  consequences: [],
+  transactions: [{ date: '2025-03-01', description: 'Groceries', amount: 42, category: 'Food' }]
+};
+
+// Encodes arbitrary JSON the way a link carries it (Node has the streams jsdom lacks)
+const fragmentFor = async (value: unknown) => {
+  const stream = new Blob([JSON.stringify(value)]).stream().pipeThrough(new CompressionStream('deflate-raw'));
+  const base64 = Buffer.from(await new Response(stream).arrayBuffer()).toString('base64url');
+  return `${SHARE_HASH_PREFIX}${base64}`;
+};
+
+describe('share links', () => {
+  it('round-trips a snapshot with its chat', async () => {
+    const snapshot = createShareSnapshot(
+      { result: RESULT, images: ['data:image/png;base64,AAAA'], chat: [{ id: 'm1', role: 'user', text: 'Why?' }] },
+      { includeImages: true, includeChat: true }
+    );
+    const decoded = await decodeShareFragment(await encodeShareFragment(snapshot));
+
+    expect(decoded.result).toMatchObject({ category: AnalysisCategory.FINANCE, summary: RESULT.summary, transactions: RESULT.transactions });
+    expect(decoded.chat).toEqual(snapshot.chat);
+    expect(decoded.images).toBeUndefined();
+  });
+
+  it('rejects links that are not snapshots', async () => {
+    await expect(decodeShareFragment(`${SHARE_HASH_PREFIX}not-deflate`)).rejects.toThrow(ShareError);
+    await expect(decodeShareFragment(await fragmentFor(null))).rejects.toThrow("does not contain an Aether analysis");
+    await expect(decodeShareFragment(await fragmentFor(['aether-share']))).rejects.toThrow("does not contain an Aether analysis");
+  });
+
+  it('rejects malformed results and chat transcripts', async () => {
+    const base = { format: 'aether-share', version: 1, sharedAt: '2025-03-01T10:00:00Z' };
+    await expect(decodeShareFragment(await fragmentFor({ ...base, result: 'none' }))).rejects.toThrow("failed validation");
+    await expect(decodeShareFragment(await fragmentFor({ ...base, result: RESULT, chat: [{ role: 'admin' }] })))
+      .rejects.toThrow("chat transcript is malformed");
+  });
+});
@@ -0,0 +1,153 @@
+import { AnalysisCategory, AnalysisLens, AnalysisResult, ChatMessage } from '../types';
+import { isChatMessage } from './historyArchive';
+import { normalizeLens } from './lensStore';
+import { validateAnalysisResult } from './resultValidator';
+import { buildShareHTML } from '../utils/shareHtml';
+import { downloadBlob } from '../utils/download';
+
+// Sharing an analysis: a redacted snapshot that leaves the device either as a self-contained
+// HTML file or, when small enough, as a compressed #share= link the app opens read-only.
+const SHARE_FORMAT = 'aether-share';
+const SHARE_VERSION = 1;
+export const SHARE_HASH_PREFIX = '#share=';
+
+// Longer links get truncated by chat apps and some browsers; bigger snapshots go as a file
+export const MAX_SHARE_LINK_LENGTH = 8000;
+
+export interface ShareSnapshot {
+  format: typeof SHARE_FORMAT;
+  version: number;
+  sharedAt: string;
+  result: AnalysisResult;
+  lens?: AnalysisLens;
+  images?: string[]; // Only in HTML files; links never carry images
+  chat?: ChatMessage[];
+}
+
+// Redaction choices; everything is stripped unless explicitly kept
+export interface ShareOptions {
+  includeImages: boolean;
+  includeChat: boolean;
+}
+
+export interface ShareSource {
+  result: AnalysisResult;
+  lens?: AnalysisLens;
+  images: string[];
+  chat: ChatMessage[];
+}
+
+export class ShareError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ShareError';
+  }
+}
+
+// Drops the auto-repair notes as well: they describe the model output, not the analysis
+export const createShareSnapshot = (source: ShareSource, options: ShareOptions): ShareSnapshot => {
+  const { validationNotes, ...result } = source.result;
+  return {
+    format: SHARE_FORMAT,
+    version: SHARE_VERSION,
+    sharedAt: new Date().toISOString(),
+    result,
+    ...(source.lens && { lens: source.lens }),
+    ...(options.includeImages && source.images.length > 0 && { images: source.images }),
+    ...(options.includeChat && source.chat.length > 0 && { chat: source.chat })
+  };
+};
+
+// --- Link ---
+const toBase64Url = (bytes: Uint8Array) => {
+  let binary = '';
+  bytes.forEach(byte => { binary += String.fromCharCode(byte); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string) => {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+};
+
+const pipeThrough = async (bytes: Uint8Array, stream: CompressionStream | DecompressionStream) =>
+  new Uint8Array(await new Response(new Blob([bytes]).stream().pipeThrough(stream)).arrayBuffer());
+
+export const encodeShareFragment = async (snapshot: ShareSnapshot): Promise<string> => {
+  const { images, ...linkable } = snapshot;
+  const compressed = await pipeThrough(new TextEncoder().encode(JSON.stringify(linkable)), new CompressionStream('deflate-raw'));
+  return `${SHARE_HASH_PREFIX}${toBase64Url(compressed)}`;
+};
+
+// Null when the snapshot is too large for a link
+export const buildShareLink = async (snapshot: ShareSnapshot): Promise<string | null> => {
+  const link = `${window.location.origin}${window.location.pathname}${await encodeShareFragment(snapshot)}`;
+  return link.length <= MAX_SHARE_LINK_LENGTH ? link : null;
+};
+
+// A link is untrusted input: it is validated like an imported archive before anything renders it
+export const decodeShareFragment = async (hash: string): Promise<ShareSnapshot> => {
+  if (!hash.startsWith(SHARE_HASH_PREFIX)) throw new ShareError("Not a shared analysis link.");
+
+  let decoded: unknown;
+  try {
+    const bytes = await pipeThrough(fromBase64Url(hash.slice(SHARE_HASH_PREFIX.length)), new DecompressionStream('deflate-raw'));
+    decoded = JSON.parse(new TextDecoder().decode(bytes));
+  } catch {
+    throw new ShareError("This share link is damaged or incomplete.");
+  }
+
+  const snapshot = decoded && typeof decoded === 'object' ? decoded as Record<string, unknown> : {};
+  if (snapshot.format !== SHARE_FORMAT) throw new ShareError("This link does not contain an Aether analysis.");
+  if (typeof snapshot.version !== 'number' || snapshot.version > SHARE_VERSION) {
+    throw new ShareError("This link was made by a newer version of the app.");
+  }
+  // The category picks the specialist schema, so only a known one is passed on
+  const reported = snapshot.result && typeof snapshot.result === 'object' ? (snapshot.result as Record<string, unknown>).category : undefined;
+  const report = validateAnalysisResult(snapshot.result, Object.values(AnalysisCategory).find(category => category === reported));
+  if (!report.result) throw new ShareError("The shared analysis failed validation.");
+  const lens = snapshot.lens === undefined ? undefined : normalizeLens(snapshot.lens);
+  const chat = snapshot.chat === undefined ? [] : Array.isArray(snapshot.chat) && snapshot.chat.every(isChatMessage) ? snapshot.chat : null;
+  if (!chat) throw new ShareError("The shared chat transcript is malformed.");
+
+  return {
+    format: SHARE_FORMAT,
+    version: SHARE_VERSION,
+    sharedAt: typeof snapshot.sharedAt === 'string' ? snapshot.sharedAt : new Date().toISOString(),
+    result: { ...report.result, validationNotes: undefined },
+    ...(lens && { lens }),
+    ...(chat.length > 0 && { chat })
+  };
+};
+
+// --- File ---
+const snapshotFileName = (snapshot: ShareSnapshot) =>
+  `aether-${snapshot.result.category.toLowerCase()}-analysis-${snapshot.sharedAt.slice(0, 10)}.html`;
+
+export const createShareFile = (snapshot: ShareSnapshot): File =>
+  new File([buildShareHTML(snapshot)], snapshotFileName(snapshot), { type: 'text/html' });
+
+export const downloadShareFile = (snapshot: ShareSnapshot) => downloadBlob(createShareFile(snapshot), snapshotFileName(snapshot));
+
+// --- Web Share ---
+export const webShareSupported = () => typeof navigator !== 'undefined' && typeof navigator.share === 'function';
+
+// Shares the HTML file where the platform accepts files, otherwise the link. Resolves false
+// when there was nothing the platform could share or the user cancelled the sheet.
+export const shareSnapshot = async (snapshot: ShareSnapshot, link: string | null): Promise<boolean> => {
+  if (!webShareSupported()) return false;
+  const title = `${snapshot.result.category} analysis`;
+  const file = createShareFile(snapshot);
+  const data: ShareData = navigator.canShare?.({ files: [file] })
+    ? { title, files: [file] }
+    : link ? { title, text: snapshot.result.summary.slice(0, 200), url: link } : {};
+  if (!data.files && !data.url) return false;
+
+  try {
+    await navigator.share(data);
+    return true;
+  } catch (e) {
+    if ((e as Error).name === 'AbortError') return false;
+    throw new ShareError("The share sheet could not be opened.");
+  }
+};
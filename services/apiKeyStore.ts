@@ -0,0 +1,79 @@
+import { fromBase64, getReadKey, getWriteKey, isVaultEnabled, isVaultLocked, openJson, sealJson, toBase64 } from './vault';
+
+// Gemini key entered in Settings. It overrides the build-time `process.env.API_KEY`
+// and is sealed with the vault key whenever the vault is on.
+const API_KEY_STORAGE = 'aether_api_key';
+
+type StoredApiKey =
+  | { plain: string }
+  | { sealed: { iv: string, data: string } };
+
+export type ApiKeySource = 'settings' | 'build' | 'none';
+
+// Decrypted key; a sealed key only lands here after the vault is unlocked.
+let runtimeKey: string | null = null;
+
+const readStored = (): StoredApiKey | null => {
+  try {
+    return JSON.parse(localStorage.getItem(API_KEY_STORAGE) || 'null');
+  } catch {
+    return null;
+  }
+};
+
+const writeStored = async (apiKey: string, vaultKey: CryptoKey | null) => {
+  let stored: StoredApiKey = { plain: apiKey };
+  if (vaultKey) {
+    const sealed = await sealJson(vaultKey, apiKey);
+    stored = { sealed: { iv: toBase64(sealed.iv), data: toBase64(new Uint8Array(sealed.data)) } };
+  }
+  localStorage.setItem(API_KEY_STORAGE, JSON.stringify(stored));
+};
+
+export const getApiKey = (): string => runtimeKey || process.env.API_KEY || '';
+
+export const getApiKeySource = (): ApiKeySource => {
+  if (runtimeKey) return 'settings';
+  return process.env.API_KEY ? 'build' : 'none';
+};
+
+export const isApiKeyEncrypted = () => {
+  const stored = readStored();
+  return !!stored && 'sealed' in stored;
+};
+
+// Call on startup and after unlocking; sealed keys stay unavailable while locked.
+export const loadApiKey = async (): Promise<void> => {
+  const stored = readStored();
+  if (!stored) {
+    runtimeKey = null;
+  } else if ('plain' in stored) {
+    runtimeKey = stored.plain;
+  } else if (!isVaultLocked()) {
+    const { iv, data } = stored.sealed;
+    runtimeKey = await openJson<string>(getReadKey(), { iv: fromBase64(iv), data: fromBase64(data).buffer });
+  }
+};
+
+// Drops the decrypted copy on lock; plaintext keys are re-read on the next load.
+export const unloadApiKey = () => {
+  if (isVaultEnabled()) runtimeKey = null;
+};
+
+export const saveApiKey = async (apiKey: string): Promise<void> => {
+  await writeStored(apiKey, getWriteKey());
+  runtimeKey = apiKey;
+};
+
+export const clearApiKey = () => {
+  localStorage.removeItem(API_KEY_STORAGE);
+  runtimeKey = null;
+};
+
+// Re-seals the stored key when the vault is enabled, rekeyed (new key) or disabled (null).
+export const resealApiKey = async (vaultKey: CryptoKey | null): Promise<void> => {
+  if (runtimeKey && readStored()) await writeStored(runtimeKey, vaultKey);
+};
+
+// Plaintext keys are usable before React mounts
+loadApiKey().catch(err => console.error("Failed to load API key", err));
@@ -0,0 +1,136 @@
+import { Schema, Type } from "@google/genai";
+import { AnalysisCategory, AnalysisLens } from '../types';
+import { analysisSchema } from './analysisSchema';
+
+interface CategorySpecialist {
+  instruction: string;
+  // Extra top-level fields merged into AnalysisResult for this category
+  extensions?: Record<string, Schema>;
+}
+
+export const CATEGORY_SPECIALISTS: Record<AnalysisCategory, CategorySpecialist> = {
+  [AnalysisCategory.FINANCE]: {
+    instruction: "Act as a personal finance analyst. Itemize every transaction you can read, group spending by category, flag recurring charges and fees, and compare spending against income.",
+    extensions: {
+      transactions: {
+        type: Type.ARRAY,
+        description: "Every transaction visible in the inputs. Negative amounts are outflows.",
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            date: { type: Type.STRING },
+            description: { type: Type.STRING },
+            amount: { type: Type.NUMBER },
+            category: { type: Type.STRING }
+          },
+          required: ["description", "amount"]
+        }
+      }
+    }
+  },
+  [AnalysisCategory.FOOD]: {
+    instruction: "Act as a registered dietitian. Estimate portion sizes, macro- and micronutrients, and compare them against typical adult daily values.",
+    extensions: {
+      nutrients: {
+        type: Type.ARRAY,
+        description: "Estimated nutrients for the whole meal.",
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            name: { type: Type.STRING },
+            amount: { type: Type.NUMBER },
+            unit: { type: Type.STRING },
+            dailyValuePercent: { type: Type.NUMBER }
+          },
+          required: ["name", "amount", "unit"]
+        }
+      }
+    }
+  },
+  [AnalysisCategory.SCHEDULE]: {
+    instruction: "Act as an executive assistant. Extract every event with its day and times, detect conflicts and overload, and identify free blocks for focused work.",
+    extensions: {
+      events: {
+        type: Type.ARRAY,
+        description: "Every calendar event found in the inputs.",
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            title: { type: Type.STRING },
+            day: { type: Type.STRING, description: "ISO date if known, otherwise weekday name." },
+            start: { type: Type.STRING, description: "24h time, e.g. 09:30" },
+            end: { type: Type.STRING }
+          },
+          required: ["title", "day"]
+        }
+      }
+    }
+  },
+  [AnalysisCategory.ROOM]: {
+    instruction: "Act as a professional organizer and interior designer. Assess clutter, layout, lighting, ergonomics and safety hazards room-zone by room-zone."
+  },
+  [AnalysisCategory.GOAL]: {
+    instruction: "Act as a performance coach. Break the goal into measurable milestones, identify blockers and estimate realistic timelines."
+  },
+  [AnalysisCategory.MAP]: {
+    instruction: "Act as a local navigator. Identify locations, distances, travel times and route options, and note accessibility or safety concerns."
+  },
+  [AnalysisCategory.LEARNING]: {
+    instruction: "Act as a learning designer. Map the material into topics and prerequisites, estimate study time, and propose a spaced-repetition plan."
+  },
+  [AnalysisCategory.PROBLEM]: {
+    instruction: "Act as a root-cause analyst. Separate symptoms from causes, rank hypotheses by likelihood, and propose the cheapest diagnostic steps first."
+  },
+  [AnalysisCategory.GENERAL]: {
+    instruction: "Provide a balanced, general-purpose analysis."
+  }
+};
+
+// Stage 1: a tiny schema so classification is fast and cheap.
+export const classificationSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    category: { type: Type.STRING, enum: Object.values(AnalysisCategory) },
+    confidence: { type: Type.NUMBER, description: "0-1 confidence in the category." },
+    rationale: { type: Type.STRING, description: "One short sentence." }
+  },
+  required: ["category", "confidence", "rationale"],
+  propertyOrdering: ["category", "confidence", "rationale"]
+};
+
+// Lens additions: a rubric asks the model to justify the score against it.
+const buildLensExtensions = (lens?: AnalysisLens): Record<string, Schema> | undefined => {
+  if (!lens?.rubric) return undefined;
+  return {
+    scoreRationale: { type: Type.STRING, description: "How the score was derived from the scoring rubric, citing each deduction." }
+  };
+};
+
+// Prompt section appended after the specialist brief when a lens is active.
+export const buildLensInstruction = (lens: AnalysisLens): string => {
+  const lines = [`**LENS: ${lens.name}**`];
+  if (lens.instruction) lines.push(lens.instruction);
+  if (lens.metrics.length > 0) {
+    lines.push("Always include these entries in 'metrics', using exactly these labels:");
+    lens.metrics.forEach(metric => lines.push(`- ${metric.label}${metric.unit ? ` (unit: ${metric.unit})` : ''}`));
+  }
+  if (lens.rubric) {
+    lines.push(`Score 0-100 using ONLY this rubric, and explain the result in 'scoreRationale':\n${lens.rubric}`);
+  }
+  return lines.join('\n');
+};
+
+// Stage 2: the base analysis schema plus the category's and lens's extension fields.
+export const buildSpecialistSchema = (category?: AnalysisCategory, lens?: AnalysisLens): Schema => {
+  const extensions = {
+    ...(category ? CATEGORY_SPECIALISTS[category].extensions : undefined),
+    ...buildLensExtensions(lens)
+  };
+  if (Object.keys(extensions).length === 0) return analysisSchema;
+
+  return {
+    ...analysisSchema,
+    properties: { ...analysisSchema.properties, ...extensions },
+    propertyOrdering: [...(analysisSchema.propertyOrdering || []), ...Object.keys(extensions)]
+  };
+};
@@ -0,0 +1,49 @@
+import { useSyncExternalStore } from 'react';
+import { getWeekKey } from '../utils/digest';
+
+// When the latest weekly digest was produced. Only the date is stored: the digest itself
+// is rebuilt from history, so no analysis content sits outside the (possibly encrypted) database.
+const DIGEST_KEY = 'aether_digest';
+
+export interface DigestRecord {
+  weekKey: string; // Monday of the week it was produced in
+  generatedAt: number; // End of the seven-day period it covers
+}
+
+const loadRecord = (): DigestRecord | null => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(DIGEST_KEY) || 'null');
+    return saved && typeof saved.weekKey === 'string' && typeof saved.generatedAt === 'number' ? saved : null;
+  } catch (e) {
+    console.error("Failed to load digest record", e);
+    return null;
+  }
+};
+
+let currentRecord = loadRecord();
+const listeners = new Set<() => void>();
+
+export const getDigestRecord = (): DigestRecord | null => currentRecord;
+
+export const recordDigest = (now = new Date()): DigestRecord => {
+  currentRecord = { weekKey: getWeekKey(now), generatedAt: now.getTime() };
+  try {
+    localStorage.setItem(DIGEST_KEY, JSON.stringify(currentRecord));
+  } catch (e) {
+    console.error("Failed to save digest record", e);
+  }
+  listeners.forEach(listener => listener());
+  return currentRecord;
+};
+
+// True on the first launch of a week that has no digest yet
+export const isDigestDue = (now = new Date()): boolean => currentRecord?.weekKey !== getWeekKey(now);
+
+export const subscribeDigestRecord = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const useDigestRecord = (): DigestRecord | null => useSyncExternalStore(subscribeDigestRecord, getDigestRecord);
@@ -0,0 +1,49 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AnalysisError } from './analysisErrors';
+import { AnalysisProvider, getActiveProvider } from './analysisProvider';
+import { analyzeLifeInput, analyzeLifeInputStream, classifyInputs } from './geminiService';
+
+vi.mock('./analysisProvider', () => ({
+  getActiveProvider: vi.fn(),
+  registerProvider: vi.fn()
+}));
+
+describe('public entry points', () => {
+  beforeEach(() => {
+    vi.mocked(getActiveProvider).mockImplementation(() => {
+      throw new Error('Analysis provider "nope" is not registered');
+    });
+  });
+
+  it.each([
+    ['classifyInputs', () => classifyInputs([])],
+    ['analyzeLifeInput', () => analyzeLifeInput([])],
+    ['analyzeLifeInputStream', () => analyzeLifeInputStream([], () => {})]
+  ])('%s rejects with AnalysisError when no provider can be resolved', async (_, call) => {
+    await expect(call()).rejects.toBeInstanceOf(AnalysisError);
+  });
+});
+
+describe('re-prompting and repairs', () => {
+  afterEach(() => vi.restoreAllMocks());
+
+  it('surfaces repairs on the result instead of logging them', async () => {
+    const warn = vi.spyOn(console, 'warn');
+    const info = vi.spyOn(console, 'info');
+    const analyze = vi.fn()
+      .mockResolvedValueOnce({ summary: 'Missing everything else' })
+      .mockResolvedValueOnce({
+        category: 'GENERAL', summary: 'Steady', score: 140, metrics: [], insights: [], actionPlan: [],
+        risks: [], opportunities: [], consequences: []
+      });
+    vi.mocked(getActiveProvider).mockReturnValue({ id: 'test', label: 'Test', analyze, chat: vi.fn() } as AnalysisProvider);
+
+    const result = await analyzeLifeInput([]);
+
+    expect(analyze).toHaveBeenCalledTimes(2);
+    expect(result.score).toBe(100);
+    expect(result.validationNotes?.length).toBeGreaterThan(0);
+    expect(warn).not.toHaveBeenCalled();
+    expect(info).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,151 @@
+import { ActionItem, ChatMessage, HistoryItem, Project } from '../types';
+import { ACTION_PRIORITIES } from '../utils/actions';
+import { downloadBlob } from '../utils/download';
+import { HISTORY_SCHEMA_VERSION, VersionedHistoryItem, migrateHistoryItem } from './historyMigrations';
+import { normalizeLens } from './lensStore';
+import { validateAnalysisResult } from './resultValidator';
+import { getSettings } from './settingsStore';
+
+// Portable backup: one JSON file holding every history item with its images inlined
+// as data URLs, chat transcripts, projects and the settings blob.
+const ARCHIVE_FORMAT = 'aether-archive';
+const ARCHIVE_VERSION = 1;
+
+export interface HistoryArchive {
+  format: typeof ARCHIVE_FORMAT;
+  version: number;
+  exportedAt: string;
+  items: VersionedHistoryItem[]; // Each carries its own schemaVersion
+  projects?: Project[]; // Absent in archives exported before projects existed
+  settings: Record<string, unknown> | null;
+}
+
+export interface ParsedArchive {
+  exportedAt: Date;
+  items: HistoryItem[];
+  projects: Project[];
+  settings: Record<string, unknown> | null;
+}
+
+export class ArchiveError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ArchiveError';
+  }
+}
+
+// --- Export ---
+export const buildArchive = (history: HistoryItem[], projects: Project[]): HistoryArchive => ({
+  format: ARCHIVE_FORMAT,
+  version: ARCHIVE_VERSION,
+  exportedAt: new Date().toISOString(),
+  items: history.map(item => ({ ...item, timestamp: item.timestamp.toISOString(), schemaVersion: HISTORY_SCHEMA_VERSION })),
+  projects,
+  settings: { ...getSettings() }
+});
+
+export const downloadArchive = (history: HistoryItem[], projects: Project[]) => {
+  const blob = new Blob([JSON.stringify(buildArchive(history, projects))], { type: 'application/json' });
+  downloadBlob(blob, `aether-backup-${new Date().toISOString().slice(0, 10)}.json`);
+};
+
+// --- Import ---
+export const isChatMessage = (value: any): value is ChatMessage =>
+  value && typeof value.id === 'string' && (value.role === 'user' || value.role === 'ai') && typeof value.text === 'string';
+
+const isProject = (value: any): value is Project =>
+  value && typeof value.id === 'string' && value.id && typeof value.name === 'string' && typeof value.createdAt === 'number';
+
+const isActionItem = (value: any): value is ActionItem =>
+  value && typeof value.id === 'string' && typeof value.text === 'string' && typeof value.done === 'boolean'
+  && ACTION_PRIORITIES.includes(value.priority)
+  && (value.completedAt === undefined || typeof value.completedAt === 'number')
+  && (value.dueDate === undefined || /^\d{4}-\d{2}-\d{2}$/.test(value.dueDate))
+  && (value.notes === undefined || typeof value.notes === 'string');
+
+const isStringList = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(entry => typeof entry === 'string');
+
+// Returns the upgraded item or a list of problems; nothing is written until every item passes.
+const validateArchiveItem = (raw: unknown, index: number): { item?: HistoryItem, problems: string[] } => {
+  const label = `items[${index}]`;
+  if (!raw || typeof raw !== 'object') return { problems: [`${label}: not an object`] };
+
+  let item: HistoryItem;
+  try {
+    item = migrateHistoryItem(raw).item;
+  } catch (e) {
+    return { problems: [`${label}: ${(e as Error).message}`] };
+  }
+
+  const problems: string[] = [];
+  if (typeof item.id !== 'string' || !item.id) problems.push(`${label}.id: missing`);
+  if (isNaN(item.timestamp.getTime())) problems.push(`${label}.timestamp: invalid date`);
+  if (!Array.isArray(item.images) || !item.images.every(src => typeof src === 'string' && src.startsWith('data:'))) {
+    problems.push(`${label}.images: expected data URLs`);
+  }
+  if (!Array.isArray(item.chatHistory) || !item.chatHistory.every(isChatMessage)) {
+    problems.push(`${label}.chatHistory: malformed messages`);
+  }
+  if (item.title !== undefined && typeof item.title !== 'string') problems.push(`${label}.title: expected a string`);
+  if (!isStringList(item.tags)) problems.push(`${label}.tags: expected strings`);
+  if (!isStringList(item.projectIds)) problems.push(`${label}.projectIds: expected strings`);
+  if (typeof item.pinned !== 'boolean') problems.push(`${label}.pinned: expected a boolean`);
+  if (item.deletedAt !== undefined && typeof item.deletedAt !== 'number') problems.push(`${label}.deletedAt: expected a timestamp`);
+  if (!Array.isArray(item.actions) || !item.actions.every(isActionItem)) problems.push(`${label}.actions: malformed tasks`);
+
+  const lens = item.lens === undefined ? undefined : normalizeLens(item.lens);
+  if (item.lens !== undefined && !lens) problems.push(`${label}.lens: malformed`);
+
+  const report = validateAnalysisResult(item.result, item.result?.category);
+  if (!report.result) problems.push(...report.errors.map(error => `${label}.result.${error}`));
+
+  return problems.length > 0 ? { problems } : { item: { ...item, lens, result: report.result! }, problems };
+};
+
+export const parseArchive = (text: string): ParsedArchive => {
+  let archive: any;
+  try {
+    archive = JSON.parse(text);
+  } catch {
+    throw new ArchiveError("File is not valid JSON.");
+  }
+
+  if (archive?.format !== ARCHIVE_FORMAT) throw new ArchiveError("File is not an Aether archive.");
+  if (typeof archive.version !== 'number' || archive.version > ARCHIVE_VERSION) {
+    throw new ArchiveError(`Archive version ${archive.version} is not supported by this app.`);
+  }
+  if (!Array.isArray(archive.items)) throw new ArchiveError("Archive has no items list.");
+  if (archive.projects !== undefined && (!Array.isArray(archive.projects) || !archive.projects.every(isProject))) {
+    throw new ArchiveError("Archive has a malformed projects list.");
+  }
+  const projects: Project[] = archive.projects || [];
+  const projectIds = new Set(projects.map(project => project.id));
+
+  const items: HistoryItem[] = [];
+  const problems: string[] = [];
+  archive.items.forEach((raw: unknown, i: number) => {
+    const outcome = validateArchiveItem(raw, i);
+    if (outcome.item) items.push(outcome.item);
+    problems.push(...outcome.problems);
+  });
+
+  const ids = new Set<string>();
+  items.forEach(item => {
+    if (ids.has(item.id)) problems.push(`Duplicate item id "${item.id}" inside the archive`);
+    ids.add(item.id);
+  });
+
+  if (problems.length > 0) {
+    const more = problems.length > 5 ? ` (+${problems.length - 5} more)` : '';
+    throw new ArchiveError(`Archive failed validation: ${problems.slice(0, 5).join('; ')}${more}`);
+  }
+
+  return {
+    exportedAt: new Date(archive.exportedAt),
+    // Membership in a project the archive doesn't define can't be shown anywhere
+    items: items.map(item => ({ ...item, projectIds: item.projectIds.filter(id => projectIds.has(id)) })),
+    projects,
+    settings: archive.settings && typeof archive.settings === 'object' ? archive.settings : null
+  };
+};
@@ -0,0 +1,89 @@
+import { AnalysisCategory, HistoryItem } from '../types';
+import { createActionItems } from '../utils/actions';
+
+// Bump when the persisted HistoryItem shape changes, and append a migration below.
+//   1 — localStorage era: optional `image` next to `images`, optional chat/consequences
+//   2 — `image` folded into `images`; chatHistory and consequences always present
+//   3 — organization fields: tags, pinned, projectIds (title stays optional)
+//   4 — `actions`: result.actionPlan tracked as tasks
+export const HISTORY_SCHEMA_VERSION = 4;
+
+// Records written before versioning existed are treated as version 1.
+const UNVERSIONED = 1;
+
+export interface VersionedHistoryItem {
+  schemaVersion?: number;
+  [key: string]: unknown;
+}
+
+type Migration = (item: VersionedHistoryItem) => VersionedHistoryItem;
+
+// Old records come from storage and archives as they were written; nested objects are read defensively
+const asObject = (value: unknown): Record<string, unknown> =>
+  value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : {};
+
+// MIGRATIONS[v] upgrades a version-v item to v + 1. Each step only touches what changed.
+const MIGRATIONS: Record<number, Migration> = {
+  1: ({ image, images, chatHistory, result, ...rest }) => {
+    const legacyResult = asObject(result);
+    return {
+      ...rest,
+      images: Array.isArray(images) && images.length > 0 ? images : (image ? [image] : []),
+      chatHistory: chatHistory || [],
+      result: {
+        ...legacyResult,
+        category: legacyResult.category || AnalysisCategory.GENERAL,
+        consequences: legacyResult.consequences || []
+      }
+    };
+  },
+  2: item => ({
+    ...item,
+    tags: item.tags || [],
+    pinned: item.pinned ?? false,
+    projectIds: item.projectIds || []
+  }),
+  3: item => {
+    const actionPlan = asObject(item.result).actionPlan;
+    return {
+      ...item,
+      actions: item.actions || createActionItems(String(item.id), Array.isArray(actionPlan) ? actionPlan.filter((step): step is string => typeof step === 'string') : [])
+    };
+  }
+};
+
+export class HistoryMigrationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'HistoryMigrationError';
+  }
+}
+
+export interface MigrationOutcome {
+  item: HistoryItem;
+  migrated: boolean; // True when the caller should write the upgraded record back
+}
+
+// Runs every migration between the record's version and the current one, in order.
+// Accepts anything read back from storage or an archive; the result's fields are checked by callers.
+export const migrateHistoryItem = (raw: unknown): MigrationOutcome => {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) throw new HistoryMigrationError("History item is not an object");
+  let item = raw as VersionedHistoryItem;
+  let version = item.schemaVersion ?? UNVERSIONED;
+  if (version > HISTORY_SCHEMA_VERSION) {
+    throw new HistoryMigrationError(`History item ${item.id} has schema v${version}, newer than this app (v${HISTORY_SCHEMA_VERSION})`);
+  }
+
+  const migrated = version < HISTORY_SCHEMA_VERSION;
+  for (; version < HISTORY_SCHEMA_VERSION; version++) {
+    const migration = MIGRATIONS[version];
+    if (!migration) throw new HistoryMigrationError(`No migration from history schema v${version}`);
+    item = migration(item);
+  }
+
+  const { schemaVersion, ...current } = item;
+  return {
+    item: { ...current, timestamp: new Date(current.timestamp as string | number) } as HistoryItem,
+    migrated
+  };
+};
@@ -0,0 +1,92 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { AnalysisCategory, HistoryItem, Project } from '../types';
+import { clearHistory, loadHistory, loadProjects, saveHistoryItems } from './historyStore';
+import { updateSettings } from './settingsStore';
+import { historyToStore, isHistoryPersisted, persistHistory, syncStoredHistory } from './historyPersistence';
+
+vi.mock('./historyStore', () => ({
+  clearHistory: vi.fn(() => Promise.resolve()),
+  loadHistory: vi.fn(() => Promise.resolve({ items: [], skipped: [] })),
+  loadProjects: vi.fn(() => Promise.resolve([])),
+  saveHistoryItems: vi.fn(() => Promise.resolve())
+}));
+
+const item = (id: string): HistoryItem => ({
+  id,
+  timestamp: new Date('2025-03-01T10:00:00Z'),
+  result: {
+    category: AnalysisCategory.GENERAL, summary: 'Summary', score: 50, metrics: [], insights: [],
+    actionPlan: [], risks: [], opportunities: [], consequences: []
+  },
+  images: [],
+  chatHistory: [],
+  tags: [],
+  pinned: false,
+  projectIds: [],
+  actions: []
+});
+
+const project: Project = { id: 'p1', name: 'Move', createdAt: 1 };
+
+describe('history persistence', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    updateSettings({ localStorageEnabled: true });
+  });
+
+  it('follows the Local Storage setting', () => {
+    expect(isHistoryPersisted()).toBe(true);
+    updateSettings({ localStorageEnabled: false });
+    expect(isHistoryPersisted()).toBe(false);
+  });
+
+  it('runs writes while history is persisted', async () => {
+    const write = vi.fn(() => Promise.resolve());
+    await expect(persistHistory(write)).resolves.toBe(true);
+    expect(write).toHaveBeenCalledTimes(1);
+  });
+
+  it('skips writes in session-only mode', async () => {
+    updateSettings({ localStorageEnabled: false });
+    const write = vi.fn(() => Promise.resolve());
+    await expect(persistHistory(write)).resolves.toBe(false);
+    expect(write).not.toHaveBeenCalled();
+  });
+
+  it('purges stored history and loads nothing in session-only mode', async () => {
+    updateSettings({ localStorageEnabled: false });
+    await expect(syncStoredHistory([item('1')], [project])).resolves.toBeNull();
+    expect(clearHistory).toHaveBeenCalledTimes(1);
+    expect(saveHistoryItems).not.toHaveBeenCalled();
+    expect(loadHistory).not.toHaveBeenCalled();
+  });
+
+  it('stores the session before reloading once persistence is back on', async () => {
+    const session = [item('1')];
+    const stored = [item('1'), item('0')];
+    vi.mocked(loadHistory).mockResolvedValueOnce({ items: stored, skipped: ['9'] });
+    vi.mocked(loadProjects).mockResolvedValueOnce([project]);
+
+    await expect(syncStoredHistory(session, [project])).resolves.toEqual({ items: stored, projects: [project], skipped: ['9'] });
+    expect(saveHistoryItems).toHaveBeenCalledWith(session, [project]);
+    expect(vi.mocked(saveHistoryItems).mock.invocationCallOrder[0])
+      .toBeLessThan(vi.mocked(loadHistory).mock.invocationCallOrder[0]);
+    expect(clearHistory).not.toHaveBeenCalled();
+  });
+
+  it('loads without writing when there is no session to keep', async () => {
+    await syncStoredHistory([], []);
+    expect(saveHistoryItems).not.toHaveBeenCalled();
+    expect(loadHistory).toHaveBeenCalledTimes(1);
+  });
+
+  it('hands vault transitions the session history to rewrite while persisted', () => {
+    const session = [item('1')];
+    expect(historyToStore(session, [project])).toEqual({ items: session, projects: [project] });
+  });
+
+  it('hands vault transitions nothing to write in session-only mode', () => {
+    updateSettings({ localStorageEnabled: false });
+    expect(historyToStore([item('1')], [project])).toEqual({ items: [], projects: [] });
+  });
+});
@@ -0,0 +1,39 @@
+import { HistoryItem, Project } from '../types';
+import { clearHistory, loadHistory, loadProjects, saveHistoryItems } from './historyStore';
+import { getSettings } from './settingsStore';
+
+// How the "Local Storage" setting applies to history. In session-only mode nothing is
+// written, whatever earlier sessions stored is purged, and analyses live only in memory.
+
+export const isHistoryPersisted = () => getSettings().localStorageEnabled;
+
+// Runs a store write unless the app is session-only. Resolves false when it was skipped.
+export const persistHistory = async (operation: () => Promise<void>): Promise<boolean> => {
+  if (!isHistoryPersisted()) return false;
+  await operation();
+  return true;
+};
+
+// What a full rewrite of the store (the vault transitions) should leave in it. Session-only keeps
+// the store empty, so re-keying or disabling the vault there writes no history.
+export const historyToStore = (items: HistoryItem[], projects: Project[]): { items: HistoryItem[]; projects: Project[] } =>
+  isHistoryPersisted() ? { items, projects } : { items: [], projects: [] };
+
+export interface StoredHistory {
+  items: HistoryItem[];
+  projects: Project[];
+  skipped: string[]; // Records from a newer app version, left in the store unread
+}
+
+// On load, unlock and whenever the setting flips. Session-only purges the store and resolves
+// null (the caller keeps its in-memory session); otherwise anything analysed while
+// session-only is stored first, then the full history is loaded.
+export const syncStoredHistory = async (sessionItems: HistoryItem[], sessionProjects: Project[]): Promise<StoredHistory | null> => {
+  if (!isHistoryPersisted()) {
+    await clearHistory();
+    return null;
+  }
+  if (sessionItems.length > 0 || sessionProjects.length > 0) await saveHistoryItems(sessionItems, sessionProjects);
+  const [{ items, skipped }, projects] = await Promise.all([loadHistory(), loadProjects()]);
+  return { items, projects, skipped };
+};
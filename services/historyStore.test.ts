@@ -0,0 +1,121 @@
+import 'fake-indexeddb/auto';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AnalysisCategory, HistoryItem } from '../types';
+import { HISTORY_SCHEMA_VERSION } from './historyMigrations';
+import { clearHistory, loadHistory, saveHistoryItem, updateHistoryFields } from './historyStore';
+
+const item = (id: string, timestamp: string): HistoryItem => ({
+  id,
+  timestamp: new Date(timestamp),
+  result: {
+    category: AnalysisCategory.GENERAL, summary: `Analysis ${id}`, score: 50, metrics: [], insights: [],
+    actionPlan: [], risks: [], opportunities: [], consequences: []
+  },
+  images: [],
+  chatHistory: [],
+  tags: [],
+  pinned: false,
+  projectIds: [],
+  actions: []
+});
+
+// Writes a record the way another (newer or older) version of the app would
+const putRawRecord = (record: Record<string, unknown>) => new Promise<void>((resolve, reject) => {
+  const request = indexedDB.open('aether');
+  request.onsuccess = () => {
+    const tx = request.result.transaction('history', 'readwrite');
+    tx.objectStore('history').put(record);
+    tx.oncomplete = () => {
+      request.result.close();
+      resolve();
+    };
+    tx.onerror = () => reject(tx.error);
+  };
+  request.onerror = () => reject(request.error);
+});
+
+const getRawRecord = (id: string) => new Promise<unknown>((resolve, reject) => {
+  const request = indexedDB.open('aether');
+  request.onsuccess = () => {
+    const get = request.result.transaction('history', 'readonly').objectStore('history').get(id);
+    get.onsuccess = () => {
+      request.result.close();
+      resolve(get.result);
+    };
+    get.onerror = () => reject(get.error);
+  };
+  request.onerror = () => reject(request.error);
+});
+
+describe('loadHistory', () => {
+  beforeEach(() => clearHistory());
+  afterEach(() => vi.restoreAllMocks());
+
+  it('loads stored items newest first', async () => {
+    await saveHistoryItem(item('old', '2025-01-01T10:00:00Z'));
+    await saveHistoryItem(item('new', '2025-02-01T10:00:00Z'));
+    const { items, skipped } = await loadHistory();
+    expect(items.map(loaded => loaded.id)).toEqual(['new', 'old']);
+    expect(items[0].timestamp).toBeInstanceOf(Date);
+    expect(skipped).toEqual([]);
+  });
+
+  it('skips and reports records from a newer schema instead of failing', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const future = { ...item('future', '2025-03-01T10:00:00Z'), images: undefined, imageIds: [], schemaVersion: HISTORY_SCHEMA_VERSION + 1 };
+    await saveHistoryItem(item('current', '2025-02-01T10:00:00Z'));
+    await putRawRecord(future);
+
+    const { items, skipped } = await loadHistory();
+    expect(items.map(loaded => loaded.id)).toEqual(['current']);
+    expect(skipped).toEqual(['future']);
+    expect(await getRawRecord('future')).toMatchObject({ schemaVersion: HISTORY_SCHEMA_VERSION + 1 });
+  });
+
+  it('upgrades outdated records in place', async () => {
+    vi.spyOn(console, 'info').mockImplementation(() => {});
+    const { tags, pinned, projectIds, actions, images, ...v2 } = item('legacy', '2025-01-01T10:00:00Z');
+    await putRawRecord({ ...v2, imageIds: [], schemaVersion: 2 });
+
+    const { items } = await loadHistory();
+    expect(items[0]).toMatchObject({ id: 'legacy', tags: [], pinned: false, projectIds: [], actions: [] });
+    expect(await getRawRecord('legacy')).toMatchObject({ schemaVersion: HISTORY_SCHEMA_VERSION });
+  });
+
+  it('imports the legacy localStorage list once', async () => {
+    vi.spyOn(console, 'info').mockImplementation(() => {});
+    const { tags, pinned, projectIds, actions, images, ...v1 } = item('legacy', '2024-06-01T10:00:00Z');
+    localStorage.setItem('aether_history', JSON.stringify([{ ...v1, result: { ...v1.result, actionPlan: ['Call the bank'] } }]));
+
+    const { items } = await loadHistory();
+    expect(items[0]).toMatchObject({ id: 'legacy', images: [], actions: [{ text: 'Call the bank', done: false }] });
+    expect(localStorage.getItem('aether_history')).toBeNull();
+  });
+
+  it('leaves legacy history that is not a list in place', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    localStorage.setItem('aether_history', JSON.stringify({ id: 'legacy' }));
+
+    const { items } = await loadHistory();
+    expect(items).toEqual([]);
+    expect(localStorage.getItem('aether_history')).not.toBeNull();
+    localStorage.removeItem('aether_history');
+  });
+});
+
+describe('updateHistoryFields', () => {
+  beforeEach(() => clearHistory());
+
+  it('keeps both of two overlapping patches to one item', async () => {
+    await saveHistoryItem(item('h1', '2025-02-01T10:00:00Z'));
+    const chatHistory = [{ id: 'm1', role: 'user' as const, text: 'What next?' }];
+
+    await Promise.all([
+      updateHistoryFields('h1', { chatHistory }),
+      updateHistoryFields('h1', { pinned: true, tags: ['budget'] })
+    ]);
+
+    const { items } = await loadHistory();
+    expect(items[0]).toMatchObject({ chatHistory, pinned: true, tags: ['budget'] });
+  });
+});
@@ -0,0 +1,377 @@
+import { ChatMessage, HistoryItem, Project } from '../types';
+import { dataUrlToBlob, readAsDataUrl } from '../utils/imageUtils';
+import { HISTORY_SCHEMA_VERSION, HistoryMigrationError, migrateHistoryItem } from './historyMigrations';
+import { resealApiKey } from './apiKeyStore';
+import {
+  SealedPayload, VaultError, commitVault, getAutoLockMinutes, getReadKey, getWriteKey,
+  openBytes, openJson, prepareVault, sealBytes, sealJson, verifyPassphrase
+} from './vault';
+
+// IndexedDB-backed history. Results and chats live in one store; images are kept
+// as Blobs in a second store so a single item can be written without rewriting the rest.
+// Projects get a small third store; items reference them by id.
+const DB_NAME = 'aether';
+const DB_VERSION = 2;
+const ITEM_STORE = 'history';
+const IMAGE_STORE = 'images';
+const PROJECT_STORE = 'projects';
+
+// Pre-IndexedDB history lived here as one JSON array
+const LEGACY_HISTORY_KEY = 'aether_history';
+
+export type StorageErrorKind = 'quota' | 'unavailable' | 'locked' | 'newer' | 'unknown';
+
+export const STORAGE_ERROR_MESSAGES: Record<StorageErrorKind, string> = {
+  quota: "Browser storage is full. Delete old analyses or export them to free space.",
+  unavailable: "Browser storage is unavailable (private mode?). History will not be saved.",
+  locked: "History is locked. Unlock the vault to load or save analyses.",
+  newer: "Some analyses were saved by a newer version of the app and are hidden. Reload to update.",
+  unknown: "Could not save history to browser storage."
+};
+
+export class StorageError extends Error {
+  readonly kind: StorageErrorKind;
+
+  constructor(kind: StorageErrorKind, detail?: string, cause?: unknown) {
+    super(detail || STORAGE_ERROR_MESSAGES[kind], { cause });
+    this.name = 'StorageError';
+    this.kind = kind;
+  }
+
+  get userMessage(): string {
+    return STORAGE_ERROR_MESSAGES[this.kind];
+  }
+}
+
+export const toStorageError = (error: unknown): StorageError => {
+  if (error instanceof StorageError) return error;
+  if (error instanceof VaultError && error.kind === 'locked') return new StorageError('locked', error.message, error);
+  const name = error instanceof DOMException ? error.name : '';
+  const message = error instanceof Error ? error.message : String(error);
+  if (name === 'QuotaExceededError' || /quota/i.test(message)) return new StorageError('quota', message, error);
+  if (name === 'InvalidStateError' || name === 'SecurityError') return new StorageError('unavailable', message, error);
+  return new StorageError('unknown', message, error);
+};
+
+// --- Records ---
+// Everything except images, which live in their own store and are referenced by id.
+type HistoryRecord = Omit<HistoryItem, 'images'> & {
+  schemaVersion: number;
+  imageIds: string[];
+};
+
+interface ImageRecord {
+  id: string;
+  blob: Blob;
+}
+
+// Vault mode: everything but the key path is sealed. Plain and sealed rows can coexist
+// (e.g. legacy rows migrated before the vault was enabled); reads handle both.
+interface SealedRecord {
+  id: string;
+  sealed: SealedPayload;
+}
+
+interface SealedImageRecord extends SealedRecord {
+  type: string; // Blob MIME type, needed to rebuild the data URL
+}
+
+type StoredRecord = HistoryRecord | SealedRecord;
+type StoredImage = ImageRecord | SealedImageRecord;
+type StoredProject = Project | SealedRecord;
+
+// --- Database Access ---
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') return reject(new StorageError('unavailable'));
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(ITEM_STORE)) db.createObjectStore(ITEM_STORE, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(IMAGE_STORE)) db.createObjectStore(IMAGE_STORE, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(PROJECT_STORE)) db.createObjectStore(PROJECT_STORE, { keyPath: 'id' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(toStorageError(request.error));
+    }).catch(error => {
+      dbPromise = null; // Allow a later retry
+      throw error;
+    });
+  }
+  return dbPromise;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(toStorageError(request.error));
+  });
+
+// Requests must be issued synchronously inside `work`; the transaction commits once they settle.
+const writeTransaction = async (storeNames: string[], work: (tx: IDBTransaction) => void): Promise<void> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeNames, 'readwrite');
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(toStorageError(tx.error));
+    tx.onabort = () => reject(toStorageError(tx.error));
+    work(tx);
+  });
+};
+
+const imageIdFor = (itemId: string, index: number) => `${itemId}:${index}`;
+
+const toRecord = ({ images, ...item }: HistoryItem, imageIds: string[]): HistoryRecord => ({
+  ...item,
+  schemaVersion: HISTORY_SCHEMA_VERSION,
+  imageIds
+});
+
+// --- Vault Codec ---
+const sealRecord = async (record: HistoryRecord, key: CryptoKey | null): Promise<StoredRecord> =>
+  key ? { id: record.id, sealed: await sealJson(key, record) } : record;
+
+const openRecord = async (stored: StoredRecord): Promise<HistoryRecord> =>
+  'sealed' in stored ? openJson<HistoryRecord>(getReadKey(), stored.sealed) : stored;
+
+const sealProject = async (project: Project, key: CryptoKey | null): Promise<StoredProject> =>
+  key ? { id: project.id, sealed: await sealJson(key, project) } : project;
+
+const openProject = async (stored: StoredProject): Promise<Project> =>
+  'sealed' in stored ? openJson<Project>(getReadKey(), stored.sealed) : stored;
+
+const sealImage = async (image: ImageRecord, key: CryptoKey | null): Promise<StoredImage> =>
+  key
+    ? { id: image.id, type: image.blob.type, sealed: await sealBytes(key, await image.blob.arrayBuffer()) }
+    : image;
+
+const openImage = async (stored: StoredImage): Promise<Blob> =>
+  'sealed' in stored
+    ? new Blob([await openBytes(getReadKey(), stored.sealed)], { type: stored.type })
+    : stored.blob;
+
+// --- Public API ---
+
+// Full write: the item record plus its images. `replace` wipes both stores in the same transaction.
+// `key` defaults to the unlocked vault key (or null for plaintext when no vault is set up).
+// When `projects` is given the project store is written (and, with `replace`, swapped) too.
+const writeItems = async (items: HistoryItem[], replace: boolean, key = getWriteKey(), projects?: Project[]): Promise<void> => {
+  // Decode and encrypt before the transaction opens; async work inside it would auto-commit.
+  const prepared = await Promise.all(items.map(async item => {
+    const images = item.images.filter(src => src.startsWith('data:'));
+    const record = toRecord(item, images.map((_, i) => imageIdFor(item.id, i)));
+    return {
+      record: await sealRecord(record, key),
+      images: await Promise.all(images.map((src, i) => sealImage({ id: record.imageIds[i], blob: dataUrlToBlob(src) }, key)))
+    };
+  }));
+  const preparedProjects = projects && await Promise.all(projects.map(project => sealProject(project, key)));
+
+  await writeTransaction([ITEM_STORE, IMAGE_STORE, PROJECT_STORE], tx => {
+    const itemStore = tx.objectStore(ITEM_STORE);
+    const imageStore = tx.objectStore(IMAGE_STORE);
+    if (replace) {
+      itemStore.clear();
+      imageStore.clear();
+    }
+    prepared.forEach(({ record, images }) => {
+      itemStore.put(record);
+      images.forEach(image => imageStore.put(image));
+    });
+    if (preparedProjects) {
+      const projectStore = tx.objectStore(PROJECT_STORE);
+      if (replace) projectStore.clear();
+      preparedProjects.forEach(project => projectStore.put(project));
+    }
+  });
+};
+
+export const saveHistoryItems = (items: HistoryItem[], projects?: Project[]) => writeItems(items, false, undefined, projects);
+
+export const saveHistoryItem = (item: HistoryItem) => writeItems([item], false);
+
+// Atomic swap used by archive import: either the whole archive lands or nothing changes.
+export const replaceHistory = (items: HistoryItem[], projects: Project[]) => writeItems(items, true, undefined, projects);
+
+// Fields that can change after an item is saved. Images never do, so they aren't rewritten.
+export type HistoryItemPatch = Partial<Pick<HistoryItem, 'chatHistory' | 'title' | 'tags' | 'pinned' | 'projectIds' | 'deletedAt' | 'actions'>>;
+
+// Record-only write; images are left untouched.
+const writeHistoryFields = async (id: string, patch: HistoryItemPatch): Promise<void> => {
+  const key = getWriteKey();
+  const db = await openDatabase();
+  const stored = await requestToPromise<StoredRecord | undefined>(
+    db.transaction(ITEM_STORE, 'readonly').objectStore(ITEM_STORE).get(id)
+  );
+  if (!stored) return;
+  const record = await sealRecord({ ...(await openRecord(stored)), ...patch }, key);
+  await writeTransaction([ITEM_STORE], tx => {
+    tx.objectStore(ITEM_STORE).put(record);
+  });
+};
+
+// Latest pending patch per id. The read and the write above can't share a transaction (sealing
+// is async), so overlapping patches to one record would drop each other's fields; they queue instead.
+const pendingUpdates = new Map<string, Promise<void>>();
+
+export const updateHistoryFields = (id: string, patch: HistoryItemPatch): Promise<void> => {
+  const previous = pendingUpdates.get(id) || Promise.resolve();
+  // A failed patch is reported to its own caller and doesn't block the next one
+  const update = previous.catch(() => {}).then(() => writeHistoryFields(id, patch));
+  pendingUpdates.set(id, update);
+  update.catch(() => {}).finally(() => {
+    if (pendingUpdates.get(id) === update) pendingUpdates.delete(id);
+  });
+  return update;
+};
+
+export const updateChatHistory = (id: string, chatHistory: ChatMessage[]) => updateHistoryFields(id, { chatHistory });
+
+// Permanent delete, used when the trash is emptied or purged. Image ids are `${itemId}:${index}`,
+// so a key range removes an item's images without reading its record first.
+export const deleteHistoryItems = (ids: string[]): Promise<void> =>
+  writeTransaction([ITEM_STORE, IMAGE_STORE], tx => {
+    const itemStore = tx.objectStore(ITEM_STORE);
+    const imageStore = tx.objectStore(IMAGE_STORE);
+    ids.forEach(id => {
+      itemStore.delete(id);
+      imageStore.delete(IDBKeyRange.bound(`${id}:`, `${id}:\uffff`));
+    });
+  });
+
+export const clearHistory = async (): Promise<void> => {
+  await writeTransaction([ITEM_STORE, IMAGE_STORE, PROJECT_STORE], tx => {
+    tx.objectStore(ITEM_STORE).clear();
+    tx.objectStore(IMAGE_STORE).clear();
+    tx.objectStore(PROJECT_STORE).clear();
+  });
+  localStorage.removeItem(LEGACY_HISTORY_KEY);
+};
+
+// --- Projects ---
+export const saveProject = async (project: Project): Promise<void> => {
+  const record = await sealProject(project, getWriteKey());
+  await writeTransaction([PROJECT_STORE], tx => {
+    tx.objectStore(PROJECT_STORE).put(record);
+  });
+};
+
+// Members keep their other projects; the caller strips the id from their projectIds.
+export const deleteProject = (id: string): Promise<void> =>
+  writeTransaction([PROJECT_STORE], tx => {
+    tx.objectStore(PROJECT_STORE).delete(id);
+  });
+
+// Oldest first, matching creation order in the sidebar.
+export const loadProjects = async (): Promise<Project[]> => {
+  const db = await openDatabase();
+  const stored = await requestToPromise<StoredProject[]>(
+    db.transaction(PROJECT_STORE, 'readonly').objectStore(PROJECT_STORE).getAll()
+  );
+  const projects = await Promise.all(stored.map(openProject));
+  return projects.sort((a, b) => a.createdAt - b.createdAt);
+};
+
+// One-time import of the old localStorage array. The key is only removed once the write succeeds.
+const migrateLegacyHistory = async (): Promise<void> => {
+  const saved = localStorage.getItem(LEGACY_HISTORY_KEY);
+  if (!saved) return;
+
+  let legacy: HistoryItem[];
+  try {
+    const parsed: unknown = JSON.parse(saved);
+    if (!Array.isArray(parsed)) throw new HistoryMigrationError("Legacy history is not a list");
+    legacy = parsed.map(item => migrateHistoryItem(item).item);
+  } catch (e) {
+    console.error("Legacy history is corrupt, leaving it in place:", e);
+    return;
+  }
+
+  await saveHistoryItems(legacy);
+  localStorage.removeItem(LEGACY_HISTORY_KEY);
+  console.info(`Migrated ${legacy.length} history items from localStorage to IndexedDB`);
+};
+
+export interface LoadedHistory {
+  items: HistoryItem[];
+  skipped: string[]; // Ids of records this version cannot read; they stay stored untouched
+}
+
+// Newest first, with images rehydrated as data URLs for <img> and the PDF exporter.
+// Outdated records are migrated and written back so each upgrade runs only once. A record
+// from a newer schema (e.g. written by an updated tab) is skipped rather than failing the load.
+export const loadHistory = async (): Promise<LoadedHistory> => {
+  await migrateLegacyHistory();
+
+  const db = await openDatabase();
+  const tx = db.transaction([ITEM_STORE, IMAGE_STORE], 'readonly');
+  const [storedRecords, storedImages] = await Promise.all([
+    requestToPromise<StoredRecord[]>(tx.objectStore(ITEM_STORE).getAll()),
+    requestToPromise<StoredImage[]>(tx.objectStore(IMAGE_STORE).getAll())
+  ]);
+
+  const blobsById = new Map(await Promise.all(
+    storedImages.map(async image => [image.id, await openImage(image)] as const)
+  ));
+  const upgraded: HistoryRecord[] = [];
+  const skipped: string[] = [];
+  const loaded = await Promise.all(storedRecords.map(async (storedRecord): Promise<HistoryItem | null> => {
+    const { imageIds, ...stored } = await openRecord(storedRecord);
+    const images = await Promise.all(
+      imageIds.filter(id => blobsById.has(id)).map(id => readAsDataUrl(blobsById.get(id)!))
+    );
+    try {
+      const { item, migrated } = migrateHistoryItem({ ...stored, images });
+      if (migrated) upgraded.push(toRecord(item, imageIds));
+      return item;
+    } catch (e) {
+      if (!(e instanceof HistoryMigrationError)) throw e;
+      console.warn("Skipping unreadable history item:", e.message);
+      skipped.push(storedRecord.id);
+      return null;
+    }
+  }));
+  const items = loaded.filter((item): item is HistoryItem => item !== null);
+
+  if (upgraded.length > 0) {
+    const key = getWriteKey();
+    const sealed = await Promise.all(upgraded.map(record => sealRecord(record, key)));
+    await writeTransaction([ITEM_STORE], tx => {
+      const itemStore = tx.objectStore(ITEM_STORE);
+      sealed.forEach(record => itemStore.put(record));
+    });
+    console.info(`Upgraded ${upgraded.length} history items to schema v${HISTORY_SCHEMA_VERSION}`);
+  }
+
+  return { items: items.sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime()), skipped };
+};
+
+// --- Vault Transitions ---
+// Each rewrites the full history with the new key first and commits vault metadata only
+// after the transaction succeeds, so a failure leaves the old key and data intact.
+
+export const enableVault = async (items: HistoryItem[], projects: Project[], passphrase: string): Promise<void> => {
+  const prepared = await prepareVault(passphrase);
+  await writeItems(items, true, prepared.key, projects);
+  await resealApiKey(prepared.key);
+  commitVault(prepared);
+};
+
+export const changeVaultPassphrase = async (items: HistoryItem[], projects: Project[], current: string, next: string): Promise<void> => {
+  await verifyPassphrase(current);
+  const prepared = await prepareVault(next, getAutoLockMinutes());
+  await writeItems(items, true, prepared.key, projects);
+  await resealApiKey(prepared.key);
+  commitVault(prepared);
+};
+
+export const disableVault = async (items: HistoryItem[], projects: Project[], passphrase: string): Promise<void> => {
+  await verifyPassphrase(passphrase);
+  await writeItems(items, true, null, projects);
+  await resealApiKey(null);
+  commitVault(null);
+};
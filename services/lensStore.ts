@@ -0,0 +1,96 @@
+import { useSyncExternalStore } from 'react';
+import { AnalysisCategory, AnalysisLens, LensMetric } from '../types';
+
+// Saved analysis lenses. Like settings they are configuration rather than history,
+// so they live in localStorage and are never encrypted or purged.
+const LENSES_KEY = 'aether_lenses';
+
+// Offered when no lenses exist yet, as a starting point for the editor
+export const LENS_TEMPLATES: Omit<AnalysisLens, 'id'>[] = [
+  {
+    name: 'Landlord Inspection',
+    instruction: "Analyze as a landlord's move-in/move-out inspection. Note damage beyond normal wear and tear, cleanliness, safety issues and likely repair costs. Be neutral and factual; this may be shared with the tenant.",
+    category: AnalysisCategory.ROOM,
+    metrics: [{ label: 'Estimated Repair Cost', unit: 'USD' }, { label: 'Items Needing Repair' }],
+    rubric: "100 = move-in ready, no deductions. Subtract 5 per minor issue, 15 per damage item beyond normal wear, 30 per safety hazard."
+  },
+  {
+    name: 'Expense Policy Check',
+    instruction: "Review the spending against a company expense policy: meals up to $75 per day, lodging up to $250 per night, no alcohol, receipts required over $25. List every violation.",
+    category: AnalysisCategory.FINANCE,
+    metrics: [{ label: 'Policy Violations' }, { label: 'Non-compliant Amount', unit: 'USD' }],
+    rubric: "100 = fully compliant. Subtract 10 per violation and 1 per $10 of non-compliant spend."
+  }
+];
+
+const isCategory = (value: unknown): value is AnalysisCategory =>
+  Object.values(AnalysisCategory).includes(value as AnalysisCategory);
+
+const normalizeMetric = (raw: any): LensMetric | null => {
+  if (!raw || typeof raw.label !== 'string' || !raw.label.trim()) return null;
+  return typeof raw.unit === 'string' && raw.unit.trim()
+    ? { label: raw.label.trim(), unit: raw.unit.trim() }
+    : { label: raw.label.trim() };
+};
+
+// Shared by storage and archive validation; returns null for anything unusable.
+export const normalizeLens = (raw: any): AnalysisLens | null => {
+  if (!raw || typeof raw !== 'object') return null;
+  if (typeof raw.id !== 'string' || !raw.id || typeof raw.name !== 'string' || !raw.name.trim()) return null;
+
+  const lens: AnalysisLens = {
+    id: raw.id,
+    name: raw.name.trim(),
+    instruction: typeof raw.instruction === 'string' ? raw.instruction.trim() : '',
+    metrics: Array.isArray(raw.metrics) ? raw.metrics.map(normalizeMetric).filter(Boolean) : []
+  };
+  if (isCategory(raw.category)) lens.category = raw.category;
+  if (typeof raw.rubric === 'string' && raw.rubric.trim()) lens.rubric = raw.rubric.trim();
+  return lens;
+};
+
+const loadLenses = (): AnalysisLens[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(LENSES_KEY) || '[]');
+    return Array.isArray(saved) ? saved.map(normalizeLens).filter(Boolean) : [];
+  } catch (e) {
+    console.error("Failed to load lenses", e);
+    return [];
+  }
+};
+
+let currentLenses = loadLenses();
+const listeners = new Set<() => void>();
+
+const commit = (lenses: AnalysisLens[]) => {
+  currentLenses = lenses;
+  try {
+    localStorage.setItem(LENSES_KEY, JSON.stringify(lenses));
+  } catch (e) {
+    console.error("Failed to save lenses", e);
+  }
+  listeners.forEach(listener => listener());
+};
+
+export const getLenses = (): AnalysisLens[] => currentLenses;
+
+// Inserts a new lens or replaces the one with the same id.
+export const saveLens = (lens: AnalysisLens) => {
+  const normalized = normalizeLens(lens);
+  if (!normalized) throw new Error("A lens needs a name.");
+  const exists = currentLenses.some(l => l.id === normalized.id);
+  commit(exists ? currentLenses.map(l => l.id === normalized.id ? normalized : l) : [...currentLenses, normalized]);
+};
+
+export const deleteLens = (id: string) => {
+  commit(currentLenses.filter(lens => lens.id !== id));
+};
+
+export const subscribeLenses = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const useLenses = (): AnalysisLens[] => useSyncExternalStore(subscribeLenses, getLenses);
@@ -0,0 +1,284 @@
+import { FinishReason, GenerateContentParameters, GenerateContentResponse, GoogleGenAI } from "@google/genai";
+import { AnalysisResult, AnalysisCategory, AnalysisLens, ChatMessage, InputItem } from '../../types';
+import { AnalysisProvider, AnalyzeOptions, RequestOptions } from '../analysisProvider';
+import { AnalysisError } from '../analysisErrors';
+import { CATEGORY_SPECIALISTS, buildLensInstruction, buildSpecialistSchema, classificationSchema } from '../categorySpecialists';
+import { getApiKey } from '../apiKeyStore';
+import { getSettings } from '../settingsStore';
+import { getDataUrlMimeType } from '../../utils/imageUtils';
+
+// Gemini Client (created lazily so the app can boot without a key, and rebuilt when the key changes in Settings)
+let client: GoogleGenAI | null = null;
+let clientKey: string | null = null;
+const getClient = (): GoogleGenAI => {
+  const apiKey = getApiKey();
+  if (!client || clientKey !== apiKey) {
+    client = new GoogleGenAI({ apiKey });
+    clientKey = apiKey;
+  }
+  return client;
+};
+
+// Cheap credential check for Settings: fetching model metadata fails fast on a bad key or unknown model.
+export const testGeminiConnection = async (apiKey: string, model: string): Promise<void> => {
+  await new GoogleGenAI({ apiKey }).models.get({ model });
+};
+
+const SAFETY_FINISH_REASONS: (FinishReason | undefined)[] = [
+  FinishReason.SAFETY, FinishReason.BLOCKLIST, FinishReason.PROHIBITED_CONTENT, FinishReason.SPII
+];
+
+// Gemini reports safety blocks in-band rather than as HTTP errors
+const assertNotBlocked = (response: GenerateContentResponse) => {
+  const blockReason = response.promptFeedback?.blockReason;
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (blockReason || SAFETY_FINISH_REASONS.includes(finishReason)) {
+    throw new AnalysisError('safety', `Blocked by Gemini: ${blockReason || finishReason}`);
+  }
+};
+
+const SYSTEM_INSTRUCTION = `
+You are "AETHER ANALYTICA", a hyper-advanced multimodal world insight engine.
+
+**NEW CAPABILITIES ENABLED:**
+1. **REALITY MERGE ENGINE**: The user may provide MULTIPLE inputs (e.g., a photo of a room + a voice note about goals + a text list of budget). You must FUSE these into a single, holistic understanding. Find connections between the visual, audio, and text data.
+   Documents (bank statements, syllabi, schedules) arrive as text prefixed with [DOCUMENT: name (kind)]; tabular files are tab-separated with a header row.
+2. **CONSEQUENCE SIMULATION**: You must predict the *future impact* of the current state. "If this continues, what happens?"
+
+**CORE ENGINES TO EXECUTE:**
+
+1. **CLASSIFICATION**: Detect category (ROOM, FOOD, FINANCE, SCHEDULE, GOAL, MAP, LEARNING, PROBLEM, GENERAL).
+2. **DEEP INSIGHT**: Analyze *why* the situation exists.
+3. **CONSEQUENCE MODELING**:
+   - Analyze specific consequences in 5 domains: LIFESTYLE, FINANCIAL, EMOTIONAL, TIME, HEALTH.
+   - Assign severity (low/medium/high) and timeframe (immediate/short_term/long_term).
+   - List 2-5 'predictions', each rated Low/Medium/High for likelihood and impact.
+   - Quantify the main breakdown as 'chartData' (numeric values only).
+4. **KNOWLEDGE GRAPH**: Extract entities and relationships.
+5. **MERGE CONNECTIONS**: Identify cross-modal connections if multiple inputs exist.
+
+**OUTPUT SCHEMA RULES:**
+- Return valid JSON matching the schema.
+- 'isMergedReality' should be true if multiple input types were provided.
+- Be precise, professional, and insightful.
+`;
+
+// Convert staged inputs into Gemini content parts (shared by every stage)
+const buildInputParts = (inputs: InputItem[]): any[] => {
+  const parts: any[] = [];
+
+  inputs.forEach(input => {
+    if (input.type === 'text') {
+      parts.push({ text: input.content });
+    } else if (input.type === 'image') {
+      const cleanBase64 = input.content.split(',')[1] || input.content;
+      parts.push({
+        inlineData: {
+          mimeType: input.mimeType || getDataUrlMimeType(input.content) || "image/jpeg",
+          data: cleanBase64
+        }
+      });
+    } else if (input.type === 'audio') {
+      const cleanAudio = input.content.split(',')[1] || input.content;
+      parts.push({
+         inlineData: {
+             mimeType: input.mimeType || getDataUrlMimeType(input.content) || "audio/wav",
+             data: cleanAudio
+         }
+      });
+    } else if (input.type === 'document') {
+      parts.push({ text: `[DOCUMENT: ${input.fileName || 'untitled'} (${input.documentKind || 'text'})]\n${input.content}` });
+      // Scanned pages have no text layer, so the model reads them as images
+      input.pageImages?.forEach(page => {
+        parts.push({
+          inlineData: {
+            mimeType: "image/jpeg",
+            data: page.split(',')[1] || page
+          }
+        });
+      });
+    }
+  });
+
+  if (parts.length === 0) throw new Error("No input provided");
+  return parts;
+};
+
+// Stage 2 prompt: the core instruction narrowed by the confirmed category's specialist brief,
+// then the user's lens (which takes precedence where they conflict)
+const buildSystemInstruction = (category?: AnalysisCategory, lens?: AnalysisLens): string => {
+  let instruction = SYSTEM_INSTRUCTION;
+  if (category) {
+    instruction += `
+**SPECIALIST MODE: ${category}**
+The category has already been confirmed as ${category}; set 'category' to ${category}.
+${CATEGORY_SPECIALISTS[category].instruction}
+`;
+  }
+  if (lens) instruction += `\n${buildLensInstruction(lens)}\n`;
+  return instruction;
+};
+
+// Shared by the one-shot and streaming calls
+const buildAnalysisRequest = (
+  inputs: InputItem[],
+  options: AnalyzeOptions
+): GenerateContentParameters => {
+  
+  const { model, temperature, maxOutputTokens } = getSettings().analysisModel;
+  
+  const parts = buildInputParts(inputs);
+
+  // Re-prompt: tell the model exactly what was wrong with its last answer
+  if (options.validationErrors && options.validationErrors.length > 0) {
+    parts.push({
+      text: `Your previous response failed validation:\n- ${options.validationErrors.join('\n- ')}\nReturn a corrected JSON object that satisfies the schema.`
+    });
+  }
+
+  return {
+    model: model,
+    contents: { role: 'user', parts: parts },
+    config: {
+      systemInstruction: buildSystemInstruction(options.category, options.lens),
+      responseMimeType: "application/json",
+      responseSchema: buildSpecialistSchema(options.category, options.lens),
+      temperature,
+      maxOutputTokens,
+      abortSignal: options.signal
+    }
+  };
+};
+
+const analyzeLifeInput = async (
+  inputs: InputItem[],
+  options: AnalyzeOptions = {}
+): Promise<unknown> => {
+  const request = buildAnalysisRequest(inputs, options);
+
+  try {
+    const response = await getClient().models.generateContent(request);
+    assertNotBlocked(response);
+
+    const text = response.text;
+    if (!text) throw new AnalysisError('malformed', "No response from Gemini");
+
+    // Hand malformed JSON back as raw text so the validator can trigger a re-prompt
+    try {
+      return JSON.parse(text);
+    } catch {
+      return text;
+    }
+
+  } catch (error) {
+    console.error("Gemini Analysis Error:", error);
+    throw error;
+  }
+};
+
+const CLASSIFY_INSTRUCTION = `
+Classify the user's inputs into exactly one category: ROOM, FOOD, FINANCE, SCHEDULE, GOAL, MAP, LEARNING, PROBLEM or GENERAL.
+If multiple inputs are provided, choose the category that best describes them together.
+`;
+
+const classifyInputs = async (
+  inputs: InputItem[],
+  options: RequestOptions = {}
+): Promise<unknown> => {
+  try {
+    const response = await getClient().models.generateContent({
+      model: getSettings().analysisModel.model,
+      contents: { role: 'user', parts: buildInputParts(inputs) },
+      config: {
+        systemInstruction: CLASSIFY_INSTRUCTION,
+        responseMimeType: "application/json",
+        responseSchema: classificationSchema,
+        temperature: 0,
+        abortSignal: options.signal
+      }
+    });
+    assertNotBlocked(response);
+
+    if (!response.text) throw new AnalysisError('malformed', "No classification from Gemini");
+    return JSON.parse(response.text);
+  } catch (error) {
+    console.error("Gemini Classification Error:", error);
+    throw error;
+  }
+};
+
+async function* streamLifeInput(
+  inputs: InputItem[],
+  options: AnalyzeOptions = {}
+): AsyncGenerator<string> {
+  const request = buildAnalysisRequest(inputs, options);
+
+  try {
+    const stream = await getClient().models.generateContentStream(request);
+    for await (const chunk of stream) {
+      assertNotBlocked(chunk);
+      if (chunk.text) yield chunk.text;
+    }
+  } catch (error) {
+    console.error("Gemini Stream Error:", error);
+    throw error;
+  }
+}
+
+const chatWithAnalysis = async (
+  currentMessage: string,
+  history: ChatMessage[],
+  analysisContext: AnalysisResult,
+  options: RequestOptions = {}
+): Promise<string> => {
+  const { model, temperature, maxOutputTokens } = getSettings().chatModel;
+
+  // Construct context prompt
+  const contextPrompt = `
+    You are Aether Assistant. You are chatting with the user about a specific analysis you just performed.
+    
+    ANALYSIS CONTEXT:
+    Category: ${analysisContext.category}
+    Summary: ${analysisContext.summary}
+    Key Insights: ${analysisContext.insights.join(', ')}
+    Action Plan: ${analysisContext.actionPlan.join(', ')}
+    
+    USER QUESTION: ${currentMessage}
+    
+    Respond helpfully, concisely, and specifically based on the context above. 
+    If asked for calculations, costs, or locations, provide realistic estimates.
+  `;
+
+  // Build simplistic history for context (last 5 messages)
+  const previousMessages = history.slice(-5).map(msg => ({
+    role: msg.role === 'ai' ? 'model' : 'user',
+    parts: [{ text: msg.text }]
+  }));
+
+  try {
+    const response = await getClient().models.generateContent({
+      model: model,
+      contents: [
+        ...previousMessages,
+        { role: 'user', parts: [{ text: contextPrompt }] }
+      ],
+      config: { temperature, maxOutputTokens, abortSignal: options.signal }
+    });
+    assertNotBlocked(response);
+
+    if (!response.text) throw new AnalysisError('malformed', "Empty chat response from Gemini");
+    return response.text;
+  } catch (error) {
+    console.error("Chat Error:", error);
+    throw error;
+  }
+};
+
+export const geminiProvider: AnalysisProvider = {
+  id: 'gemini',
+  label: 'Gemini',
+  analyze: analyzeLifeInput,
+  analyzeStream: streamLifeInput,
+  classify: classifyInputs,
+  chat: chatWithAnalysis
+};
@@ -0,0 +1,358 @@
+import { AnalysisResult, AnalysisCategory } from '../../types';
+
+// Canned, schema-complete analyses used by the offline provider.
+// Every fixture fills all optional sections so each dashboard tab has data.
+export const ANALYSIS_FIXTURES: Record<string, AnalysisResult> = {
+  [AnalysisCategory.ROOM]: {
+    category: AnalysisCategory.ROOM,
+    summary: "The room is functional but cluttered: surfaces near the desk are covered, cables are loose and natural light is partly blocked. Small layout changes would noticeably improve focus and tidiness.",
+    score: 62,
+    metrics: [
+      { label: "Clutter Density", value: "High", color: "#ef4444" },
+      { label: "Free Floor Area", value: 38, unit: "%" },
+      { label: "Natural Light", value: "Partial" },
+      { label: "Est. Tidy-up Time", value: 45, unit: "min" }
+    ],
+    insights: [
+      "Most clutter is concentrated within arm's reach of the desk, suggesting items are put down rather than put away.",
+      "The window is partly blocked by furniture, reducing daylight at the main work surface.",
+      "Loose cables create both a visual distraction and a trip hazard."
+    ],
+    actionPlan: [
+      "Clear the desk surface and keep only daily-use items",
+      "Move the shelf 50 cm away from the window",
+      "Bundle cables with two velcro ties",
+      "Add a single drop-box for incoming papers"
+    ],
+    risks: ["Trip hazard from floor cables", "Reduced focus from visual clutter"],
+    opportunities: ["Reclaim desk space for a second monitor", "Brighter workspace with zero spending"],
+    consequences: [
+      { domain: 'TIME', prediction: "Roughly 10 minutes a day lost searching for items on the desk.", severity: 'medium', timeframe: 'immediate' },
+      { domain: 'EMOTIONAL', prediction: "Persistent clutter raises background stress when working from home.", severity: 'medium', timeframe: 'short_term' },
+      { domain: 'HEALTH', prediction: "Dim lighting contributes to eye strain over long sessions.", severity: 'low', timeframe: 'long_term' }
+    ],
+    chartData: [
+      { name: "Desk", value: 80 },
+      { name: "Floor", value: 45 },
+      { name: "Shelves", value: 30 },
+      { name: "Bed", value: 20 }
+    ],
+    predictions: [
+      { outcome: "Workspace stays cluttered without a daily reset habit", likelihood: "High", impact: "Medium", timeframe: "1 month" },
+      { outcome: "Productivity improves after a one-off reorganisation", likelihood: "Medium", impact: "High", timeframe: "1 week" }
+    ],
+    causeEffectChain: [
+      { step: "No fixed place for items", description: "Objects land on the nearest free surface." },
+      { step: "Desk fills up", description: "Usable work area shrinks day by day." },
+      { step: "Focus drops", description: "Visual noise competes for attention while working." }
+    ],
+    knowledgeGraph: {
+      nodes: [
+        { id: "desk", label: "Desk", type: 'entity' },
+        { id: "cables", label: "Cables", type: 'entity' },
+        { id: "clear", label: "Clear Desk", type: 'action' },
+        { id: "bundle", label: "Bundle Cables", type: 'action' },
+        { id: "trip", label: "Trip Hazard", type: 'risk' },
+        { id: "focus", label: "Better Focus", type: 'outcome' }
+      ],
+      edges: [
+        { from: "desk", to: "clear", label: "needs" },
+        { from: "cables", to: "bundle", label: "needs" },
+        { from: "cables", to: "trip", label: "causes" },
+        { from: "clear", to: "focus", label: "leads to" }
+      ]
+    }
+  },
+
+  [AnalysisCategory.FOOD]: {
+    category: AnalysisCategory.FOOD,
+    summary: "The meal is satisfying but heavy on refined carbohydrates and light on vegetables and protein. A couple of swaps would balance it without losing the comfort factor.",
+    score: 58,
+    metrics: [
+      { label: "Est. Calories", value: 820, unit: "kcal" },
+      { label: "Protein", value: 18, unit: "g" },
+      { label: "Fibre", value: 4, unit: "g" },
+      { label: "Vegetable Share", value: 10, unit: "%" }
+    ],
+    insights: [
+      "Carbohydrates make up most of the plate, which explains the afternoon energy dip.",
+      "Protein is below what keeps you full until the next meal.",
+      "Sauces add a large share of hidden sugar and salt."
+    ],
+    actionPlan: [
+      "Replace half of the pasta with a side salad",
+      "Add a palm-sized protein portion",
+      "Serve sauce on the side"
+    ],
+    risks: ["Energy crash within two hours", "High sodium intake"],
+    opportunities: ["Easy swap to wholegrain pasta", "Batch-cook vegetables for the week"],
+    consequences: [
+      { domain: 'HEALTH', prediction: "Blood sugar spike followed by fatigue this afternoon.", severity: 'medium', timeframe: 'immediate' },
+      { domain: 'FINANCIAL', prediction: "Snacking to compensate adds to weekly food spend.", severity: 'low', timeframe: 'short_term' },
+      { domain: 'HEALTH', prediction: "Sustained pattern raises long-term cardiovascular risk.", severity: 'high', timeframe: 'long_term' }
+    ],
+    chartData: [
+      { name: "Carbs", value: 62 },
+      { name: "Fat", value: 26 },
+      { name: "Protein", value: 12 }
+    ],
+    predictions: [
+      { outcome: "Mid-afternoon energy slump", likelihood: "High", impact: "Low", timeframe: "Today" },
+      { outcome: "Weight gain if eaten daily", likelihood: "Medium", impact: "High", timeframe: "6 months" }
+    ],
+    causeEffectChain: [
+      { step: "Carb-heavy plate", description: "Fast-digesting starch dominates the meal." },
+      { step: "Glucose spike", description: "Energy rises quickly, then falls." },
+      { step: "Cravings", description: "The dip triggers snacking later in the day." }
+    ],
+    knowledgeGraph: {
+      nodes: [
+        { id: "pasta", label: "Pasta", type: 'entity' },
+        { id: "sauce", label: "Sauce", type: 'entity' },
+        { id: "salad", label: "Add Salad", type: 'action' },
+        { id: "crash", label: "Energy Crash", type: 'risk' },
+        { id: "balance", label: "Balanced Meal", type: 'outcome' }
+      ],
+      edges: [
+        { from: "pasta", to: "crash", label: "causes" },
+        { from: "sauce", to: "crash", label: "worsens" },
+        { from: "salad", to: "balance", label: "leads to" },
+        { from: "pasta", to: "salad", label: "offset by" }
+      ]
+    }
+  },
+
+  [AnalysisCategory.FINANCE]: {
+    category: AnalysisCategory.FINANCE,
+    summary: "Monthly spending is slightly above income, driven by subscriptions and food delivery. Fixed costs are healthy; the gap comes almost entirely from discretionary categories.",
+    score: 47,
+    metrics: [
+      { label: "Monthly Income", value: 3200, unit: "USD" },
+      { label: "Monthly Spend", value: 3410, unit: "USD", color: "#ef4444" },
+      { label: "Savings Rate", value: -6.5, unit: "%" },
+      { label: "Subscriptions", value: 9 }
+    ],
+    insights: [
+      "Nine active subscriptions overlap in purpose; three are unused this month.",
+      "Food delivery is the single largest discretionary line item.",
+      "Rent is within 30% of income, so the structure is sound."
+    ],
+    actionPlan: [
+      "Cancel three unused subscriptions this week",
+      "Cap food delivery at two orders per week",
+      "Set up an automatic 5% transfer to savings on payday"
+    ],
+    risks: ["Drawing down savings every month", "No emergency buffer"],
+    opportunities: ["~$180/month freed by trimming subscriptions", "Employer savings match not yet used"],
+    consequences: [
+      { domain: 'FINANCIAL', prediction: "Account dips below zero before the next payday.", severity: 'high', timeframe: 'immediate' },
+      { domain: 'EMOTIONAL', prediction: "Money anxiety rises as the buffer shrinks.", severity: 'medium', timeframe: 'short_term' },
+      { domain: 'FINANCIAL', prediction: "Savings fully depleted within a year at this rate.", severity: 'high', timeframe: 'long_term' }
+    ],
+    chartData: [
+      { name: "Rent", value: 1100 },
+      { name: "Food Delivery", value: 640 },
+      { name: "Groceries", value: 420 },
+      { name: "Subscriptions", value: 310 },
+      { name: "Transport", value: 260 },
+      { name: "Other", value: 680 }
+    ],
+    predictions: [
+      { outcome: "Overdraft fee this month", likelihood: "Medium", impact: "Medium", timeframe: "2 weeks" },
+      { outcome: "Positive savings rate after cuts", likelihood: "High", impact: "High", timeframe: "2 months" }
+    ],
+    causeEffectChain: [
+      { step: "Subscription creep", description: "Small recurring charges accumulate unnoticed." },
+      { step: "Convenience spending", description: "Delivery replaces planned groceries." },
+      { step: "Negative cash flow", description: "Spending exceeds income and savings shrink." }
+    ],
+    knowledgeGraph: {
+      nodes: [
+        { id: "income", label: "Income", type: 'entity' },
+        { id: "subs", label: "Subscriptions", type: 'entity' },
+        { id: "delivery", label: "Food Delivery", type: 'entity' },
+        { id: "cancel", label: "Cancel Unused", type: 'action' },
+        { id: "autosave", label: "Auto Savings", type: 'action' },
+        { id: "overdraft", label: "Overdraft", type: 'risk' },
+        { id: "buffer", label: "Emergency Fund", type: 'outcome' }
+      ],
+      edges: [
+        { from: "subs", to: "cancel", label: "reduced by" },
+        { from: "delivery", to: "overdraft", label: "drives" },
+        { from: "income", to: "autosave", label: "funds" },
+        { from: "autosave", to: "buffer", label: "builds" },
+        { from: "cancel", to: "buffer", label: "frees cash for" }
+      ]
+    }
+  },
+
+  [AnalysisCategory.SCHEDULE]: {
+    category: AnalysisCategory.SCHEDULE,
+    summary: "The week is overbooked: meetings fill most mornings and there are no protected blocks for deep work or recovery. Two deadlines collide on Thursday.",
+    score: 54,
+    metrics: [
+      { label: "Meeting Hours", value: 22, unit: "h" },
+      { label: "Focus Blocks", value: 1 },
+      { label: "Deadlines", value: 3 },
+      { label: "Free Evenings", value: 2 }
+    ],
+    insights: [
+      "Meetings are scattered, leaving no uninterrupted stretch longer than 90 minutes.",
+      "Thursday has two deliverables due with no buffer beforehand.",
+      "Exercise appears only once, late on Sunday."
+    ],
+    actionPlan: [
+      "Block 9:00-11:00 on Tuesday and Wednesday for deep work",
+      "Move one Thursday deliverable to Friday morning",
+      "Decline or shorten two recurring status meetings",
+      "Schedule a 30-minute walk on Monday and Wednesday"
+    ],
+    risks: ["Missed Thursday deadline", "Burnout from back-to-back meetings"],
+    opportunities: ["Batch meetings into afternoons", "Reclaim 4 hours by trimming recurring calls"],
+    consequences: [
+      { domain: 'TIME', prediction: "Thursday deliverables slip without a preparation block.", severity: 'high', timeframe: 'immediate' },
+      { domain: 'HEALTH', prediction: "Sleep quality drops as work spills into evenings.", severity: 'medium', timeframe: 'short_term' },
+      { domain: 'LIFESTYLE', prediction: "Hobbies and social time get crowded out.", severity: 'medium', timeframe: 'long_term' }
+    ],
+    chartData: [
+      { name: "Mon", value: 6 },
+      { name: "Tue", value: 5 },
+      { name: "Wed", value: 4 },
+      { name: "Thu", value: 7 },
+      { name: "Fri", value: 3 }
+    ],
+    predictions: [
+      { outcome: "One deadline missed this week", likelihood: "Medium", impact: "High", timeframe: "This week" },
+      { outcome: "Output improves with protected focus blocks", likelihood: "High", impact: "Medium", timeframe: "2 weeks" }
+    ],
+    causeEffectChain: [
+      { step: "Meetings accepted by default", description: "The calendar fills before priorities are set." },
+      { step: "Fragmented time", description: "No long blocks remain for focused work." },
+      { step: "Deadline pressure", description: "Work is pushed into evenings and weekends." }
+    ],
+    knowledgeGraph: {
+      nodes: [
+        { id: "meetings", label: "Meetings", type: 'entity' },
+        { id: "deadline", label: "Thursday Deadline", type: 'entity' },
+        { id: "focus", label: "Focus Blocks", type: 'action' },
+        { id: "decline", label: "Decline Calls", type: 'action' },
+        { id: "burnout", label: "Burnout", type: 'risk' },
+        { id: "ontime", label: "On-time Delivery", type: 'outcome' }
+      ],
+      edges: [
+        { from: "meetings", to: "burnout", label: "contributes to" },
+        { from: "decline", to: "focus", label: "frees time for" },
+        { from: "focus", to: "ontime", label: "enables" },
+        { from: "deadline", to: "focus", label: "requires" }
+      ]
+    }
+  },
+
+  [AnalysisCategory.GENERAL]: {
+    category: AnalysisCategory.GENERAL,
+    summary: "The input describes a situation with a clear goal but no concrete plan yet. Breaking it into small, dated steps is the highest-leverage next move.",
+    score: 70,
+    metrics: [
+      { label: "Clarity", value: "Medium" },
+      { label: "Next Steps Defined", value: 0 },
+      { label: "Est. Effort", value: 6, unit: "h" }
+    ],
+    insights: [
+      "The goal is well articulated but the first step is not.",
+      "Most blockers mentioned are about time rather than resources."
+    ],
+    actionPlan: [
+      "Write down the single next physical action",
+      "Schedule a 30-minute slot for it this week",
+      "Review progress next Sunday"
+    ],
+    risks: ["Momentum fades without a first step"],
+    opportunities: ["Quick win available within a week"],
+    consequences: [
+      { domain: 'TIME', prediction: "Without a first step, the task is postponed again this week.", severity: 'medium', timeframe: 'immediate' },
+      { domain: 'EMOTIONAL', prediction: "Visible progress builds motivation for the next phase.", severity: 'low', timeframe: 'short_term' },
+      { domain: 'LIFESTYLE', prediction: "A steady weekly rhythm makes the goal sustainable.", severity: 'low', timeframe: 'long_term' }
+    ],
+    chartData: [
+      { name: "Planning", value: 20 },
+      { name: "Execution", value: 60 },
+      { name: "Review", value: 20 }
+    ],
+    predictions: [
+      { outcome: "First milestone reached", likelihood: "Medium", impact: "Medium", timeframe: "2 weeks" }
+    ],
+    causeEffectChain: [
+      { step: "Vague goal", description: "No obvious starting point." },
+      { step: "Procrastination", description: "The task keeps being deferred." },
+      { step: "Concrete step", description: "Defining the next action unlocks progress." }
+    ],
+    knowledgeGraph: {
+      nodes: [
+        { id: "goal", label: "Goal", type: 'entity' },
+        { id: "step", label: "Next Action", type: 'action' },
+        { id: "stall", label: "Stalling", type: 'risk' },
+        { id: "progress", label: "Progress", type: 'outcome' }
+      ],
+      edges: [
+        { from: "goal", to: "step", label: "broken into" },
+        { from: "goal", to: "stall", label: "risks" },
+        { from: "step", to: "progress", label: "leads to" }
+      ]
+    }
+  }
+};
+
+// Keywords used to route text input to a fixture category.
+export const CATEGORY_KEYWORDS: Array<{ category: AnalysisCategory; keywords: string[] }> = [
+  { category: AnalysisCategory.FINANCE, keywords: ['budget', 'money', 'spend', 'salary', 'bank', 'rent', 'expense', 'invoice', 'savings'] },
+  { category: AnalysisCategory.SCHEDULE, keywords: ['schedule', 'calendar', 'meeting', 'deadline', 'week', 'appointment', 'syllabus'] },
+  { category: AnalysisCategory.FOOD, keywords: ['food', 'meal', 'recipe', 'diet', 'lunch', 'dinner', 'breakfast', 'calorie'] },
+  { category: AnalysisCategory.ROOM, keywords: ['room', 'desk', 'clutter', 'apartment', 'bedroom', 'kitchen', 'tidy'] }
+];
+
+export const MERGE_CONNECTIONS_FIXTURE = [
+  {
+    type: "Reinforcing",
+    source1: "Visual input",
+    source2: "Written notes",
+    insight: "What the image shows matches the concern described in the notes, which strengthens the recommended first action."
+  },
+  {
+    type: "Contradiction",
+    source1: "Voice note",
+    source2: "Visual input",
+    insight: "The stated priority in the voice note is not reflected in the current physical setup."
+  }
+];
+
+// Extension fields returned when the specialist stage runs for these categories.
+export const SPECIALIST_FIXTURES: Partial<Record<AnalysisCategory, Partial<AnalysisResult>>> = {
+  [AnalysisCategory.FINANCE]: {
+    transactions: [
+      { date: "2025-06-01", description: "Rent", amount: -1100, category: "Housing" },
+      { date: "2025-06-02", description: "Salary", amount: 3200, category: "Income" },
+      { date: "2025-06-03", description: "StreamFlix", amount: -15.99, category: "Subscriptions" },
+      { date: "2025-06-05", description: "QuickEats delivery", amount: -42.5, category: "Food Delivery" },
+      { date: "2025-06-07", description: "Grocery Mart", amount: -86.2, category: "Groceries" },
+      { date: "2025-06-09", description: "Metro card", amount: -65, category: "Transport" }
+    ]
+  },
+  [AnalysisCategory.FOOD]: {
+    nutrients: [
+      { name: "Calories", amount: 820, unit: "kcal", dailyValuePercent: 41 },
+      { name: "Protein", amount: 18, unit: "g", dailyValuePercent: 36 },
+      { name: "Carbohydrates", amount: 112, unit: "g", dailyValuePercent: 41 },
+      { name: "Fibre", amount: 4, unit: "g", dailyValuePercent: 14 },
+      { name: "Sodium", amount: 1450, unit: "mg", dailyValuePercent: 63 }
+    ]
+  },
+  [AnalysisCategory.SCHEDULE]: {
+    events: [
+      { title: "Team standup", day: "Monday", start: "09:00", end: "09:30" },
+      { title: "Client review", day: "Tuesday", start: "10:00", end: "11:30" },
+      { title: "Report deadline", day: "Thursday", start: "12:00" },
+      { title: "Design handoff", day: "Thursday", start: "16:00", end: "17:00" },
+      { title: "Gym", day: "Sunday", start: "18:00", end: "19:00" }
+    ]
+  }
+};
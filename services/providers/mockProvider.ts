@@ -0,0 +1,112 @@
+import { AnalysisResult, AnalysisCategory, ChatMessage, ClassificationResult, InputItem } from '../../types';
+import { AnalysisProvider, AnalyzeOptions, RequestOptions } from '../analysisProvider';
+import { abortableDelay } from '../analysisErrors';
+import { ANALYSIS_FIXTURES, CATEGORY_KEYWORDS, MERGE_CONNECTIONS_FIXTURE, SPECIALIST_FIXTURES } from './mockFixtures';
+
+// Small artificial delay so loading states are visible during demos.
+const MOCK_LATENCY_MS = 600;
+
+// Route inputs to a fixture: text/document keywords first, then images default to ROOM.
+const detectCategory = (inputs: InputItem[]): AnalysisCategory => {
+  const text = inputs
+    .filter(i => i.type === 'text' || i.type === 'document')
+    .map(i => i.content.toLowerCase())
+    .join(' ');
+
+  for (const { category, keywords } of CATEGORY_KEYWORDS) {
+    if (keywords.some(k => text.includes(k))) return category;
+  }
+
+  if (inputs.some(i => i.type === 'image')) return AnalysisCategory.ROOM;
+  return AnalysisCategory.GENERAL;
+};
+
+const analyzeLifeInput = async (inputs: InputItem[], options: AnalyzeOptions = {}): Promise<AnalysisResult> => {
+  if (inputs.length === 0) throw new Error("No input provided");
+
+  await abortableDelay(MOCK_LATENCY_MS, options.signal);
+
+  // Specialist stage: honour the confirmed category and add its extension fields
+  const category = options.category || detectCategory(inputs);
+  const result: AnalysisResult = {
+    ...structuredClone(ANALYSIS_FIXTURES[category] || ANALYSIS_FIXTURES[AnalysisCategory.GENERAL]),
+    category
+  };
+  if (options.category) Object.assign(result, structuredClone(SPECIALIST_FIXTURES[category] || {}));
+
+  if (inputs.length > 1) {
+    result.isMergedReality = true;
+    result.mergeConnections = structuredClone(MERGE_CONNECTIONS_FIXTURE);
+  }
+
+  // Lens: echo its metrics with placeholder values so the dashboard and PDF paths can be exercised
+  if (options.lens) {
+    options.lens.metrics.forEach(metric => {
+      result.metrics.push({ label: metric.label, value: 'demo', unit: metric.unit });
+    });
+    if (options.lens.rubric) {
+      result.scoreRationale = `Offline demo: score ${result.score} was not derived from the "${options.lens.name}" rubric.`;
+    }
+  }
+
+  return result;
+};
+
+const classifyInputs = async (inputs: InputItem[], options: RequestOptions = {}): Promise<ClassificationResult> => {
+  await abortableDelay(MOCK_LATENCY_MS / 3, options.signal);
+  const category = detectCategory(inputs);
+  return {
+    category,
+    confidence: category === AnalysisCategory.GENERAL ? 0.4 : 0.85,
+    rationale: category === AnalysisCategory.GENERAL
+      ? "No strong category signal in the inputs."
+      : `Inputs mention ${category.toLowerCase()}-related terms.`
+  };
+};
+
+// Replays the fixture as JSON text in small chunks to exercise progressive rendering.
+const STREAM_CHUNK_SIZE = 120;
+
+async function* streamLifeInput(inputs: InputItem[], options: AnalyzeOptions = {}): AsyncGenerator<string> {
+  const json = JSON.stringify(await analyzeLifeInput(inputs, options));
+  for (let i = 0; i < json.length; i += STREAM_CHUNK_SIZE) {
+    await abortableDelay(40, options.signal);
+    yield json.slice(i, i + STREAM_CHUNK_SIZE);
+  }
+}
+
+const chatWithAnalysis = async (
+  currentMessage: string,
+  history: ChatMessage[],
+  analysisContext: AnalysisResult,
+  options: RequestOptions = {}
+): Promise<string> => {
+  await abortableDelay(MOCK_LATENCY_MS / 2, options.signal);
+
+  const question = currentMessage.toLowerCase();
+  const firstAction = analysisContext.actionPlan[0] || "define a single next step";
+  const firstRisk = analysisContext.risks[0] || "no major risks";
+
+  if (/(risk|danger|worry|problem)/.test(question)) {
+    return `The most pressing risk is: ${firstRisk}. Addressing "${firstAction}" first reduces it the most.`;
+  }
+  if (/(cost|price|budget|money|\$)/.test(question)) {
+    return `A realistic estimate for the first step ("${firstAction}") is between $0 and $50, mostly time rather than money.`;
+  }
+  if (/(first|start|begin|next)/.test(question)) {
+    return `Start with: ${firstAction}. It is the quickest win for this ${analysisContext.category.toLowerCase()} analysis.`;
+  }
+
+  const turn = history.filter(m => m.role === 'user').length;
+  const insight = analysisContext.insights[turn % Math.max(analysisContext.insights.length, 1)] || analysisContext.summary;
+  return `Based on the analysis (score ${analysisContext.score}/100): ${insight}`;
+};
+
+export const mockProvider: AnalysisProvider = {
+  id: 'mock',
+  label: 'Offline Demo (fixtures)',
+  analyze: analyzeLifeInput,
+  analyzeStream: streamLifeInput,
+  classify: classifyInputs,
+  chat: chatWithAnalysis
+};
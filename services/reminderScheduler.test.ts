@@ -0,0 +1,34 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { applyReminderActionFromUrl } from './reminderScheduler';
+import { getReminderStates } from './reminderStore';
+import { SNOOZE_HOUR_MS } from '../utils/reminders';
+
+const KEY = 'action:h1:action:0:2025-03-01';
+
+const openApp = (search: string) => window.history.replaceState(null, '', `/${search}`);
+
+describe('reminder actions from a closed app', () => {
+  beforeEach(() => vi.useRealTimers());
+
+  it('stores a dismissal passed by the service worker', () => {
+    openApp(`?view=actions&reminder=dismiss&key=${encodeURIComponent(KEY)}`);
+    applyReminderActionFromUrl();
+    expect(getReminderStates()[KEY]).toMatchObject({ dismissed: true });
+  });
+
+  it('snoozes for an hour from when the app opens', () => {
+    vi.useFakeTimers({ now: new Date('2025-03-01T09:00:00Z') });
+    openApp(`?view=actions&reminder=snooze&key=${encodeURIComponent(`${KEY}:b`)}`);
+    applyReminderActionFromUrl();
+    expect(getReminderStates()[`${KEY}:b`]).toMatchObject({ snoozedUntil: Date.now() + SNOOZE_HOUR_MS });
+  });
+
+  it('ignores plain opens and unknown actions', () => {
+    const before = getReminderStates();
+    openApp(`?view=actions&reminder=explode&key=other`);
+    applyReminderActionFromUrl();
+    openApp('?view=actions');
+    applyReminderActionFromUrl();
+    expect(getReminderStates()).toBe(before);
+  });
+});
@@ -0,0 +1,95 @@
+import { HistoryItem } from '../types';
+import { ReminderSettings, getSettings } from './settingsStore';
+import { dismissReminder, getReminderStates, markNotified, pruneReminderStates, snoozeReminder } from './reminderStore';
+import { SNOOZE_HOUR_MS, collectReminders, isQuietTime, shouldNotify } from '../utils/reminders';
+import { notificationsAllowed, showReminderNotification } from '../utils/notifications';
+
+// Checks for due reminders while the app is open. The service worker only relays
+// notification clicks; it has no access to history, so nothing fires while the app is closed.
+
+const CHECK_INTERVAL_MS = 60 * 1000;
+
+// Posted by public/sw.js when a reminder notification (or one of its buttons) is clicked
+const REMINDER_MESSAGE = 'aether-reminder';
+
+// Every reminder the history could produce, regardless of opt-outs, so muting a
+// category or kind doesn't throw away its snoozes and dismissals
+const ALL_REMINDERS: ReminderSettings = {
+  actionsDue: true,
+  urgentConsequences: true,
+  mutedCategories: [],
+  quietHours: { enabled: false, start: '00:00', end: '00:00' }
+};
+
+const registerServiceWorker = async (): Promise<ServiceWorkerRegistration | null> => {
+  if (!('serviceWorker' in navigator)) return null;
+  try {
+    await navigator.serviceWorker.register('./sw.js');
+    return await navigator.serviceWorker.ready;
+  } catch (e) {
+    console.error("Service worker registration failed; reminders fall back to page notifications", e);
+    return null;
+  }
+};
+
+const checkReminders = (history: HistoryItem[], registration: ServiceWorkerRegistration | null, onOpen: (historyId: string) => void) => {
+  // Nothing loaded yet (or everything deleted): keep state rather than prune it all
+  if (history.length === 0) return;
+  pruneReminderStates(collectReminders(history, ALL_REMINDERS).map(reminder => reminder.key));
+
+  if (!notificationsAllowed()) return;
+  const { reminders } = getSettings();
+  if (isQuietTime(reminders.quietHours)) return;
+
+  const states = getReminderStates();
+  const due = collectReminders(history, reminders).filter(reminder => shouldNotify(states[reminder.key]));
+  due.forEach(reminder => {
+    showReminderNotification(reminder, registration, onOpen).catch(err => console.error("Failed to show reminder", err));
+  });
+  markNotified(due.map(reminder => reminder.key));
+};
+
+// Snooze / Dismiss from a notification button. Returns false for any other action.
+const applyReminderAction = (action: unknown, key: string): boolean => {
+  if (action === 'snooze') snoozeReminder(key, Date.now() + SNOOZE_HOUR_MS);
+  else if (action === 'dismiss') dismissReminder(key);
+  else return false;
+  return true;
+};
+
+// A button clicked while no window was open: public/sw.js then opens the app with
+// ?reminder=<action>&key=<key>. Reminder state is not sealed by the vault, so this runs at
+// startup before the view sync rewrites the query string, locked or not.
+export const applyReminderActionFromUrl = () => {
+  const params = new URLSearchParams(window.location.search);
+  const key = params.get('key');
+  if (key) applyReminderAction(params.get('reminder'), key);
+};
+
+// Returns a stop function. `getHistory` should return live (non-trashed) history.
+export const startReminderScheduler = (getHistory: () => HistoryItem[], onOpen: (historyId: string) => void) => {
+  let registration: ServiceWorkerRegistration | null = null;
+  let stopped = false;
+  const check = () => checkReminders(getHistory(), registration, onOpen);
+
+  registerServiceWorker().then(ready => {
+    if (stopped) return;
+    registration = ready;
+    check();
+  });
+
+  const onMessage = (event: MessageEvent) => {
+    const message = event.data;
+    if (!message || message.type !== REMINDER_MESSAGE || typeof message.key !== 'string') return;
+    if (applyReminderAction(message.action, message.key)) return;
+    if (typeof message.historyId === 'string') onOpen(message.historyId);
+  };
+  navigator.serviceWorker?.addEventListener('message', onMessage);
+  const timer = setInterval(check, CHECK_INTERVAL_MS);
+
+  return () => {
+    stopped = true;
+    clearInterval(timer);
+    navigator.serviceWorker?.removeEventListener('message', onMessage);
+  };
+};
@@ -0,0 +1,63 @@
+import { useSyncExternalStore } from 'react';
+import { ReminderState } from '../utils/reminders';
+
+// Snoozes, dismissals and when each reminder was last shown. Keys embed history and
+// action ids, not content, so this stays in plain localStorage like the other settings.
+const REMINDERS_KEY = 'aether_reminders';
+
+type ReminderStates = Record<string, ReminderState>;
+
+const loadStates = (): ReminderStates => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(REMINDERS_KEY) || '{}');
+    return saved && typeof saved === 'object' && !Array.isArray(saved) ? saved : {};
+  } catch (e) {
+    console.error("Failed to load reminder state", e);
+    return {};
+  }
+};
+
+let currentStates = loadStates();
+const listeners = new Set<() => void>();
+
+const commit = (states: ReminderStates) => {
+  currentStates = states;
+  try {
+    localStorage.setItem(REMINDERS_KEY, JSON.stringify(states));
+  } catch (e) {
+    console.error("Failed to save reminder state", e);
+  }
+  listeners.forEach(listener => listener());
+};
+
+const update = (key: string, patch: ReminderState) => {
+  commit({ ...currentStates, [key]: { ...currentStates[key], ...patch } });
+};
+
+export const getReminderStates = (): ReminderStates => currentStates;
+
+export const markNotified = (keys: string[], at = Date.now()) => {
+  if (keys.length === 0) return;
+  commit(keys.reduce((states, key) => ({ ...states, [key]: { ...states[key], notifiedAt: at } }), currentStates));
+};
+
+export const snoozeReminder = (key: string, until: number) => update(key, { snoozedUntil: until });
+
+export const dismissReminder = (key: string) => update(key, { dismissed: true });
+
+// Drops state for reminders that no longer apply (action done, item deleted, ...)
+export const pruneReminderStates = (activeKeys: string[]) => {
+  const keep = new Set(activeKeys);
+  const stale = Object.keys(currentStates).filter(key => !keep.has(key));
+  if (stale.length === 0) return;
+  commit(Object.fromEntries(Object.entries(currentStates).filter(([key]) => keep.has(key))));
+};
+
+export const subscribeReminderStates = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const useReminderStates = (): ReminderStates => useSyncExternalStore(subscribeReminderStates, getReminderStates);
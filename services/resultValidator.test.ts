@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { AnalysisCategory } from '../types';
+import { validateAnalysisResult, validatePartialResult } from './resultValidator';
+import { parseCompletedFields } from '../utils/partialJson';
+
+const complete = {
+  category: 'FINANCE',
+  summary: 'Spending is steady',
+  score: 64,
+  metrics: [{ label: 'Savings rate', value: 12, unit: '%' }],
+  insights: ['Groceries dominate'],
+  actionPlan: ['Cap takeaway'],
+  risks: ['Rent increase'],
+  opportunities: ['Switch bank'],
+  consequences: []
+};
+
+describe('validateAnalysisResult', () => {
+  it('accepts a complete result and repairs what it can', () => {
+    const report = validateAnalysisResult({ ...complete, score: 140, risks: null });
+    expect(report.errors).toEqual([]);
+    expect(report.result?.score).toBe(100);
+    expect(report.result?.risks).toEqual([]);
+    expect(report.result?.validationNotes).toHaveLength(2);
+  });
+
+  it('rejects output missing required fields', () => {
+    const { summary, ...rest } = complete;
+    expect(validateAnalysisResult(rest).result).toBeNull();
+    expect(validateAnalysisResult('not json').result).toBeNull();
+  });
+});
+
+describe('validatePartialResult', () => {
+  it('keeps completed fields that validate', () => {
+    expect(validatePartialResult({ summary: 'So far', score: '72', risks: ['Late fees'] })).toEqual({
+      summary: 'So far', score: 72, risks: ['Late fees']
+    });
+  });
+
+  it('drops null, mistyped and unknown fields instead of passing them to the dashboard', () => {
+    const partial = validatePartialResult({
+      summary: 'So far',
+      metrics: null,
+      risks: 'Late fees',
+      insights: { first: 'x' },
+      knowledgeGraph: 'none',
+      rogue: true
+    });
+    expect(partial).toEqual({ summary: 'So far' });
+  });
+
+  it('drops malformed items inside an otherwise valid field', () => {
+    const { metrics } = validatePartialResult({ metrics: [{ value: 3 }, { label: 'Debt', value: 900 }, 'loose'] });
+    expect(metrics).toEqual([{ label: 'Debt', value: 900 }]);
+  });
+
+  it('applies the semantic repairs of a whole result', () => {
+    const partial = validatePartialResult({
+      score: -20,
+      knowledgeGraph: {
+        nodes: [{ id: 'a', label: 'Rent', type: 'entity' }, { id: 'a', label: 'Dup', type: 'entity' }],
+        edges: [{ from: 'a', to: 'missing', label: 'affects' }]
+      }
+    });
+    expect(partial.score).toBe(0);
+    expect(partial.knowledgeGraph?.nodes).toHaveLength(1);
+    expect(partial.knowledgeGraph?.edges).toEqual([]);
+  });
+
+  it('keeps the confirmed category over the reported one, without adding it early', () => {
+    expect(validatePartialResult({ category: 'FOOD' }, AnalysisCategory.FINANCE).category).toBe(AnalysisCategory.FINANCE);
+    expect(validatePartialResult({ summary: 'x' }, AnalysisCategory.FINANCE)).not.toHaveProperty('category');
+  });
+
+  it('validates what the stream parser has completed so far', () => {
+    const stream = '{"summary": "Half", "metrics": null, "score": 55, "risks": ["unterminated';
+    expect(validatePartialResult(parseCompletedFields(stream))).toEqual({ summary: 'Half', score: 55 });
+  });
+});
@@ -0,0 +1,218 @@
+import { Schema, Type } from "@google/genai";
+import { AnalysisResult, AnalysisCategory, AnalysisLens, ClassificationResult } from '../types';
+import { buildSpecialistSchema, classificationSchema } from './categorySpecialists';
+
+export interface ValidationReport {
+  result: AnalysisResult | null; // null when the output is unusable and must be regenerated
+  repairs: string[];
+  errors: string[];
+}
+
+interface Normalized {
+  ok: boolean;
+  value?: unknown;
+  reasons?: string[]; // Set when ok is false
+}
+
+// Required fields that are safer to default than to reject outright.
+const FIELD_FALLBACKS: Record<string, unknown> = {
+  category: AnalysisCategory.GENERAL
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const enumKey = (value: string) => value.trim().toLowerCase().replace(/[\s-]+/g, '_');
+
+// --- Schema Walker ---
+// Mirrors the request schema so the validator never drifts from what we ask the model for.
+const normalize = (schema: Schema, value: unknown, path: string, repairs: string[]): Normalized => {
+  switch (schema.type) {
+    case Type.OBJECT: {
+      if (!isPlainObject(value)) return { ok: false, reasons: [`${path || 'response'}: expected an object`] };
+
+      const out: Record<string, unknown> = { ...value };
+      const required = schema.required || [];
+      const reasons: string[] = [];
+
+      for (const [key, propSchema] of Object.entries(schema.properties || {})) {
+        const propPath = path ? `${path}.${key}` : key;
+        const isRequired = required.includes(key);
+        const raw = value[key];
+
+        const normalized: Normalized = raw === undefined || raw === null
+          ? { ok: false, reasons: [`${propPath}: missing`] }
+          : normalize(propSchema, raw, propPath, repairs);
+
+        if (normalized.ok) {
+          out[key] = normalized.value;
+        } else if (propPath in FIELD_FALLBACKS) {
+          out[key] = FIELD_FALLBACKS[propPath];
+          repairs.push(`${normalized.reasons[0]}, defaulted to ${FIELD_FALLBACKS[propPath]}`);
+        } else if (isRequired && propSchema.type === Type.ARRAY) {
+          out[key] = [];
+          repairs.push(`${normalized.reasons[0]}, defaulted to []`);
+        } else if (isRequired) {
+          reasons.push(...normalized.reasons);
+        } else {
+          delete out[key];
+          if (raw !== undefined && raw !== null) repairs.push(`${normalized.reasons[0]}, dropped`);
+        }
+      }
+
+      return reasons.length > 0 ? { ok: false, reasons } : { ok: true, value: out };
+    }
+
+    case Type.ARRAY: {
+      if (!Array.isArray(value)) return { ok: false, reasons: [`${path}: expected an array`] };
+      if (!schema.items) return { ok: true, value };
+
+      const out: unknown[] = [];
+      value.forEach((item, i) => {
+        const normalized = normalize(schema.items!, item, `${path}[${i}]`, repairs);
+        if (normalized.ok) out.push(normalized.value);
+        else repairs.push(`${normalized.reasons[0]}, item dropped`);
+      });
+      return { ok: true, value: out };
+    }
+
+    case Type.STRING: {
+      // Numbers are accepted as-is: Metric.value is typed string | number.
+      if (typeof value === 'number' && Number.isFinite(value) && !schema.enum) return { ok: true, value };
+      if (typeof value === 'boolean') {
+        repairs.push(`${path}: coerced boolean to string`);
+        value = String(value);
+      }
+      if (typeof value !== 'string') return { ok: false, reasons: [`${path}: expected a string`] };
+
+      if (schema.enum && !schema.enum.includes(value)) {
+        const match = schema.enum.find(option => enumKey(option) === enumKey(value as string));
+        if (!match) return { ok: false, reasons: [`${path}: "${value}" is not one of ${schema.enum.join(', ')}`] };
+        repairs.push(`${path}: normalized "${value}" to "${match}"`);
+        return { ok: true, value: match };
+      }
+      return { ok: true, value };
+    }
+
+    case Type.NUMBER:
+    case Type.INTEGER: {
+      if (typeof value === 'number' && Number.isFinite(value)) return { ok: true, value };
+      const parsed = typeof value === 'string' ? parseFloat(value) : NaN;
+      if (!Number.isFinite(parsed)) return { ok: false, reasons: [`${path}: expected a number`] };
+      repairs.push(`${path}: parsed "${value}" as ${parsed}`);
+      return { ok: true, value: parsed };
+    }
+
+    case Type.BOOLEAN: {
+      if (typeof value === 'boolean') return { ok: true, value };
+      if (value === 'true' || value === 'false') {
+        repairs.push(`${path}: coerced "${value}" to boolean`);
+        return { ok: true, value: value === 'true' };
+      }
+      return { ok: false, reasons: [`${path}: expected a boolean`] };
+    }
+
+    default:
+      return { ok: true, value };
+  }
+};
+
+// --- Semantic Rules (things a JSON schema cannot express) ---
+// Fields are optional here so streamed partials get the same repairs; a whole result always has them.
+const applySemanticRules = (result: Partial<AnalysisResult>, repairs: string[], errors: string[]) => {
+  if (result.summary !== undefined && !result.summary.trim()) errors.push("summary: must not be empty");
+
+  if (result.score !== undefined) {
+    const clamped = Math.min(100, Math.max(0, result.score));
+    if (clamped !== result.score) {
+      repairs.push(`score: clamped ${result.score} to ${clamped}`);
+      result.score = clamped;
+    }
+  }
+
+  if (result.knowledgeGraph) {
+    const seen = new Set<string>();
+    result.knowledgeGraph.nodes = result.knowledgeGraph.nodes.filter(node => {
+      if (seen.has(node.id)) {
+        repairs.push(`knowledgeGraph.nodes: duplicate id "${node.id}" dropped`);
+        return false;
+      }
+      seen.add(node.id);
+      return true;
+    });
+
+    result.knowledgeGraph.edges = result.knowledgeGraph.edges.filter(edge => {
+      if (seen.has(edge.from) && seen.has(edge.to)) return true;
+      repairs.push(`knowledgeGraph.edges: dangling edge ${edge.from} -> ${edge.to} dropped`);
+      return false;
+    });
+  }
+};
+
+// Lens metrics are promised to the user, so missing ones are listed as "n/a" rather than silently absent.
+const applyLensRules = (result: AnalysisResult, lens: AnalysisLens, repairs: string[]) => {
+  const labels = new Set(result.metrics.map(metric => metric.label.trim().toLowerCase()));
+  lens.metrics.forEach(metric => {
+    if (labels.has(metric.label.toLowerCase())) return;
+    result.metrics.push({ label: metric.label, value: 'n/a', unit: metric.unit });
+    repairs.push(`metrics: lens metric "${metric.label}" missing, added as n/a`);
+  });
+};
+
+// `category` is the confirmed category from the classification stage, if any:
+// it selects the specialist schema and overrides whatever the model reported.
+// `lens` adds its schema fields and required metrics.
+export const validateAnalysisResult = (raw: unknown, category?: AnalysisCategory, lens?: AnalysisLens): ValidationReport => {
+  if (typeof raw === 'string') {
+    return { result: null, repairs: [], errors: ["response: not valid JSON"] };
+  }
+
+  const repairs: string[] = [];
+  const normalized = normalize(buildSpecialistSchema(category, lens), raw, '', repairs);
+  if (!normalized.ok) return { result: null, repairs, errors: normalized.reasons };
+
+  const result = normalized.value as AnalysisResult;
+  const errors: string[] = [];
+  applySemanticRules(result, repairs, errors);
+  if (lens) applyLensRules(result, lens, repairs);
+
+  if (category && result.category !== category) {
+    repairs.push(`category: model reported ${result.category}, kept confirmed ${category}`);
+    result.category = category;
+  }
+  if (errors.length > 0) return { result: null, repairs, errors };
+
+  if (repairs.length > 0) result.validationNotes = repairs;
+  return { result, repairs, errors };
+};
+
+// Streamed output: each completed top-level field is normalized on its own and dropped when
+// unusable, so the dashboard never renders raw model JSON. The final result is still
+// validated as a whole by `validateAnalysisResult`.
+export const validatePartialResult = (
+  raw: Record<string, unknown>,
+  category?: AnalysisCategory,
+  lens?: AnalysisLens
+): Partial<AnalysisResult> => {
+  const properties = buildSpecialistSchema(category, lens).properties || {};
+  const partial: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(raw)) {
+    if (!(key in properties) || value === undefined || value === null) continue;
+    const normalized = normalize(properties[key], value, key, []);
+    if (normalized.ok) partial[key] = normalized.value;
+  }
+
+  const result = partial as Partial<AnalysisResult>;
+  applySemanticRules(result, [], []);
+  if (category && result.category !== undefined) result.category = category;
+  return result;
+};
+
+export const validateClassification = (raw: unknown): ClassificationResult | null => {
+  const normalized = normalize(classificationSchema, raw, '', []);
+  if (!normalized.ok) return null;
+
+  const result = normalized.value as ClassificationResult;
+  result.confidence = Math.min(1, Math.max(0, result.confidence));
+  return result;
+};
@@ -0,0 +1,127 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AnalysisCategory } from '../types';
+import { DEFAULT_SETTINGS, normalizeSettings } from './settingsStore';
+
+const SETTINGS_KEY = 'aether_settings';
+
+// The store reads localStorage once at import, so each test gets a fresh module
+const importStore = async () => {
+  vi.resetModules();
+  return import('./settingsStore');
+};
+
+describe('normalizeSettings', () => {
+  it('returns the defaults for missing or non-object input', () => {
+    expect(normalizeSettings(null)).toEqual(DEFAULT_SETTINGS);
+    expect(normalizeSettings(undefined)).toEqual(DEFAULT_SETTINGS);
+    expect(normalizeSettings('on')).toEqual(DEFAULT_SETTINGS);
+    expect(normalizeSettings([])).toEqual(DEFAULT_SETTINGS);
+  });
+
+  it('drops unknown and stale keys', () => {
+    const settings = normalizeSettings({ allowTraining: true, theme: 'light', notifications: false });
+    expect(settings).not.toHaveProperty('allowTraining');
+    expect(settings).not.toHaveProperty('theme');
+    expect(settings.notifications).toBe(false);
+    expect(Object.keys(settings).sort()).toEqual(Object.keys(DEFAULT_SETTINGS).sort());
+  });
+
+  it('falls back to the default for each mistyped value', () => {
+    const settings = normalizeSettings({
+      localStorageEnabled: 'false',
+      notifications: 0,
+      weeklyDigest: 'yes',
+      trashRetentionDays: -3,
+      analysisModel: 'gemini-2.5-pro',
+      chatModel: { model: '  ', temperature: '1', maxOutputTokens: Number.NaN }
+    });
+    expect(settings.localStorageEnabled).toBe(DEFAULT_SETTINGS.localStorageEnabled);
+    expect(settings.notifications).toBe(DEFAULT_SETTINGS.notifications);
+    expect(settings.weeklyDigest).toBe(DEFAULT_SETTINGS.weeklyDigest);
+    expect(settings.trashRetentionDays).toBe(DEFAULT_SETTINGS.trashRetentionDays);
+    expect(settings.analysisModel).toEqual(DEFAULT_SETTINGS.analysisModel);
+    expect(settings.chatModel).toEqual(DEFAULT_SETTINGS.chatModel);
+  });
+
+  it('rejects fractional retention but keeps 0 (keep until emptied)', () => {
+    expect(normalizeSettings({ trashRetentionDays: 2.5 }).trashRetentionDays).toBe(DEFAULT_SETTINGS.trashRetentionDays);
+    expect(normalizeSettings({ trashRetentionDays: 0 }).trashRetentionDays).toBe(0);
+  });
+
+  it('clamps model parameters into range and trims the model id', () => {
+    const { analysisModel } = normalizeSettings({
+      analysisModel: { model: ' gemini-2.5-pro ', temperature: 5, maxOutputTokens: 10.4 }
+    });
+    expect(analysisModel).toEqual({ model: 'gemini-2.5-pro', temperature: 2, maxOutputTokens: 256 });
+  });
+
+  it('keeps valid reminder settings and repairs invalid ones', () => {
+    const { reminders } = normalizeSettings({
+      reminders: {
+        actionsDue: false,
+        urgentConsequences: 'no',
+        mutedCategories: [AnalysisCategory.FINANCE, 'Astrology', 42],
+        quietHours: { enabled: true, start: '23:30', end: '25:00' }
+      }
+    });
+    expect(reminders).toEqual({
+      actionsDue: false,
+      urgentConsequences: DEFAULT_SETTINGS.reminders.urgentConsequences,
+      mutedCategories: [AnalysisCategory.FINANCE],
+      quietHours: { enabled: true, start: '23:30', end: DEFAULT_SETTINGS.reminders.quietHours.end }
+    });
+  });
+});
+
+describe('settings store', () => {
+  beforeEach(() => localStorage.clear());
+  afterEach(() => vi.restoreAllMocks());
+
+  it('loads and normalizes what is stored', async () => {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify({ notifications: false, allowTraining: true, trashRetentionDays: 'never' }));
+    const { getSettings } = await importStore();
+    expect(getSettings()).toEqual({ ...DEFAULT_SETTINGS, notifications: false });
+  });
+
+  it('starts from the defaults when the stored JSON is corrupt', async () => {
+    localStorage.setItem(SETTINGS_KEY, '{not json');
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const { getSettings } = await importStore();
+    expect(getSettings()).toEqual(DEFAULT_SETTINGS);
+  });
+
+  it('persists normalized updates and notifies subscribers', async () => {
+    const { getSettings, subscribeSettings, updateSettings } = await importStore();
+    const listener = vi.fn();
+    const unsubscribe = subscribeSettings(listener);
+
+    updateSettings({ weeklyDigest: true, trashRetentionDays: -1 });
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(getSettings().weeklyDigest).toBe(true);
+    expect(getSettings().trashRetentionDays).toBe(DEFAULT_SETTINGS.trashRetentionDays);
+    expect(JSON.parse(localStorage.getItem(SETTINGS_KEY)!)).toEqual(getSettings());
+
+    unsubscribe();
+    updateSettings({ weeklyDigest: false });
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(getSettings().weeklyDigest).toBe(false);
+  });
+
+  it('replaces the settings object on update so React sees the change', async () => {
+    const { getSettings, updateSettings } = await importStore();
+    const before = getSettings();
+    updateSettings({ notifications: false });
+    expect(getSettings()).not.toBe(before);
+    expect(before.notifications).toBe(true);
+  });
+
+  it('keeps working in memory when localStorage rejects the write', async () => {
+    const { getSettings, updateSettings } = await importStore();
+    vi.spyOn(Storage.prototype, 'setItem').mockImplementation(() => {
+      throw new DOMException('full', 'QuotaExceededError');
+    });
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    updateSettings({ localStorageEnabled: false });
+    expect(getSettings().localStorageEnabled).toBe(false);
+  });
+});
@@ -0,0 +1,147 @@
+import { useSyncExternalStore } from 'react';
+import { AnalysisCategory } from '../types';
+
+// App-wide preferences. Settings themselves are always kept in localStorage (they hold
+// no personal data), even when history persistence is turned off.
+const SETTINGS_KEY = 'aether_settings';
+
+// Generation parameters for one stage; analysis and chat are configured separately.
+export interface ModelProfile {
+  model: string;
+  temperature: number; // 0–2
+  maxOutputTokens: number; // Includes thinking tokens on Gemini 2.5 models
+}
+
+// Local time, "HH:MM"; the window may wrap past midnight (22:00–07:00)
+export interface QuietHours {
+  enabled: boolean;
+  start: string;
+  end: string;
+}
+
+export interface ReminderSettings {
+  actionsDue: boolean; // Open action items on or past their due date
+  urgentConsequences: boolean; // High-severity consequences in the "immediate" timeframe
+  mutedCategories: AnalysisCategory[]; // No reminders for analyses in these categories
+  quietHours: QuietHours;
+}
+
+export interface AppSettings {
+  localStorageEnabled: boolean; // false = session-only: history stays in memory and stored history is purged
+  notifications: boolean; // Master switch for browser notifications: analysis-complete alerts and reminders
+  reminders: ReminderSettings;
+  weeklyDigest: boolean; // Build a digest of the past seven days on the first launch of each week
+  analysisModel: ModelProfile; // Classification and analysis
+  chatModel: ModelProfile;
+  trashRetentionDays: number; // Trashed analyses are purged after this many days; 0 = keep until emptied
+}
+
+export const MODEL_OPTIONS = [
+  { id: 'gemini-2.5-flash', label: 'Gemini 2.5 Flash' },
+  { id: 'gemini-2.5-flash-lite', label: 'Gemini 2.5 Flash-Lite' },
+  { id: 'gemini-2.5-pro', label: 'Gemini 2.5 Pro' }
+];
+
+export const TEMPERATURE_RANGE = { min: 0, max: 2 };
+export const MAX_OUTPUT_TOKEN_RANGE = { min: 256, max: 65536 };
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  localStorageEnabled: true,
+  notifications: true,
+  reminders: {
+    actionsDue: true,
+    urgentConsequences: true,
+    mutedCategories: [],
+    quietHours: { enabled: false, start: '22:00', end: '07:00' }
+  },
+  weeklyDigest: false,
+  analysisModel: { model: 'gemini-2.5-flash', temperature: 0.3, maxOutputTokens: 16384 },
+  chatModel: { model: 'gemini-2.5-flash', temperature: 1, maxOutputTokens: 4096 },
+  trashRetentionDays: 30
+};
+
+const clamp = (value: number, range: { min: number, max: number }) => Math.min(range.max, Math.max(range.min, value));
+
+const normalizeModelProfile = (raw: unknown, fallback: ModelProfile): ModelProfile => {
+  const source = raw && typeof raw === 'object' ? raw as Record<string, unknown> : {};
+  const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+  return {
+    model: typeof source.model === 'string' && source.model.trim() ? source.model.trim() : fallback.model,
+    temperature: isNumber(source.temperature) ? clamp(source.temperature, TEMPERATURE_RANGE) : fallback.temperature,
+    maxOutputTokens: isNumber(source.maxOutputTokens)
+      ? clamp(Math.round(source.maxOutputTokens), MAX_OUTPUT_TOKEN_RANGE)
+      : fallback.maxOutputTokens
+  };
+};
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+const normalizeReminders = (raw: unknown): ReminderSettings => {
+  const source = raw && typeof raw === 'object' ? raw as Record<string, unknown> : {};
+  const quiet = source.quietHours && typeof source.quietHours === 'object' ? source.quietHours as Record<string, unknown> : {};
+  const fallback = DEFAULT_SETTINGS.reminders;
+  const time = (value: unknown, fallbackTime: string) => typeof value === 'string' && TIME_PATTERN.test(value) ? value : fallbackTime;
+  return {
+    actionsDue: typeof source.actionsDue === 'boolean' ? source.actionsDue : fallback.actionsDue,
+    urgentConsequences: typeof source.urgentConsequences === 'boolean' ? source.urgentConsequences : fallback.urgentConsequences,
+    mutedCategories: Array.isArray(source.mutedCategories)
+      ? source.mutedCategories.filter((value): value is AnalysisCategory => Object.values(AnalysisCategory).includes(value))
+      : [],
+    quietHours: {
+      enabled: typeof quiet.enabled === 'boolean' ? quiet.enabled : fallback.quietHours.enabled,
+      start: time(quiet.start, fallback.quietHours.start),
+      end: time(quiet.end, fallback.quietHours.end)
+    }
+  };
+};
+
+// Keeps only known keys with the right type, so stale keys from older versions
+// (e.g. the removed `allowTraining`) and hand-edited values can't leak in.
+export const normalizeSettings = (raw: unknown): AppSettings => {
+  const source = raw && typeof raw === 'object' ? raw as Record<string, unknown> : {};
+  return {
+    localStorageEnabled: typeof source.localStorageEnabled === 'boolean' ? source.localStorageEnabled : DEFAULT_SETTINGS.localStorageEnabled,
+    notifications: typeof source.notifications === 'boolean' ? source.notifications : DEFAULT_SETTINGS.notifications,
+    reminders: normalizeReminders(source.reminders),
+    weeklyDigest: typeof source.weeklyDigest === 'boolean' ? source.weeklyDigest : DEFAULT_SETTINGS.weeklyDigest,
+    analysisModel: normalizeModelProfile(source.analysisModel, DEFAULT_SETTINGS.analysisModel),
+    chatModel: normalizeModelProfile(source.chatModel, DEFAULT_SETTINGS.chatModel),
+    trashRetentionDays: typeof source.trashRetentionDays === 'number' && Number.isInteger(source.trashRetentionDays) && source.trashRetentionDays >= 0
+      ? source.trashRetentionDays
+      : DEFAULT_SETTINGS.trashRetentionDays
+  };
+};
+
+const loadSettings = (): AppSettings => {
+  try {
+    return normalizeSettings(JSON.parse(localStorage.getItem(SETTINGS_KEY) || 'null'));
+  } catch (e) {
+    console.error("Failed to load settings", e);
+    return { ...DEFAULT_SETTINGS };
+  }
+};
+
+let currentSettings = loadSettings();
+const listeners = new Set<() => void>();
+
+export const getSettings = (): AppSettings => currentSettings;
+
+export const updateSettings = (patch: Partial<AppSettings>) => {
+  currentSettings = normalizeSettings({ ...currentSettings, ...patch });
+  try {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(currentSettings));
+  } catch (e) {
+    console.error("Failed to save settings", e);
+  }
+  listeners.forEach(listener => listener());
+};
+
+export const subscribeSettings = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// React binding: re-renders the caller whenever any setting changes.
+export const useSettings = (): AppSettings => useSyncExternalStore(subscribeSettings, getSettings);
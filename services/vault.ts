@@ -0,0 +1,169 @@
+// Optional passphrase vault. A key is derived with PBKDF2 and history/chat/image data
+// is sealed with AES-GCM before it reaches IndexedDB. The key only lives in memory.
+const VAULT_META_KEY = 'aether_vault';
+const PBKDF2_ITERATIONS = 310000;
+const VERIFIER_TEXT = 'aether-vault-v1';
+export const MIN_PASSPHRASE_LENGTH = 8;
+export const DEFAULT_AUTO_LOCK_MINUTES = 15;
+
+export interface SealedPayload {
+  iv: Uint8Array;
+  data: ArrayBuffer;
+}
+
+interface VaultMeta {
+  version: 1;
+  salt: string; // base64
+  iterations: number;
+  verifier: { iv: string, data: string }; // VERIFIER_TEXT sealed with the key, to check passphrases
+  autoLockMinutes: number; // 0 disables auto-lock
+}
+
+export type VaultErrorKind = 'locked' | 'wrong-passphrase' | 'weak-passphrase' | 'unsupported';
+
+const VAULT_ERROR_MESSAGES: Record<VaultErrorKind, string> = {
+  locked: "The vault is locked. Enter your passphrase to continue.",
+  'wrong-passphrase': "Incorrect passphrase.",
+  'weak-passphrase': `Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters.`,
+  unsupported: "This browser does not support WebCrypto, so the vault is unavailable."
+};
+
+export class VaultError extends Error {
+  readonly kind: VaultErrorKind;
+
+  constructor(kind: VaultErrorKind) {
+    super(VAULT_ERROR_MESSAGES[kind]);
+    this.name = 'VaultError';
+    this.kind = kind;
+  }
+}
+
+// --- Encoding Helpers ---
+export const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes));
+export const fromBase64 = (text: string) => Uint8Array.from(atob(text), c => c.charCodeAt(0));
+
+// --- Module State ---
+let activeKey: CryptoKey | null = null;
+let cachedMeta: VaultMeta | null | undefined;
+
+export const readVaultMeta = (): VaultMeta | null => {
+  if (cachedMeta === undefined) {
+    try {
+      cachedMeta = JSON.parse(localStorage.getItem(VAULT_META_KEY) || 'null');
+    } catch {
+      cachedMeta = null;
+    }
+  }
+  return cachedMeta;
+};
+
+export const isVaultEnabled = () => !!readVaultMeta();
+export const isVaultLocked = () => isVaultEnabled() && !activeKey;
+export const getAutoLockMinutes = () => readVaultMeta()?.autoLockMinutes ?? 0;
+
+// Key to seal new writes with: null means plaintext. Refuses to write plaintext into a locked vault.
+export const getWriteKey = (): CryptoKey | null => {
+  if (isVaultLocked()) throw new VaultError('locked');
+  return activeKey;
+};
+
+export const getReadKey = (): CryptoKey => {
+  if (!activeKey) throw new VaultError('locked');
+  return activeKey;
+};
+
+// --- Crypto ---
+const deriveKey = async (passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> => {
+  if (!globalThis.crypto?.subtle) throw new VaultError('unsupported');
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+export const sealBytes = async (key: CryptoKey, bytes: BufferSource): Promise<SealedPayload> => {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  return { iv, data: await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, bytes) };
+};
+
+export const openBytes = (key: CryptoKey, sealed: SealedPayload): Promise<ArrayBuffer> =>
+  crypto.subtle.decrypt({ name: 'AES-GCM', iv: sealed.iv }, key, sealed.data);
+
+export const sealJson = (key: CryptoKey, value: unknown) =>
+  sealBytes(key, new TextEncoder().encode(JSON.stringify(value)));
+
+export const openJson = async <T>(key: CryptoKey, sealed: SealedPayload): Promise<T> =>
+  JSON.parse(new TextDecoder().decode(await openBytes(key, sealed)));
+
+const checkPassphrase = async (passphrase: string, meta: VaultMeta): Promise<CryptoKey> => {
+  const key = await deriveKey(passphrase, fromBase64(meta.salt), meta.iterations);
+  try {
+    const plain = await openBytes(key, { iv: fromBase64(meta.verifier.iv), data: fromBase64(meta.verifier.data).buffer });
+    if (new TextDecoder().decode(plain) === VERIFIER_TEXT) return key;
+  } catch {
+    // AES-GCM authentication failure: wrong key
+  }
+  throw new VaultError('wrong-passphrase');
+};
+
+// --- Lifecycle ---
+export const unlockVault = async (passphrase: string): Promise<void> => {
+  const meta = readVaultMeta();
+  if (!meta) return;
+  activeKey = await checkPassphrase(passphrase, meta);
+};
+
+export const lockVault = () => {
+  activeKey = null;
+};
+
+export const verifyPassphrase = async (passphrase: string): Promise<void> => {
+  const meta = readVaultMeta();
+  if (meta) await checkPassphrase(passphrase, meta);
+};
+
+export interface PreparedVault {
+  meta: VaultMeta;
+  key: CryptoKey;
+}
+
+// Derives a fresh salt and key without touching stored state, so data can be
+// re-encrypted first and the new metadata committed only once that succeeds.
+export const prepareVault = async (passphrase: string, autoLockMinutes = getAutoLockMinutes() || DEFAULT_AUTO_LOCK_MINUTES): Promise<PreparedVault> => {
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) throw new VaultError('weak-passphrase');
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+  const verifier = await sealBytes(key, new TextEncoder().encode(VERIFIER_TEXT));
+  return {
+    key,
+    meta: {
+      version: 1,
+      salt: toBase64(salt),
+      iterations: PBKDF2_ITERATIONS,
+      verifier: { iv: toBase64(verifier.iv), data: toBase64(new Uint8Array(verifier.data)) },
+      autoLockMinutes
+    }
+  };
+};
+
+// Pass null to turn the vault off.
+export const commitVault = (prepared: PreparedVault | null) => {
+  if (prepared) {
+    localStorage.setItem(VAULT_META_KEY, JSON.stringify(prepared.meta));
+  } else {
+    localStorage.removeItem(VAULT_META_KEY);
+  }
+  cachedMeta = prepared ? prepared.meta : null;
+  activeKey = prepared ? prepared.key : null;
+};
+
+export const setAutoLockMinutes = (minutes: number) => {
+  const meta = readVaultMeta();
+  if (!meta) return;
+  cachedMeta = { ...meta, autoLockMinutes: minutes };
+  localStorage.setItem(VAULT_META_KEY, JSON.stringify(cachedMeta));
+};
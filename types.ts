@@ -63,6 +63,34 @@ export interface GraphEdge {
   label: string;
 }
 
+// Category specialist extensions (FINANCE / FOOD / SCHEDULE)
+export interface Transaction {
+  date?: string;
+  description: string;
+  amount: number; // Negative for outflows
+  category?: string;
+}
+
+export interface Nutrient {
+  name: string;
+  amount: number;
+  unit: string;
+  dailyValuePercent?: number;
+}
+
+export interface ScheduleEvent {
+  title: string;
+  day: string; // ISO date or weekday name
+  start?: string; // 24h "HH:MM"
+  end?: string;
+}
+
+export interface ClassificationResult {
+  category: AnalysisCategory;
+  confidence: number; // 0-1
+  rationale: string;
+}
+
 export interface AnalysisResult {
   category: AnalysisCategory;
   summary: string;
@@ -72,17 +100,36 @@ export interface AnalysisResult {
   actionPlan: string[];
   risks: string[];
   opportunities: string[];
-  consequences?: Consequence[]; // New Feature
-  isMergedReality?: boolean; // New Feature
-  mergeConnections?: MergeConnection[]; // New Feature
-  chartData?: ChartDataPoint[]; 
-  
+  consequences: Consequence[];
+  isMergedReality?: boolean;
+  mergeConnections?: MergeConnection[];
+  chartData?: ChartDataPoint[];
   predictions?: Prediction[];
   causeEffectChain?: CauseEffect[];
   knowledgeGraph?: {
     nodes: GraphNode[];
     edges: GraphEdge[];
   };
+  transactions?: Transaction[]; // FINANCE specialist
+  nutrients?: Nutrient[]; // FOOD specialist
+  events?: ScheduleEvent[]; // SCHEDULE specialist
+  validationNotes?: string[]; // Auto-repairs applied to the raw model output
+  scoreRationale?: string; // How the score was derived, when a lens supplies a scoring rubric
+}
+
+// A saved, user-defined way of looking at inputs (e.g. "Landlord inspection").
+export interface LensMetric {
+  label: string; // Must appear verbatim in AnalysisResult.metrics
+  unit?: string;
+}
+
+export interface AnalysisLens {
+  id: string;
+  name: string;
+  instruction: string; // Appended to the system prompt
+  category?: AnalysisCategory; // Forces the specialist and skips classification
+  metrics: LensMetric[]; // Always extracted
+  rubric?: string; // Replaces the default meaning of the 0-100 score
 }
 
 export interface ChatMessage {
@@ -91,18 +138,54 @@ export interface ChatMessage {
   text: string;
 }
 
+// Current persisted shape; older records are upgraded by services/historyMigrations.ts on load.
 export interface HistoryItem {
   id: string;
   timestamp: Date;
   result: AnalysisResult;
-  image?: string | null; // Keep for backward compatibility
-  images?: string[]; // New: Store all images
-  chatHistory?: ChatMessage[];
+  images: string[]; // First image is the thumbnail
+  chatHistory: ChatMessage[];
+  lens?: AnalysisLens; // Snapshot of the lens at analysis time; later edits don't rewrite history
+  title?: string; // User-given name; falls back to the start of the summary
+  tags: string[]; // Lowercase, free-form
+  pinned: boolean;
+  projectIds: string[]; // An item can be filed under several projects
+  deletedAt?: number; // epoch ms; set while the item sits in the trash
+  actions: ActionItem[]; // Tracked copy of result.actionPlan
+}
+
+export type ActionPriority = 'low' | 'medium' | 'high';
+
+// One step of an analysis' action plan, tracked as a task. `text` is the model's wording
+// and isn't edited; everything else is the user's.
+export interface ActionItem {
+  id: string;
+  text: string;
+  done: boolean;
+  completedAt?: number; // epoch ms, set while done
+  dueDate?: string; // YYYY-MM-DD
+  priority: ActionPriority;
+  notes?: string;
 }
 
+// A folder grouping related analyses, e.g. "Apartment move"
+export interface Project {
+  id: string;
+  name: string;
+  createdAt: number; // epoch ms
+}
+
+export type DocumentKind = 'pdf' | 'csv' | 'tsv' | 'markdown' | 'text';
+
 export interface InputItem {
   id: string;
-  type: 'image' | 'text' | 'audio';
-  content: string; // Base64 or text
+  type: 'image' | 'text' | 'audio' | 'document';
+  content: string; // Base64, text, or extracted document text
+  mimeType?: string; // Real type of image/audio content, e.g. image/png or audio/wav
+  durationSec?: number; // For voice notes
   preview?: string; // For images
+  fileName?: string; // For documents
+  documentKind?: DocumentKind;
+  documentSummary?: string; // e.g. "4 pages" or "120 rows × 6 cols"
+  pageImages?: string[]; // Rendered pages of scanned PDFs
 }
\ No newline at end of file
@@ -0,0 +1,47 @@
+import { ActionItem, ActionPriority, HistoryItem } from '../types';
+import { toIsoDate } from './dates';
+
+// Action plans as tasks: progress per analysis and the open-actions list across history.
+
+export const ACTION_PRIORITIES: ActionPriority[] = ['high', 'medium', 'low'];
+
+// Ids are derived from the item id and position, so migrating the same record twice yields the same ids.
+export const createActionItems = (historyId: string, actionPlan: string[]): ActionItem[] =>
+  actionPlan.map((text, i) => ({ id: `${historyId}:action:${i}`, text, done: false, priority: 'medium' }));
+
+// Completing stamps the time; reopening clears it.
+export const setActionDone = (action: ActionItem, done: boolean): ActionItem =>
+  done ? { ...action, done, completedAt: Date.now() } : { ...action, done, completedAt: undefined };
+
+export interface ActionProgress {
+  done: number;
+  total: number;
+  percent: number;
+}
+
+export const getActionProgress = (actions: ActionItem[]): ActionProgress => {
+  const done = actions.filter(action => action.done).length;
+  return { done, total: actions.length, percent: actions.length > 0 ? Math.round((done / actions.length) * 100) : 0 };
+};
+
+export const isOverdue = (action: ActionItem, today = toIsoDate(new Date())): boolean =>
+  !action.done && !!action.dueDate && action.dueDate < today;
+
+export interface OpenAction {
+  item: HistoryItem;
+  action: ActionItem;
+}
+
+// Dated tasks first (earliest due first), then by priority, then newest analysis.
+export const collectOpenActions = (history: HistoryItem[]): OpenAction[] =>
+  history
+    .flatMap(item => item.actions.filter(action => !action.done).map(action => ({ item, action })))
+    .sort((a, b) => {
+      if (a.action.dueDate !== b.action.dueDate) {
+        if (!a.action.dueDate) return 1;
+        if (!b.action.dueDate) return -1;
+        return a.action.dueDate < b.action.dueDate ? -1 : 1;
+      }
+      return ACTION_PRIORITIES.indexOf(a.action.priority) - ACTION_PRIORITIES.indexOf(b.action.priority)
+        || b.item.timestamp.getTime() - a.item.timestamp.getTime();
+    });
@@ -14,3 +14,118 @@ export const blobToBase64 = (blob: Blob): Promise<string> => {
     reader.readAsDataURL(blob);
   });
 };
+
+
+// --- Recording Formats ---
+// MediaRecorder picks its own container (usually webm/opus), so we ask explicitly
+// and remember what we actually got instead of guessing.
+const RECORDER_MIME_CANDIDATES = [
+  'audio/webm;codecs=opus',
+  'audio/ogg;codecs=opus',
+  'audio/mp4',
+  'audio/webm'
+];
+
+export const pickRecorderMimeType = (): string | undefined => {
+  if (typeof MediaRecorder === 'undefined' || !MediaRecorder.isTypeSupported) return undefined;
+  return RECORDER_MIME_CANDIDATES.find(type => MediaRecorder.isTypeSupported(type));
+};
+
+// Speech only needs 16 kHz mono; keeps WAV payloads small.
+export const WAV_SAMPLE_RATE = 16000;
+
+export interface EncodedClip {
+  blob: Blob;
+  mimeType: string;
+  durationSec: number;
+  peaks: number[]; // Normalized 0-1 amplitudes for the waveform preview
+}
+
+const decodeToMono = async (blob: Blob, sampleRate: number): Promise<Float32Array> => {
+  const ctx = new AudioContext();
+  try {
+    const decoded = await ctx.decodeAudioData(await blob.arrayBuffer());
+    // Resample and downmix in one pass through an offline graph
+    const frames = Math.ceil(decoded.duration * sampleRate);
+    const offline = new OfflineAudioContext(1, Math.max(frames, 1), sampleRate);
+    const source = offline.createBufferSource();
+    source.buffer = decoded;
+    source.connect(offline.destination);
+    source.start();
+    const rendered = await offline.startRendering();
+    return rendered.getChannelData(0);
+  } finally {
+    ctx.close();
+  }
+};
+
+// 16-bit PCM RIFF/WAVE encoder
+export const encodeWav = (samples: Float32Array, sampleRate: number): Blob => {
+  const bytesPerSample = 2;
+  const dataSize = samples.length * bytesPerSample;
+  const buffer = new ArrayBuffer(44 + dataSize);
+  const view = new DataView(buffer);
+
+  const writeString = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+  };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + dataSize, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true); // PCM chunk size
+  view.setUint16(20, 1, true); // Format: PCM
+  view.setUint16(22, 1, true); // Channels: mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * bytesPerSample, true); // Byte rate
+  view.setUint16(32, bytesPerSample, true); // Block align
+  view.setUint16(34, 16, true); // Bits per sample
+  writeString(36, 'data');
+  view.setUint32(40, dataSize, true);
+
+  let offset = 44;
+  for (let i = 0; i < samples.length; i++, offset += 2) {
+    const s = Math.max(-1, Math.min(1, samples[i]));
+    view.setInt16(offset, s < 0 ? s * 0x8000 : s * 0x7fff, true);
+  }
+
+  return new Blob([buffer], { type: 'audio/wav' });
+};
+
+export const computePeaks = (samples: Float32Array, bars: number): number[] => {
+  const blockSize = Math.max(1, Math.floor(samples.length / bars));
+  const peaks: number[] = [];
+  for (let b = 0; b < bars; b++) {
+    let max = 0;
+    const start = b * blockSize;
+    for (let i = start; i < start + blockSize && i < samples.length; i++) {
+      max = Math.max(max, Math.abs(samples[i]));
+    }
+    peaks.push(max);
+  }
+  const highest = Math.max(...peaks, 0.01);
+  return peaks.map(p => p / highest);
+};
+
+// Transcode a recorded clip to WAV. If the browser cannot decode its own
+// recording, the original blob is kept and labelled with its real container type.
+export const encodeRecording = async (recorded: Blob, bars = 48): Promise<EncodedClip> => {
+  try {
+    const samples = await decodeToMono(recorded, WAV_SAMPLE_RATE);
+    return {
+      blob: encodeWav(samples, WAV_SAMPLE_RATE),
+      mimeType: 'audio/wav',
+      durationSec: samples.length / WAV_SAMPLE_RATE,
+      peaks: computePeaks(samples, bars)
+    };
+  } catch (e) {
+    console.warn("WAV transcoding failed, sending original container:", e);
+    return {
+      blob: recorded,
+      mimeType: recorded.type.split(';')[0] || 'audio/webm',
+      durationSec: 0,
+      peaks: []
+    };
+  }
+};
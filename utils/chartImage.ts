@@ -0,0 +1,46 @@
+// Rasterizes a rendered chart (recharts draws plain SVG) so it can be placed in a PDF.
+// The canvas gets the dashboard's dark background because the chart colours assume it.
+
+const CHART_BACKGROUND = '#0f172a'; // Slate 900
+
+export interface ChartImage {
+  dataUrl: string; // PNG
+  width: number; // CSS pixels, for the aspect ratio
+  height: number;
+}
+
+export const renderSvgToImage = (svg: SVGSVGElement, scale = 2): Promise<ChartImage | null> => {
+  const { width, height } = svg.getBoundingClientRect();
+  if (width === 0 || height === 0) return Promise.resolve(null);
+
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+  clone.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
+  clone.setAttribute('width', String(width));
+  clone.setAttribute('height', String(height));
+  const source = new XMLSerializer().serializeToString(clone);
+  const url = URL.createObjectURL(new Blob([source], { type: 'image/svg+xml;charset=utf-8' }));
+
+  return new Promise(resolve => {
+    const image = new Image();
+    image.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(width * scale);
+      canvas.height = Math.round(height * scale);
+      const context = canvas.getContext('2d');
+      URL.revokeObjectURL(url);
+      if (!context) {
+        resolve(null);
+        return;
+      }
+      context.fillStyle = CHART_BACKGROUND;
+      context.fillRect(0, 0, canvas.width, canvas.height);
+      context.drawImage(image, 0, 0, canvas.width, canvas.height);
+      resolve({ dataUrl: canvas.toDataURL('image/png'), width, height });
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      resolve(null);
+    };
+    image.src = url;
+  });
+};
@@ -0,0 +1,55 @@
+import { AnalysisCategory } from '../types';
+import { TrendPoint } from './trends';
+
+// Shared look of the recharts time-series charts (Trends, project pages, digest).
+
+export const CATEGORY_COLORS: Record<AnalysisCategory, string> = {
+  [AnalysisCategory.ROOM]: '#06b6d4',
+  [AnalysisCategory.FOOD]: '#ec4899',
+  [AnalysisCategory.FINANCE]: '#10b981',
+  [AnalysisCategory.SCHEDULE]: '#a855f7',
+  [AnalysisCategory.GOAL]: '#f59e0b',
+  [AnalysisCategory.MAP]: '#3b82f6',
+  [AnalysisCategory.LEARNING]: '#6366f1',
+  [AnalysisCategory.PROBLEM]: '#ef4444',
+  [AnalysisCategory.GENERAL]: '#94a3b8'
+};
+
+export const TOOLTIP_STYLE = {
+  contentStyle: { background: '#0f172a', border: '1px solid rgba(255,255,255,0.1)', borderRadius: 8, fontSize: 12 },
+  itemStyle: { color: '#e2e8f0' },
+  labelStyle: { color: '#94a3b8' }
+};
+
+export const formatDate = (time: number) => new Date(time).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+export const formatNumber = (value: number) => Number.isInteger(value) ? value.toString() : value.toFixed(1);
+
+// Clickable dot: opens the history item the point came from
+export const renderDot = (color: string, onOpen: (historyId: string) => void) => (props: any) => {
+  const { cx, cy, payload, key } = props;
+  if (cx == null || cy == null) return <g key={key} />;
+  return (
+    <circle
+      key={key}
+      cx={cx}
+      cy={cy}
+      r={4}
+      fill={color}
+      stroke="#020617"
+      strokeWidth={2}
+      className="cursor-pointer"
+      onClick={() => onOpen((payload as TrendPoint).historyId)}
+    />
+  );
+};
+
+export const timeAxisProps = {
+  dataKey: 'time',
+  type: 'number' as const,
+  scale: 'time' as const,
+  domain: ['dataMin', 'dataMax'] as [string, string],
+  tickFormatter: formatDate,
+  stroke: '#64748b',
+  fontSize: 11,
+  tickLine: false
+};
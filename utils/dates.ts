@@ -0,0 +1,4 @@
+// Calendar dates as "YYYY-MM-DD" in local time. Due dates, reminders, digests and exports
+// all compare these as strings; toISOString() would give the UTC date instead.
+export const toIsoDate = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
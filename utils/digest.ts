@@ -0,0 +1,188 @@
+import { AnalysisCategory, HistoryItem } from '../types';
+import { getItemTitle } from './projects';
+import { toIsoDate } from './dates';
+import { downloadBlob } from './download';
+
+// A weekly roll-up of history: how scores moved per category, which serious risks are new,
+// how much of the action plans got done, and which entities keep coming up.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+export const DIGEST_PERIOD_DAYS = 7;
+
+// Most frequent first; entities mentioned in a single analysis aren't "recurring"
+const MAX_RECURRING_ENTITIES = 10;
+
+export interface CategoryScoreChange {
+  category: AnalysisCategory;
+  count: number;
+  average: number;
+  previousAverage: number | null; // The seven days before the period; null when there were none
+  change: number | null;
+}
+
+export interface DigestRisk {
+  historyId: string;
+  category: AnalysisCategory;
+  domain: string;
+  prediction: string;
+  source: string; // Title of the analysis it came from
+}
+
+export interface DigestActions {
+  completed: string[]; // Completed during the period, from any analysis
+  open: number;
+  overdue: number;
+}
+
+export interface RecurringEntity {
+  label: string;
+  count: number; // Analyses in the period mentioning it
+}
+
+export interface WeeklyDigest {
+  periodStart: number; // epoch ms, inclusive
+  periodEnd: number; // epoch ms, exclusive
+  analysisCount: number;
+  categories: CategoryScoreChange[];
+  newRisks: DigestRisk[];
+  actions: DigestActions;
+  recurringEntities: RecurringEntity[];
+}
+
+// Digests are produced once per week, keyed by the Monday the week starts on
+export const getWeekKey = (now = new Date()): string => {
+  const monday = new Date(now);
+  monday.setDate(monday.getDate() - ((monday.getDay() + 6) % 7));
+  return toIsoDate(monday);
+};
+
+// Free-text labels and predictions are matched case- and whitespace-insensitively
+const textKey = (text: string) => text.trim().toLowerCase().replace(/\s+/g, ' ');
+
+const average = (values: number[]) => Math.round(values.reduce((sum, value) => sum + value, 0) / values.length);
+
+// Expects live (non-trashed) history; the period is the seven days before `periodEnd`
+export const buildWeeklyDigest = (history: HistoryItem[], periodEnd = Date.now()): WeeklyDigest => {
+  const periodStart = periodEnd - DIGEST_PERIOD_DAYS * DAY_MS;
+  const previousStart = periodStart - DIGEST_PERIOD_DAYS * DAY_MS;
+  const timeOf = (item: HistoryItem) => item.timestamp.getTime();
+  const inPeriod = history.filter(item => timeOf(item) >= periodStart && timeOf(item) < periodEnd);
+  const previous = history.filter(item => timeOf(item) >= previousStart && timeOf(item) < periodStart);
+  const earlier = history.filter(item => timeOf(item) < periodStart);
+
+  // --- Score changes ---
+  const categories = [...new Set(inPeriod.map(item => item.result.category))].map((category): CategoryScoreChange => {
+    const scores = inPeriod.filter(item => item.result.category === category).map(item => item.result.score);
+    const previousScores = previous.filter(item => item.result.category === category).map(item => item.result.score);
+    const current = average(scores);
+    const previousAverage = previousScores.length > 0 ? average(previousScores) : null;
+    return {
+      category,
+      count: scores.length,
+      average: current,
+      previousAverage,
+      change: previousAverage === null ? null : current - previousAverage
+    };
+  }).sort((a, b) => b.count - a.count);
+
+  // --- New high-severity risks: not predicted by any earlier analysis ---
+  const knownRisks = new Set(earlier.flatMap(item =>
+    (item.result.consequences || []).filter(c => c.severity === 'high').map(c => textKey(c.prediction))
+  ));
+  const seen = new Set<string>();
+  const newRisks = [...inPeriod]
+    .sort((a, b) => timeOf(a) - timeOf(b))
+    .flatMap(item => (item.result.consequences || [])
+      .filter(consequence => consequence.severity === 'high')
+      .map((consequence): DigestRisk => ({
+        historyId: item.id,
+        category: item.result.category,
+        domain: consequence.domain,
+        prediction: consequence.prediction,
+        source: getItemTitle(item)
+      })))
+    .filter(risk => {
+      const key = textKey(risk.prediction);
+      if (knownRisks.has(key) || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+
+  // --- Actions ---
+  const endDate = toIsoDate(new Date(periodEnd));
+  const allActions = history.flatMap(item => item.actions);
+  const actions: DigestActions = {
+    completed: allActions
+      .filter(action => action.done && action.completedAt !== undefined && action.completedAt >= periodStart && action.completedAt < periodEnd)
+      .map(action => action.text),
+    open: allActions.filter(action => !action.done).length,
+    overdue: allActions.filter(action => !action.done && action.dueDate && action.dueDate < endDate).length
+  };
+
+  // --- Recurring entities ---
+  const entities = new Map<string, RecurringEntity>();
+  inPeriod.forEach(item => {
+    const labels = new Map<string, string>();
+    (item.result.knowledgeGraph?.nodes || [])
+      .filter(node => node.type === 'entity')
+      .forEach(node => labels.set(textKey(node.label), node.label.trim()));
+    labels.forEach((label, key) => {
+      const entry = entities.get(key) || { label, count: 0 };
+      entry.count++;
+      entities.set(key, entry);
+    });
+  });
+  const recurringEntities = [...entities.values()]
+    .filter(entity => entity.count > 1)
+    .sort((a, b) => b.count - a.count)
+    .slice(0, MAX_RECURRING_ENTITIES);
+
+  return { periodStart, periodEnd, analysisCount: inPeriod.length, categories, newRisks, actions, recurringEntities };
+};
+
+export const formatDigestPeriod = (digest: WeeklyDigest): string =>
+  `${new Date(digest.periodStart).toLocaleDateString()} – ${new Date(digest.periodEnd - 1).toLocaleDateString()}`;
+
+export const formatScoreChange = (change: number | null): string =>
+  change === null ? 'new' : change > 0 ? `+${change}` : change === 0 ? '±0' : String(change);
+
+// --- Markdown ---
+export const toDigestMarkdown = (digest: WeeklyDigest): string => {
+  const lines = [`# Weekly Digest`, '', `${formatDigestPeriod(digest)} · ${digest.analysisCount} ${digest.analysisCount === 1 ? 'analysis' : 'analyses'}`, ''];
+
+  lines.push('## Scores by Category', '');
+  if (digest.categories.length > 0) {
+    lines.push('| Category | Analyses | Average | Change |', '| --- | ---: | ---: | ---: |');
+    digest.categories.forEach(c => lines.push(`| ${c.category} | ${c.count} | ${c.average} | ${formatScoreChange(c.change)} |`));
+  } else {
+    lines.push('No analyses this week.');
+  }
+  lines.push('');
+
+  lines.push('## New High-Severity Risks', '');
+  if (digest.newRisks.length > 0) {
+    digest.newRisks.forEach(risk => lines.push(`- **${risk.domain}** ${risk.prediction.replace(/\s*\r?\n\s*/g, ' ')} _(${risk.source})_`));
+  } else {
+    lines.push('None.');
+  }
+  lines.push('');
+
+  lines.push('## Actions', '', `${digest.actions.completed.length} completed · ${digest.actions.open} open · ${digest.actions.overdue} overdue`, '');
+  digest.actions.completed.forEach(text => lines.push(`- [x] ${text.replace(/\s*\r?\n\s*/g, ' ')}`));
+  if (digest.actions.completed.length > 0) lines.push('');
+
+  lines.push('## Recurring Entities', '');
+  if (digest.recurringEntities.length > 0) {
+    digest.recurringEntities.forEach(entity => lines.push(`- ${entity.label} (${entity.count} analyses)`));
+  } else {
+    lines.push('None.');
+  }
+  lines.push('');
+
+  return lines.join('\n');
+};
+
+export const downloadDigestMarkdown = (digest: WeeklyDigest) => {
+  const blob = new Blob([toDigestMarkdown(digest)], { type: 'text/markdown;charset=utf-8' });
+  downloadBlob(blob, `aether-weekly-digest-${toIsoDate(new Date(digest.periodEnd - 1))}.md`);
+};
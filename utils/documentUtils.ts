@@ -0,0 +1,147 @@
+import { DocumentKind } from '../types';
+
+export interface ExtractedDocument {
+  kind: DocumentKind;
+  text: string;
+  pageImages: string[]; // Rendered pages of scanned PDFs (JPEG data URLs)
+  summary: string; // Short label for the preview chip, e.g. "4 pages" or "120 rows × 6 cols"
+}
+
+// Keep prompts bounded: very long statements are truncated with a marker.
+const MAX_DOCUMENT_CHARS = 60000;
+// Pages with less extractable text than this are treated as scanned images.
+const SCANNED_PAGE_TEXT_THRESHOLD = 20;
+const MAX_RENDERED_PAGES = 5;
+const PAGE_RENDER_SCALE = 1.5;
+
+export const DOCUMENT_ACCEPT = ".pdf,.csv,.tsv,.md,.markdown,.txt,application/pdf,text/csv,text/tab-separated-values,text/markdown,text/plain";
+
+export const detectDocumentKind = (file: File): DocumentKind | null => {
+  const name = file.name.toLowerCase();
+  if (file.type === 'application/pdf' || name.endsWith('.pdf')) return 'pdf';
+  if (file.type === 'text/csv' || name.endsWith('.csv')) return 'csv';
+  if (file.type === 'text/tab-separated-values' || name.endsWith('.tsv')) return 'tsv';
+  if (file.type === 'text/markdown' || name.endsWith('.md') || name.endsWith('.markdown')) return 'markdown';
+  if (file.type === 'text/plain' || name.endsWith('.txt')) return 'text';
+  return null;
+};
+
+const truncate = (text: string) =>
+  text.length > MAX_DOCUMENT_CHARS
+    ? `${text.slice(0, MAX_DOCUMENT_CHARS)}\n[... truncated ${text.length - MAX_DOCUMENT_CHARS} characters]`
+    : text;
+
+// --- Delimited (CSV/TSV) ---
+// Minimal RFC 4180 parser: handles quoted fields, escaped quotes and embedded newlines.
+export const parseDelimited = (text: string, delimiter: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (inQuotes) {
+      if (ch === '"' && text[i + 1] === '"') { field += '"'; i++; }
+      else if (ch === '"') inQuotes = false;
+      else field += ch;
+    } else if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(cell => cell.trim() !== ''));
+};
+
+const extractDelimited = async (file: File, kind: 'csv' | 'tsv'): Promise<ExtractedDocument> => {
+  const raw = await file.text();
+  const rows = parseDelimited(raw, kind === 'tsv' ? '\t' : ',');
+  const columns = rows.reduce((max, r) => Math.max(max, r.length), 0);
+
+  // Re-serialize as TSV so the model always sees one unambiguous format
+  const text = rows.map(r => r.map(cell => cell.replace(/\s+/g, ' ').trim()).join('\t')).join('\n');
+  return {
+    kind,
+    text: truncate(text),
+    pageImages: [],
+    summary: `${Math.max(rows.length - 1, 0)} rows × ${columns} cols`
+  };
+};
+
+// --- PDF ---
+const extractPdf = async (file: File): Promise<ExtractedDocument> => {
+  // Loaded lazily: pdf.js is large and only needed once a PDF is attached
+  const pdfjs = await import('pdfjs-dist');
+  if (!pdfjs.GlobalWorkerOptions.workerSrc) {
+    pdfjs.GlobalWorkerOptions.workerSrc = `https://cdn.jsdelivr.net/npm/pdfjs-dist@${pdfjs.version}/build/pdf.worker.min.mjs`;
+  }
+
+  const pdf = await pdfjs.getDocument({ data: await file.arrayBuffer() }).promise;
+  const pageTexts: string[] = [];
+  const pageImages: string[] = [];
+
+  try {
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const content = await page.getTextContent();
+      const pageText = content.items
+        .map(item => ('str' in item ? item.str + (item.hasEOL ? '\n' : ' ') : ''))
+        .join('')
+        .trim();
+
+      pageTexts.push(`--- Page ${pageNumber} ---\n${pageText}`);
+
+      // Scanned page: no text layer, so send a rendered image instead
+      if (pageText.length < SCANNED_PAGE_TEXT_THRESHOLD && pageImages.length < MAX_RENDERED_PAGES) {
+        const viewport = page.getViewport({ scale: PAGE_RENDER_SCALE });
+        const canvas = document.createElement('canvas');
+        canvas.width = viewport.width;
+        canvas.height = viewport.height;
+        const context = canvas.getContext('2d');
+        if (context) {
+          await page.render({ canvasContext: context, viewport }).promise;
+          pageImages.push(canvas.toDataURL('image/jpeg', 0.85));
+        }
+      }
+      page.cleanup();
+    }
+  } finally {
+    await pdf.destroy();
+  }
+
+  const pageCount = pageTexts.length;
+  return {
+    kind: 'pdf',
+    text: truncate(pageTexts.join('\n\n')),
+    pageImages,
+    summary: `${pageCount} page${pageCount === 1 ? '' : 's'}${pageImages.length > 0 ? ` • ${pageImages.length} scanned` : ''}`
+  };
+};
+
+// --- Entry Point ---
+export const extractDocument = async (file: File): Promise<ExtractedDocument> => {
+  const kind = detectDocumentKind(file);
+  if (!kind) throw new Error(`Unsupported document type: ${file.name}`);
+
+  if (kind === 'pdf') return extractPdf(file);
+  if (kind === 'csv' || kind === 'tsv') return extractDelimited(file, kind);
+
+  const text = await file.text();
+  const lineCount = text.split('\n').length;
+  return { kind, text: truncate(text), pageImages: [], summary: `${lineCount} lines` };
+};
@@ -0,0 +1,13 @@
+// Browsers can still be reading the object URL after click() returns; revoking it right
+// away cancels the download in some of them, so it is released well afterwards instead.
+const REVOKE_DELAY_MS = 40 * 1000;
+
+// Saves a Blob as a file through a temporary link.
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), REVOKE_DELAY_MS);
+};
@@ -0,0 +1,67 @@
+import { GraphNode } from '../types';
+
+// Concentric layout for a single analysis' knowledge graph, shared by the dashboard,
+// shared snapshots and the PDF report so the graph looks the same everywhere.
+
+export interface PositionedNode extends GraphNode {
+  x: number;
+  y: number;
+}
+
+export const GRAPH_NODE_COLORS: Record<string, string> = {
+  risk: '#ef4444', // Red
+  outcome: '#f59e0b', // Amber
+  action: '#10b981', // Green
+  entity: '#06b6d4' // Cyan
+};
+
+export const getNodeColor = (type: string) => GRAPH_NODE_COLORS[type] || '#94a3b8'; // Slate 400
+
+// Radii are for the dashboard's 400×300 view box and scale with the requested size
+export const layoutKnowledgeGraph = (nodes: GraphNode[], width = 400, height = 300): PositionedNode[] => {
+  const cx = width / 2;
+  const cy = height / 2;
+  const scale = Math.min(width / 400, height / 300);
+
+  // Group nodes by hierarchy
+  const entities = nodes.filter(n => n.type === 'entity');
+  const actions = nodes.filter(n => n.type === 'action');
+  const risks = nodes.filter(n => n.type === 'risk');
+  const outcomes = nodes.filter(n => n.type === 'outcome');
+  const others = nodes.filter(n => !['entity', 'action', 'risk', 'outcome'].includes(n.type));
+
+  const posMap = new Map<string, { x: number, y: number }>();
+
+  // Helper: Distribute nodes along a circle
+  const distribute = (list: GraphNode[], radius: number, startAngle: number = 0) => {
+    const count = list.length;
+    if (count === 0) return;
+    const step = (2 * Math.PI) / count;
+    list.forEach((node, i) => {
+      const angle = startAngle + i * step - Math.PI / 2; // Start from top
+      posMap.set(node.id, {
+        x: cx + radius * scale * Math.cos(angle),
+        y: cy + radius * scale * Math.sin(angle)
+      });
+    });
+  };
+
+  // Layer 1: Entities (Center)
+  // If only 1 entity, put it dead center. If multiple, small ring.
+  if (entities.length === 1) {
+    posMap.set(entities[0].id, { x: cx, y: cy });
+  } else {
+    distribute(entities, 40, 0);
+  }
+
+  // Layer 2: Actions (Middle Ring)
+  distribute(actions, 90, 0.5); // Slight angle offset
+
+  // Layer 3: Outcomes & Risks (Outer Ring)
+  distribute([...risks, ...outcomes, ...others], 130, 1.0);
+
+  return nodes.map(n => ({
+    ...n,
+    ...(posMap.get(n.id) || { x: cx, y: cy }) // Fallback
+  }));
+};
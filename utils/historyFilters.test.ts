@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { AnalysisCategory } from '../types';
+import { DEFAULT_HISTORY_FILTERS, HistoryFilters, filtersFromParams, filtersToParams } from './historyFilters';
+
+describe('history filter URLs', () => {
+  it('round-trips every non-default filter', () => {
+    const filters: HistoryFilters = {
+      query: 'rent',
+      categories: [AnalysisCategory.FINANCE, AnalysisCategory.GOAL],
+      tags: ['move', 'q1'],
+      minScore: 20,
+      maxScore: 80,
+      from: '2025-01-01',
+      to: '2025-03-31',
+      input: 'merged',
+      hasRisks: true,
+      sort: 'score-desc'
+    };
+    expect(filtersFromParams(filtersToParams(filters))).toEqual(filters);
+  });
+
+  it('writes nothing for the defaults', () => {
+    expect(filtersToParams(DEFAULT_HISTORY_FILTERS).toString()).toBe('');
+  });
+
+  it('falls back to defaults for hand-edited values', () => {
+    const filters = filtersFromParams(new URLSearchParams('cat=FINANCE,ASTROLOGY&min=abc&max=250&from=yesterday&input=both&sort=random'));
+    expect(filters.categories).toEqual([AnalysisCategory.FINANCE]);
+    expect(filters.minScore).toBe(DEFAULT_HISTORY_FILTERS.minScore);
+    expect(filters.maxScore).toBe(100);
+    expect(filters.from).toBe('');
+    expect(filters.input).toBe('all');
+    expect(filters.sort).toBe(DEFAULT_HISTORY_FILTERS.sort);
+  });
+
+  it.each(['toString', 'constructor', '__proto__', 'hasOwnProperty'])('rejects the prototype key ?sort=%s', sort => {
+    expect(filtersFromParams(new URLSearchParams({ sort })).sort).toBe(DEFAULT_HISTORY_FILTERS.sort);
+  });
+});
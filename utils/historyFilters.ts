@@ -0,0 +1,211 @@
+import { AnalysisCategory, HistoryItem } from '../types';
+
+// History search and facets. The filter state round-trips through the URL query
+// string so a filtered view can be bookmarked or shared.
+
+export type HistorySort = 'newest' | 'oldest' | 'score-desc' | 'score-asc' | 'relevance';
+export type InputFacet = 'all' | 'merged' | 'single';
+
+export interface HistoryFilters {
+  query: string;
+  categories: AnalysisCategory[]; // Empty = all
+  tags: string[]; // Item must carry every listed tag
+  minScore: number;
+  maxScore: number;
+  from: string; // YYYY-MM-DD, inclusive; '' = open
+  to: string;
+  input: InputFacet;
+  hasRisks: boolean;
+  sort: HistorySort;
+}
+
+export const DEFAULT_HISTORY_FILTERS: HistoryFilters = {
+  query: '',
+  categories: [],
+  tags: [],
+  minScore: 0,
+  maxScore: 100,
+  from: '',
+  to: '',
+  input: 'all',
+  hasRisks: false,
+  sort: 'newest'
+};
+
+export const HISTORY_SORT_LABELS: Record<HistorySort, string> = {
+  newest: 'Newest first',
+  oldest: 'Oldest first',
+  'score-desc': 'Highest score',
+  'score-asc': 'Lowest score',
+  relevance: 'Best match'
+};
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// --- URL Round-Trip ---
+// Only non-default values are written, keeping bookmarked URLs short.
+export const filtersToParams = (filters: HistoryFilters, params = new URLSearchParams()): URLSearchParams => {
+  const set = (key: string, value: string, isDefault: boolean) => {
+    if (isDefault) params.delete(key);
+    else params.set(key, value);
+  };
+  set('q', filters.query, !filters.query.trim());
+  set('cat', filters.categories.join(','), filters.categories.length === 0);
+  set('tags', filters.tags.join(','), filters.tags.length === 0);
+  set('min', String(filters.minScore), filters.minScore === DEFAULT_HISTORY_FILTERS.minScore);
+  set('max', String(filters.maxScore), filters.maxScore === DEFAULT_HISTORY_FILTERS.maxScore);
+  set('from', filters.from, !filters.from);
+  set('to', filters.to, !filters.to);
+  set('input', filters.input, filters.input === 'all');
+  set('risks', '1', !filters.hasRisks);
+  set('sort', filters.sort, filters.sort === DEFAULT_HISTORY_FILTERS.sort);
+  return params;
+};
+
+// Tolerates hand-edited URLs: anything unparseable falls back to the default.
+export const filtersFromParams = (params: URLSearchParams): HistoryFilters => {
+  const score = (key: string, fallback: number) => {
+    const value = Number(params.get(key));
+    return params.has(key) && Number.isFinite(value) ? Math.min(100, Math.max(0, value)) : fallback;
+  };
+  const date = (key: string) => DATE_PATTERN.test(params.get(key) || '') ? params.get(key)! : '';
+  const categories = (params.get('cat') || '').split(',')
+    .filter((value): value is AnalysisCategory => Object.values(AnalysisCategory).includes(value as AnalysisCategory));
+  const input = params.get('input');
+  const sort = params.get('sort');
+
+  return {
+    query: params.get('q') || '',
+    categories,
+    tags: (params.get('tags') || '').split(',').filter(Boolean),
+    minScore: score('min', DEFAULT_HISTORY_FILTERS.minScore),
+    maxScore: score('max', DEFAULT_HISTORY_FILTERS.maxScore),
+    from: date('from'),
+    to: date('to'),
+    input: input === 'merged' || input === 'single' ? input : 'all',
+    hasRisks: params.get('risks') === '1',
+    // Own keys only: `in` would also accept prototype names like ?sort=toString
+    sort: sort && Object.prototype.hasOwnProperty.call(HISTORY_SORT_LABELS, sort) ? sort as HistorySort : DEFAULT_HISTORY_FILTERS.sort
+  };
+};
+
+export const countActiveFilters = (filters: HistoryFilters): number =>
+  Array.from(filtersToParams({ ...filters, query: '', sort: DEFAULT_HISTORY_FILTERS.sort }).keys()).length;
+
+// --- Full-Text Search ---
+interface SearchField {
+  label: string;
+  texts: string[];
+}
+
+const searchFields = (item: HistoryItem): SearchField[] => [
+  { label: 'Title', texts: item.title ? [item.title] : [] },
+  { label: 'Tag', texts: item.tags },
+  { label: 'Summary', texts: [item.result.summary] },
+  { label: 'Insight', texts: item.result.insights },
+  { label: 'Action', texts: item.result.actionPlan },
+  { label: 'Risk', texts: item.result.risks },
+  { label: 'Chat', texts: item.chatHistory.map(message => message.text) }
+];
+
+const tokenize = (query: string) => query.toLowerCase().split(/\s+/).filter(Boolean);
+
+// Every token must appear somewhere in the item; the score counts total occurrences.
+const scoreItem = (item: HistoryItem, tokens: string[]): number => {
+  const haystack = searchFields(item).flatMap(field => field.texts).join('\n').toLowerCase();
+  let score = 0;
+  for (const token of tokens) {
+    const hits = haystack.split(token).length - 1;
+    if (hits === 0) return 0;
+    score += hits;
+  }
+  return score;
+};
+
+export interface SearchSnippet {
+  field: string;
+  text: string; // Excerpt around the first match
+}
+
+const SNIPPET_RADIUS = 60;
+
+// Where the first query token matched, so results can show more than the summary.
+export const findSnippet = (item: HistoryItem, query: string): SearchSnippet | null => {
+  const [token] = tokenize(query);
+  if (!token) return null;
+  for (const field of searchFields(item)) {
+    for (const text of field.texts) {
+      const index = text.toLowerCase().indexOf(token);
+      if (index === -1) continue;
+      const start = Math.max(0, index - SNIPPET_RADIUS);
+      const end = Math.min(text.length, index + token.length + SNIPPET_RADIUS);
+      return {
+        field: field.label,
+        text: `${start > 0 ? '…' : ''}${text.slice(start, end)}${end < text.length ? '…' : ''}`
+      };
+    }
+  }
+  return null;
+};
+
+// --- Facets ---
+const toDayStart = (date: string) => new Date(`${date}T00:00:00`).getTime();
+
+// All facets except categories; used both for filtering and for per-category counts.
+const matchesNonCategoryFacets = (item: HistoryItem, filters: HistoryFilters): boolean => {
+  const { score, isMergedReality, risks } = item.result;
+  if (score < filters.minScore || score > filters.maxScore) return false;
+
+  const time = item.timestamp.getTime();
+  if (filters.from && time < toDayStart(filters.from)) return false;
+  if (filters.to && time >= toDayStart(filters.to) + 24 * 60 * 60 * 1000) return false;
+
+  if (filters.input === 'merged' && !isMergedReality) return false;
+  if (filters.input === 'single' && isMergedReality) return false;
+  if (filters.hasRisks && risks.length === 0) return false;
+  if (!filters.tags.every(tag => item.tags.includes(tag))) return false;
+  return true;
+};
+
+export interface FilteredHistory {
+  items: HistoryItem[];
+  categoryCounts: Partial<Record<AnalysisCategory, number>>; // Matches per category, ignoring the category facet
+  tagCounts: Record<string, number>; // Tags on the matching items
+}
+
+export const applyHistoryFilters = (history: HistoryItem[], filters: HistoryFilters): FilteredHistory => {
+  const tokens = tokenize(filters.query);
+  const relevance = new Map<string, number>();
+  const categoryCounts: Partial<Record<AnalysisCategory, number>> = {};
+
+  const candidates = history.filter(item => {
+    if (tokens.length > 0) {
+      const score = scoreItem(item, tokens);
+      if (score === 0) return false;
+      relevance.set(item.id, score);
+    }
+    if (!matchesNonCategoryFacets(item, filters)) return false;
+    categoryCounts[item.result.category] = (categoryCounts[item.result.category] || 0) + 1;
+    return true;
+  });
+
+  const items = filters.categories.length > 0
+    ? candidates.filter(item => filters.categories.includes(item.result.category))
+    : candidates;
+
+  const tagCounts: Record<string, number> = {};
+  items.forEach(item => item.tags.forEach(tag => { tagCounts[tag] = (tagCounts[tag] || 0) + 1; }));
+
+  const byTime = (a: HistoryItem, b: HistoryItem) => b.timestamp.getTime() - a.timestamp.getTime();
+  const comparators: Record<HistorySort, (a: HistoryItem, b: HistoryItem) => number> = {
+    newest: byTime,
+    oldest: (a, b) => -byTime(a, b),
+    'score-desc': (a, b) => b.result.score - a.result.score || byTime(a, b),
+    'score-asc': (a, b) => a.result.score - b.result.score || byTime(a, b),
+    relevance: (a, b) => (relevance.get(b.id) || 0) - (relevance.get(a.id) || 0) || byTime(a, b)
+  };
+
+  // Pinned items lead whatever the chosen order
+  const sorted = [...items].sort((a, b) => Number(b.pinned) - Number(a.pinned) || comparators[filters.sort](a, b));
+  return { items: sorted, categoryCounts, tagCounts };
+};
@@ -0,0 +1,76 @@
+// Image formats Gemini accepts as inline data; anything else is converted to JPEG.
+const MODEL_IMAGE_MIME_TYPES = ['image/png', 'image/jpeg', 'image/webp', 'image/heic', 'image/heif'];
+
+// Some browsers report HEIC/HEIF with an empty type, so fall back to the extension.
+const EXTENSION_MIME_TYPES: Record<string, string> = {
+  heic: 'image/heic',
+  heif: 'image/heif',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp'
+};
+
+export const getDataUrlMimeType = (dataUrl: string): string | null => {
+  const match = /^data:([^;,]+)[;,]/.exec(dataUrl);
+  return match ? match[1] : null;
+};
+
+export const readAsDataUrl = (file: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = reject;
+    reader.readAsDataURL(file);
+  });
+
+// Synchronous so it can run before an IndexedDB transaction opens (awaiting would auto-commit it).
+export const dataUrlToBlob = (dataUrl: string): Blob => {
+  const base64 = dataUrl.slice(dataUrl.indexOf(',') + 1);
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return new Blob([bytes], { type: getDataUrlMimeType(dataUrl) || 'application/octet-stream' });
+};
+
+const convertToJpeg = (dataUrl: string): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = img.naturalWidth;
+      canvas.height = img.naturalHeight;
+      const ctx = canvas.getContext('2d');
+      if (!ctx) return reject(new Error("Canvas unavailable"));
+      ctx.fillStyle = '#ffffff'; // Flatten transparency
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+      ctx.drawImage(img, 0, 0);
+      resolve(canvas.toDataURL('image/jpeg', 0.92));
+    };
+    img.onerror = () => reject(new Error("Image could not be decoded"));
+    img.src = dataUrl;
+  });
+
+export interface PreparedImage {
+  dataUrl: string;
+  mimeType: string;
+}
+
+export const prepareImageFile = async (file: File): Promise<PreparedImage> => {
+  const extension = file.name.split('.').pop()?.toLowerCase() || '';
+  const mimeType = file.type || EXTENSION_MIME_TYPES[extension] || 'application/octet-stream';
+  let dataUrl = await readAsDataUrl(file);
+
+  // FileReader uses the browser-reported type; make the data URL header truthful
+  if (getDataUrlMimeType(dataUrl) !== mimeType) {
+    dataUrl = dataUrl.replace(/^data:[^;,]*/, `data:${mimeType}`);
+  }
+
+  if (MODEL_IMAGE_MIME_TYPES.includes(mimeType)) return { dataUrl, mimeType };
+
+  return { dataUrl: await convertToJpeg(dataUrl), mimeType: 'image/jpeg' };
+};
+
+// Browsers other than Safari cannot render HEIC, so previews fall back to an icon.
+export const isBrowserRenderable = (mimeType?: string) =>
+  !mimeType || !['image/heic', 'image/heif'].includes(mimeType);
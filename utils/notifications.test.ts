@@ -0,0 +1,72 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AnalysisCategory, AnalysisResult } from '../types';
+import { updateSettings } from '../services/settingsStore';
+import { notificationsAllowed, notifyAnalysisComplete, showReminderNotification } from './notifications';
+import { Reminder } from './reminders';
+
+const NotificationMock = vi.fn() as unknown as ReturnType<typeof vi.fn> & { permission: NotificationPermission };
+
+const result: AnalysisResult = {
+  category: AnalysisCategory.FINANCE, summary: 'Budget is on track', score: 72, metrics: [], insights: [],
+  actionPlan: [], risks: [], opportunities: [], consequences: []
+};
+
+const reminder: Reminder = {
+  key: 'action:a1:2025-03-01', kind: 'action', historyId: 'h1', category: AnalysisCategory.FINANCE,
+  title: 'Action due', body: 'Cancel the gym membership'
+};
+
+describe('notification gating', () => {
+  beforeEach(() => {
+    NotificationMock.mockClear();
+    NotificationMock.permission = 'granted';
+    vi.stubGlobal('Notification', NotificationMock);
+    vi.spyOn(document, 'visibilityState', 'get').mockReturnValue('hidden');
+    updateSettings({ notifications: true });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('requires both the setting and browser permission', () => {
+    expect(notificationsAllowed()).toBe(true);
+
+    updateSettings({ notifications: false });
+    expect(notificationsAllowed()).toBe(false);
+
+    updateSettings({ notifications: true });
+    NotificationMock.permission = 'denied';
+    expect(notificationsAllowed()).toBe(false);
+  });
+
+  it('notifies about a finished analysis only while allowed and in the background', () => {
+    notifyAnalysisComplete(result);
+    expect(NotificationMock).toHaveBeenCalledTimes(1);
+    expect(NotificationMock.mock.calls[0][0]).toBe('FINANCE analysis complete');
+
+    updateSettings({ notifications: false });
+    notifyAnalysisComplete(result);
+    expect(NotificationMock).toHaveBeenCalledTimes(1);
+
+    updateSettings({ notifications: true });
+    vi.spyOn(document, 'visibilityState', 'get').mockReturnValue('visible');
+    notifyAnalysisComplete(result);
+    expect(NotificationMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('shows no reminders when the master switch is off', async () => {
+    const registration = { active: {}, showNotification: vi.fn(() => Promise.resolve()) } as unknown as ServiceWorkerRegistration;
+
+    updateSettings({ notifications: false });
+    await showReminderNotification(reminder, registration, () => {});
+    await showReminderNotification(reminder, null, () => {});
+    expect(registration.showNotification).not.toHaveBeenCalled();
+    expect(NotificationMock).not.toHaveBeenCalled();
+
+    updateSettings({ notifications: true });
+    await showReminderNotification(reminder, registration, () => {});
+    expect(registration.showNotification).toHaveBeenCalledWith('Action due', expect.objectContaining({ body: reminder.body }));
+  });
+});
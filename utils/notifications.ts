@@ -0,0 +1,68 @@
+import { AnalysisResult } from '../types';
+import { getSettings } from '../services/settingsStore';
+import { Reminder } from './reminders';
+
+export const notificationsSupported = () => typeof window !== 'undefined' && 'Notification' in window;
+
+// The Settings master switch plus browser permission; every notification goes through this
+export const notificationsAllowed = () =>
+  getSettings().notifications && notificationsSupported() && Notification.permission === 'granted';
+
+// Asks once; resolves true only if the user has granted permission.
+export const ensureNotificationPermission = async (): Promise<boolean> => {
+  if (!notificationsSupported()) return false;
+  if (Notification.permission === 'granted') return true;
+  if (Notification.permission === 'denied') return false;
+  return (await Notification.requestPermission()) === 'granted';
+};
+
+// Only alerts when the tab is in the background; a visible dashboard is notice enough.
+export const notifyAnalysisComplete = (result: AnalysisResult) => {
+  if (!notificationsAllowed()) return;
+  if (document.visibilityState === 'visible') return;
+
+  const notification = new Notification(`${result.category} analysis complete`, {
+    body: `Score ${result.score}/100 — ${result.summary.slice(0, 120)}`,
+    tag: 'aether-analysis-complete'
+  });
+  notification.onclick = () => {
+    window.focus();
+    notification.close();
+  };
+};
+
+// Notification buttons are a service-worker feature and missing from the DOM typings
+interface ReminderNotificationOptions extends NotificationOptions {
+  actions?: { action: string; title: string }[];
+}
+
+// Through the service worker where one is active, so the notification gets Snooze / Dismiss
+// buttons and can reopen the app; otherwise a plain page notification that opens the analysis.
+export const showReminderNotification = async (
+  reminder: Reminder,
+  registration: ServiceWorkerRegistration | null,
+  onOpen: (historyId: string) => void
+) => {
+  if (!notificationsAllowed()) return;
+
+  const options: ReminderNotificationOptions = {
+    body: reminder.body,
+    tag: `aether-reminder-${reminder.key}`,
+    data: { key: reminder.key, historyId: reminder.historyId }
+  };
+
+  if (registration?.active) {
+    await registration.showNotification(reminder.title, {
+      ...options,
+      actions: [{ action: 'snooze', title: 'Snooze 1h' }, { action: 'dismiss', title: 'Dismiss' }]
+    } as NotificationOptions);
+    return;
+  }
+
+  const notification = new Notification(reminder.title, options);
+  notification.onclick = () => {
+    window.focus();
+    onOpen(reminder.historyId);
+    notification.close();
+  };
+};
@@ -0,0 +1,43 @@
+// Incremental parser for a streamed top-level JSON object.
+// Returns only the top-level fields whose values are fully received, so callers
+// never see a half-written array or string.
+export const parseCompletedFields = <T extends object>(text: string): Partial<T> => {
+  const start = text.indexOf('{');
+  if (start === -1) return {};
+
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let lastCompleteEnd = -1; // index just past the last completed top-level value
+
+  for (let i = start; i < text.length; i++) {
+    const ch = text[i];
+
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (ch === '\\') escaped = true;
+      else if (ch === '"') inString = false;
+      continue;
+    }
+
+    if (ch === '"') inString = true;
+    else if (ch === '{' || ch === '[') depth++;
+    else if (ch === '}' || ch === ']') {
+      depth--;
+      if (depth === 0) {
+        lastCompleteEnd = i;
+        break;
+      }
+    } else if (ch === ',' && depth === 1) {
+      lastCompleteEnd = i;
+    }
+  }
+
+  if (lastCompleteEnd === -1) return {};
+
+  try {
+    return JSON.parse(text.slice(start, lastCompleteEnd) + '}') as Partial<T>;
+  } catch {
+    return {};
+  }
+};
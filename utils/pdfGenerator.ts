@@ -1,9 +1,56 @@
 import { jsPDF } from "jspdf";
-import { AnalysisResult } from "../types";
+import { AnalysisLens, AnalysisResult } from "../types";
+import { getDataUrlMimeType } from "./imageUtils";
+import { PREDICTION_LEVELS, buildPredictionMatrix } from "./predictionMatrix";
+import { WeeklyDigest, formatDigestPeriod, formatScoreChange } from "./digest";
+import { GRAPH_NODE_COLORS, getNodeColor, layoutKnowledgeGraph } from "./graphLayout";
+import { ChartImage } from "./chartImage";
+
+// jsPDF image formats keyed by MIME type; other types (e.g. HEIC) are skipped.
+const PDF_IMAGE_FORMATS: Record<string, string> = {
+  'image/jpeg': 'JPEG',
+  'image/png': 'PNG',
+  'image/webp': 'WEBP'
+};
+
+const HEADER_MARGIN = 20;
+
+// Dark banner with the product name, a subtitle and up to two right-aligned lines
+const drawHeader = (doc: jsPDF, subtitle: string, details: string[]) => {
+  const pageWidth = doc.internal.pageSize.getWidth();
+  doc.setFillColor(15, 23, 42); // Slate 900
+  doc.rect(0, 0, pageWidth, 40, 'F');
+
+  doc.setTextColor(255, 255, 255);
+  doc.setFontSize(22);
+  doc.setFont("helvetica", "bold");
+  doc.text("AETHER ANALYTICA", HEADER_MARGIN, 25);
+
+  doc.setFontSize(10);
+  doc.setFont("helvetica", "normal");
+  doc.setTextColor(148, 163, 184); // Slate 400
+  doc.text(subtitle, HEADER_MARGIN, 33);
+  details.slice(0, 2).forEach((detail, i) => doc.text(detail, pageWidth - HEADER_MARGIN, 25 + i * 8, { align: "right" }));
+};
+
+const hexToRgb = (hex: string): [number, number, number] =>
+  [parseInt(hex.slice(1, 3), 16), parseInt(hex.slice(3, 5), 16), parseInt(hex.slice(5, 7), 16)];
+
+const drawPageFooters = (doc: jsPDF) => {
+  const pageCount = doc.getNumberOfPages();
+  for(let i = 1; i <= pageCount; i++) {
+      doc.setPage(i);
+      doc.setFontSize(8);
+      doc.setTextColor(148, 163, 184);
+      doc.text(`Generated by Aether Analytica - Page ${i} of ${pageCount}`, doc.internal.pageSize.getWidth() / 2, doc.internal.pageSize.getHeight() - 10, { align: "center" });
+  }
+};
 
 export const generatePDFReport = (
   result: AnalysisResult, 
-  userImages?: string[] | null
+  userImages?: string[] | null,
+  lens?: AnalysisLens,
+  chartImage?: ChartImage | null // From renderChartImage; without it the data is drawn as bars
 ) => {
   const doc = new jsPDF();
   const PAGE_HEIGHT = doc.internal.pageSize.getHeight();
@@ -21,9 +68,36 @@ export const generatePDFReport = (
     }
   };
 
+  // --- Table of Contents ---
+  // Sections are known before rendering, so the contents list is laid out on page 1 first
+  // and its page numbers are filled in once every section has found its page.
+  const sectionTitles = [
+    "EXECUTIVE SUMMARY",
+    ...(lens ? [`LENS: ${lens.name.toUpperCase()}`] : []),
+    ...(result.metrics.length > 0 ? ["KEY METRICS"] : []),
+    ...(result.chartData?.length ? ["DATA BREAKDOWN"] : []),
+    ...(result.knowledgeGraph?.nodes.length ? ["KNOWLEDGE GRAPH"] : []),
+    "STRATEGIC INSIGHTS",
+    "RECOMMENDED ACTIONS",
+    ...(result.consequences.length > 0 ? ["FUTURE CONSEQUENCES"] : []),
+    ...(result.predictions?.length ? ["PREDICTIONS"] : []),
+    ...(result.causeEffectChain?.length ? ["LOGIC CHAIN"] : []),
+    ...(result.mergeConnections?.length ? ["REALITY MERGE ANALYSIS"] : []),
+    "RISKS & OPPORTUNITIES"
+  ];
+  const sectionPages = new Map<string, number>();
+
+  const markSection = (title: string) => {
+    const pageNumber = doc.getCurrentPageInfo().pageNumber;
+    sectionPages.set(title, pageNumber);
+    doc.outline.add(null, title, { pageNumber });
+  };
+
   // --- Helper: Add Section Title ---
+  // Keeps the title on the same page as the start of its content
   const addSectionTitle = (title: string, color: [number, number, number] = [15, 23, 42]) => {
-    checkPageBreak(15);
+    checkPageBreak(25);
+    markSection(title);
     doc.setFontSize(14);
     doc.setFont("helvetica", "bold");
     doc.setTextColor(color[0], color[1], color[2]);
@@ -62,23 +136,28 @@ export const generatePDFReport = (
   };
 
   // --- 1. HEADER ---
-  doc.setFillColor(15, 23, 42); // Slate 900
-  doc.rect(0, 0, PAGE_WIDTH, 40, 'F');
-  
-  doc.setTextColor(255, 255, 255);
-  doc.setFontSize(22);
-  doc.setFont("helvetica", "bold");
-  doc.text("AETHER ANALYTICA", MARGIN, 25);
-  
+  drawHeader(doc, "INTELLIGENCE REPORT", [new Date().toLocaleString(), ...(lens ? [`LENS: ${lens.name.toUpperCase()}`] : [])]);
+
+  cursorY = 52;
   doc.setFontSize(10);
-  doc.setFont("helvetica", "normal");
-  doc.setTextColor(148, 163, 184); // Slate 400
-  doc.text("INTELLIGENCE REPORT", MARGIN, 33);
-  
-  const dateStr = new Date().toLocaleString();
-  doc.text(dateStr, PAGE_WIDTH - MARGIN, 25, { align: "right" });
-  
-  cursorY = 55; 
+  doc.setFont("helvetica", "bold");
+  doc.setTextColor(100, 116, 139);
+  doc.text("CONTENTS", MARGIN, cursorY);
+  cursorY += 7;
+  const tocRows = sectionTitles.map(title => {
+    const y = cursorY;
+    doc.setFont("helvetica", "normal");
+    doc.setTextColor(51, 65, 85);
+    doc.text(title, MARGIN + 4, y);
+    doc.setDrawColor(203, 213, 225);
+    doc.setLineDashPattern([0.5, 1], 0);
+    doc.line(MARGIN + 6 + doc.getTextWidth(title), y, PAGE_WIDTH - MARGIN - 10, y);
+    doc.setLineDashPattern([], 0);
+    cursorY += 6;
+    return { title, y };
+  });
+
+  cursorY += 15;
 
   // --- 2. IMAGE GRID LAYOUT ---
   const imagesToPrint = userImages || [];
@@ -111,7 +190,9 @@ export const generatePDFReport = (
     let startY = cursorY;
 
     // Filter valid images only
-    const validImages = imagesToPrint.filter(img => img && img.length > 100);
+    const validImages = imagesToPrint.filter(img =>
+      img && img.length > 100 && PDF_IMAGE_FORMATS[getDataUrlMimeType(img) || 'image/jpeg']
+    );
 
     for (let i = 0; i < validImages.length; i++) {
         const imgData = validImages[i];
@@ -143,7 +224,7 @@ export const generatePDFReport = (
             }
 
             // Draw
-            doc.addImage(imgData, 'JPEG', xPos, cursorY, IMG_WIDTH, targetHeight);
+            doc.addImage(imgData, PDF_IMAGE_FORMATS[getDataUrlMimeType(imgData) || 'image/jpeg'], xPos, cursorY, IMG_WIDTH, targetHeight);
             doc.setDrawColor(200, 200, 200);
             doc.rect(xPos, cursorY, IMG_WIDTH, targetHeight);
 
@@ -162,25 +243,170 @@ export const generatePDFReport = (
   addSectionTitle("EXECUTIVE SUMMARY");
   addBodyText(result.summary, 11);
 
-  // --- 4. KEY INSIGHTS ---
+  // Lens used for this analysis: its instruction, required metrics and how the score was derived
+  if (lens) {
+      addSectionTitle(`LENS: ${lens.name.toUpperCase()}`, [8, 145, 178]); // Cyan 600
+      if (lens.instruction) addBodyText(lens.instruction, 9, [100, 116, 139]);
+      const lensLabels = new Set(lens.metrics.map(metric => metric.label.toLowerCase()));
+      result.metrics
+        .filter(metric => lensLabels.has(metric.label.toLowerCase()))
+        .forEach(metric => addBullet(`${metric.label}: ${metric.value}${metric.unit ? ` ${metric.unit}` : ''}`));
+      if (lens.rubric) addBodyText(`Scoring rubric: ${lens.rubric}`, 9);
+      if (result.scoreRationale) addBodyText(`Score rationale: ${result.scoreRationale}`, 10);
+  }
+
+  // --- 4. KEY METRICS (table; the header row repeats after a page break) ---
+  if (result.metrics.length > 0) {
+      addSectionTitle("KEY METRICS", [15, 23, 42]);
+      const VALUE_X = MARGIN + CONTENT_WIDTH * 0.55;
+      const ROW_PADDING = 2;
+      const lensLabels = new Set(lens?.metrics.map(metric => metric.label.toLowerCase()) || []);
+
+      const drawTableHeader = () => {
+          doc.setFillColor(241, 245, 249);
+          doc.rect(MARGIN, cursorY, CONTENT_WIDTH, 7, 'F');
+          doc.setFontSize(8);
+          doc.setFont("helvetica", "bold");
+          doc.setTextColor(100, 116, 139);
+          doc.text("METRIC", MARGIN + ROW_PADDING, cursorY + 5);
+          doc.text("VALUE", VALUE_X, cursorY + 5);
+          cursorY += 7;
+      };
+
+      drawTableHeader();
+      result.metrics.forEach((metric, i) => {
+          doc.setFontSize(10);
+          doc.setFont("helvetica", "normal");
+          const labelLines = doc.splitTextToSize(metric.label, VALUE_X - MARGIN - ROW_PADDING * 2);
+          const valueLines = doc.splitTextToSize(`${metric.value}${metric.unit ? ` ${metric.unit}` : ''}`, MARGIN + CONTENT_WIDTH - VALUE_X - ROW_PADDING);
+          const rowHeight = Math.max(labelLines.length, valueLines.length) * 5 + ROW_PADDING * 2;
+          if (cursorY + rowHeight > PAGE_HEIGHT - MARGIN) {
+              doc.addPage();
+              cursorY = MARGIN;
+              drawTableHeader();
+              doc.setFontSize(10);
+              doc.setFont("helvetica", "normal");
+          }
+          if (i % 2 === 1) {
+              doc.setFillColor(248, 250, 252);
+              doc.rect(MARGIN, cursorY, CONTENT_WIDTH, rowHeight, 'F');
+          }
+          if (lensLabels.has(metric.label.toLowerCase())) doc.setTextColor(8, 145, 178); // Lens metrics in cyan
+          else doc.setTextColor(51, 65, 85);
+          doc.text(labelLines, MARGIN + ROW_PADDING, cursorY + ROW_PADDING + 3.5);
+          doc.setFont("helvetica", "bold");
+          doc.setTextColor(15, 23, 42);
+          doc.text(valueLines, VALUE_X, cursorY + ROW_PADDING + 3.5);
+          cursorY += rowHeight;
+      });
+      cursorY += 10;
+  }
+
+  // --- 5. DATA BREAKDOWN (the dashboard chart when captured, else horizontal bars) ---
+  if (result.chartData && result.chartData.length > 0 && chartImage) {
+      addSectionTitle("DATA BREAKDOWN", [6, 182, 212]); // Cyan
+      const imageHeight = Math.min(CONTENT_WIDTH * (chartImage.height / chartImage.width), PAGE_HEIGHT - MARGIN * 2 - 10);
+      const imageWidth = imageHeight / (chartImage.height / chartImage.width);
+      checkPageBreak(imageHeight);
+      try {
+          doc.addImage(chartImage.dataUrl, 'PNG', MARGIN, cursorY, imageWidth, imageHeight);
+          cursorY += imageHeight + 10;
+      } catch (e) {
+          console.warn("PDF Chart Error", e);
+      }
+  } else if (result.chartData && result.chartData.length > 0) {
+      addSectionTitle("DATA BREAKDOWN", [6, 182, 212]); // Cyan
+      const LABEL_WIDTH = 45;
+      const BAR_HEIGHT = 6;
+      const barAreaWidth = CONTENT_WIDTH - LABEL_WIDTH - 25;
+      const maxValue = Math.max(...result.chartData.map(d => Math.abs(d.value)), 1);
+
+      doc.setFontSize(9);
+      result.chartData.forEach(point => {
+          checkPageBreak(BAR_HEIGHT + 3);
+          const barWidth = (Math.abs(point.value) / maxValue) * barAreaWidth;
+          doc.setFont("helvetica", "normal");
+          doc.setTextColor(51, 65, 85);
+          doc.text(doc.splitTextToSize(point.name, LABEL_WIDTH - 3)[0], MARGIN, cursorY + 4.5);
+          doc.setFillColor(6, 182, 212);
+          doc.rect(MARGIN + LABEL_WIDTH, cursorY, Math.max(barWidth, 0.5), BAR_HEIGHT, 'F');
+          doc.text(String(point.value), MARGIN + LABEL_WIDTH + barWidth + 2, cursorY + 4.5);
+          cursorY += BAR_HEIGHT + 3;
+      });
+      cursorY += 5;
+  }
+
+  // --- 6. KNOWLEDGE GRAPH (vector, same concentric layout as the dashboard) ---
+  if (result.knowledgeGraph && result.knowledgeGraph.nodes.length > 0) {
+      const GRAPH_WIDTH = CONTENT_WIDTH;
+      const GRAPH_HEIGHT = GRAPH_WIDTH * 0.75;
+      const LEGEND_HEIGHT = 10;
+      // Title and graph move to a new page together
+      checkPageBreak(GRAPH_HEIGHT + LEGEND_HEIGHT + 12);
+      addSectionTitle("KNOWLEDGE GRAPH", [8, 145, 178]); // Cyan 600
+
+      const nodes = layoutKnowledgeGraph(result.knowledgeGraph.nodes, GRAPH_WIDTH, GRAPH_HEIGHT)
+        .map(node => ({ ...node, x: node.x + MARGIN, y: node.y + cursorY }));
+      const byId = new Map(nodes.map(node => [node.id, node]));
+
+      doc.setFillColor(248, 250, 252);
+      doc.roundedRect(MARGIN, cursorY, GRAPH_WIDTH, GRAPH_HEIGHT, 3, 3, 'F');
+
+      doc.setDrawColor(148, 163, 184);
+      doc.setLineWidth(0.3);
+      result.knowledgeGraph.edges.forEach(edge => {
+          const from = byId.get(edge.from);
+          const to = byId.get(edge.to);
+          if (from && to) doc.line(from.x, from.y, to.x, to.y);
+      });
+
+      doc.setFontSize(7);
+      doc.setFont("helvetica", "normal");
+      nodes.forEach(node => {
+          const [r, g, b] = hexToRgb(getNodeColor(node.type));
+          doc.setDrawColor(r, g, b);
+          doc.setFillColor(255, 255, 255);
+          doc.setLineWidth(0.8);
+          doc.circle(node.x, node.y, 2.2, 'FD');
+          doc.setTextColor(51, 65, 85);
+          const label = node.label.length > 22 ? `${node.label.substring(0, 21)}..` : node.label;
+          doc.text(label, node.x, node.y + 5.5, { align: "center" });
+      });
+      doc.setLineWidth(0.2);
+      cursorY += GRAPH_HEIGHT + 5;
+
+      // Legend
+      let legendX = MARGIN;
+      Object.entries(GRAPH_NODE_COLORS).forEach(([type, color]) => {
+          const [r, g, b] = hexToRgb(color);
+          doc.setFillColor(r, g, b);
+          doc.circle(legendX + 1.5, cursorY - 1, 1.5, 'F');
+          doc.setTextColor(100, 116, 139);
+          doc.text(type.toUpperCase(), legendX + 5, cursorY);
+          legendX += 28;
+      });
+      cursorY += LEGEND_HEIGHT;
+  }
+
+  // --- 7. KEY INSIGHTS ---
   addSectionTitle("STRATEGIC INSIGHTS", [37, 99, 235]); // Blue
   result.insights.forEach(insight => addBullet(insight));
   cursorY += 5;
 
-  // --- 5. ACTION PLAN ---
+  // --- 8. ACTION PLAN ---
   addSectionTitle("RECOMMENDED ACTIONS", [16, 185, 129]); // Green
   result.actionPlan.forEach(action => addBullet(action));
   cursorY += 5;
 
-  // --- 6. CONSEQUENCES (Temporal) ---
-  if (result.consequences && result.consequences.length > 0) {
+  // --- 9. CONSEQUENCES (Temporal) ---
+  if (result.consequences.length > 0) {
       addSectionTitle("FUTURE CONSEQUENCES", [147, 51, 234]); // Purple
       
       const timeframes = ['immediate', 'short_term', 'long_term'];
       const labels = { immediate: "Immediate (1 Week)", short_term: "Short Term (1 Month)", long_term: "Long Term (1 Year)" };
       
       timeframes.forEach(tf => {
-          const items = result.consequences?.filter(c => c.timeframe === tf);
+          const items = result.consequences.filter(c => c.timeframe === tf);
           if (items && items.length > 0) {
              checkPageBreak(15);
              doc.setFontSize(11);
@@ -199,7 +425,98 @@ export const generatePDFReport = (
       });
   }
 
-  // --- 7. MERGE INTELLIGENCE (If Applicable) ---
+  // --- 10. PREDICTIONS (Likelihood x Impact Matrix) ---
+  if (result.predictions && result.predictions.length > 0) {
+      addSectionTitle("PREDICTIONS", [245, 158, 11]); // Amber
+      const AXIS_WIDTH = 18;
+      const CELL_WIDTH = (CONTENT_WIDTH - AXIS_WIDTH) / 3;
+      const CELL_PADDING = 2;
+      // Cell fill by risk, indexed [likelihood][impact]
+      const tones: [number, number, number][][] = [
+        [[236, 253, 245], [209, 250, 229], [254, 243, 199]],
+        [[209, 250, 229], [254, 243, 199], [254, 226, 226]],
+        [[254, 243, 199], [254, 226, 226], [254, 202, 202]]
+      ];
+
+      doc.setFontSize(8);
+      doc.setFont("helvetica", "normal");
+      buildPredictionMatrix(result.predictions).forEach(row => {
+          const cellLines = row.map(cell => cell.predictions.flatMap(p =>
+              doc.splitTextToSize(`• ${p.outcome} (${p.timeframe})`, CELL_WIDTH - CELL_PADDING * 2)
+          ));
+          const rowHeight = Math.max(14, ...cellLines.map(lines => lines.length * 3.5 + CELL_PADDING * 2 + 1));
+          checkPageBreak(rowHeight);
+
+          doc.setTextColor(100, 116, 139);
+          doc.text(PREDICTION_LEVELS[row[0].likelihood].toUpperCase(), MARGIN, cursorY + rowHeight / 2);
+          row.forEach((cell, i) => {
+              const x = MARGIN + AXIS_WIDTH + i * CELL_WIDTH;
+              const tone = tones[cell.likelihood][cell.impact];
+              doc.setFillColor(tone[0], tone[1], tone[2]);
+              doc.setDrawColor(255, 255, 255);
+              doc.rect(x, cursorY, CELL_WIDTH, rowHeight, 'FD');
+              if (cellLines[i].length > 0) {
+                  doc.setTextColor(51, 65, 85);
+                  doc.text(cellLines[i], x + CELL_PADDING, cursorY + CELL_PADDING + 3);
+              }
+          });
+          cursorY += rowHeight;
+      });
+
+      checkPageBreak(10);
+      doc.setTextColor(100, 116, 139);
+      PREDICTION_LEVELS.forEach((level, i) => {
+          doc.text(level.toUpperCase(), MARGIN + AXIS_WIDTH + (i + 0.5) * CELL_WIDTH, cursorY + 4, { align: "center" });
+      });
+      doc.text("ROWS: LIKELIHOOD   COLUMNS: IMPACT", MARGIN + CONTENT_WIDTH, cursorY + 9, { align: "right" });
+      cursorY += 16;
+  }
+
+  // --- 11. LOGIC CHAIN (cause -> effect timeline) ---
+  if (result.causeEffectChain && result.causeEffectChain.length > 0) {
+      addSectionTitle("LOGIC CHAIN", [8, 145, 178]); // Cyan 600
+      const TEXT_X = MARGIN + 10;
+      const TEXT_WIDTH = CONTENT_WIDTH - 10;
+      const LINE_X = MARGIN + 3;
+
+      result.causeEffectChain.forEach((step, i) => {
+          doc.setFontSize(10);
+          doc.setFont("helvetica", "bold");
+          const stepLines = doc.splitTextToSize(step.step, TEXT_WIDTH);
+          doc.setFont("helvetica", "normal");
+          doc.setFontSize(9);
+          const descriptionLines = doc.splitTextToSize(step.description, TEXT_WIDTH);
+          const blockHeight = stepLines.length * 5 + descriptionLines.length * 4.5 + 6;
+          checkPageBreak(blockHeight);
+
+          // Connector to the next step, drawn per step so it never spans a page break
+          if (i < result.causeEffectChain!.length - 1) {
+              doc.setDrawColor(203, 213, 225);
+              doc.setLineWidth(0.6);
+              doc.line(LINE_X, cursorY, LINE_X, cursorY + blockHeight);
+              doc.setLineWidth(0.2);
+          }
+          doc.setFillColor(255, 255, 255);
+          doc.setDrawColor(6, 182, 212);
+          doc.setLineWidth(0.8);
+          doc.circle(LINE_X, cursorY - 1.5, 2, 'FD');
+          doc.setLineWidth(0.2);
+
+          doc.setFontSize(10);
+          doc.setFont("helvetica", "bold");
+          doc.setTextColor(15, 23, 42);
+          doc.text(stepLines, TEXT_X, cursorY);
+          const descriptionY = cursorY + stepLines.length * 5;
+          doc.setFontSize(9);
+          doc.setFont("helvetica", "normal");
+          doc.setTextColor(100, 116, 139);
+          doc.text(descriptionLines, TEXT_X, descriptionY);
+          cursorY += blockHeight;
+      });
+      cursorY += 5;
+  }
+
+  // --- 12. MERGE INTELLIGENCE (If Applicable) ---
   if (result.mergeConnections && result.mergeConnections.length > 0) {
       addSectionTitle("REALITY MERGE ANALYSIS", [236, 72, 153]); // Pink
       result.mergeConnections.forEach(conn => {
@@ -209,56 +526,134 @@ export const generatePDFReport = (
       cursorY += 5;
   }
 
-  // --- 8. RISKS & OPPORTUNITIES ---
-  checkPageBreak(60); 
-  const startY = cursorY;
-  
-  // Risks Column
-  doc.setFontSize(12);
-  doc.setFont("helvetica", "bold");
-  doc.setTextColor(239, 68, 68); // Red
-  doc.text("RISKS", MARGIN, cursorY);
-  cursorY += 6;
-  
-  doc.setFontSize(10);
-  doc.setTextColor(51, 65, 85);
-  doc.setFont("helvetica", "normal");
-  const riskLines = result.risks || ["None detected."];
-  riskLines.forEach(r => {
-      const lines = doc.splitTextToSize(`• ${r}`, (CONTENT_WIDTH / 2) - 10);
-      doc.text(lines, MARGIN, cursorY);
-      cursorY += (lines.length * 5) + 2;
-  });
-
-  // Opportunities Column (Reset Y but keep max for next)
-  let riskEndY = cursorY;
-  cursorY = startY; 
+  // --- 13. RISKS & OPPORTUNITIES (two columns, laid out row by row so both break together) ---
+  checkPageBreak(25);
+  markSection("RISKS & OPPORTUNITIES");
   const col2X = MARGIN + (CONTENT_WIDTH / 2) + 5;
+  const COLUMN_WIDTH = (CONTENT_WIDTH / 2) - 10;
 
-  doc.setFontSize(12);
-  doc.setFont("helvetica", "bold");
-  doc.setTextColor(16, 185, 129); // Green
-  doc.text("OPPORTUNITIES", col2X, cursorY);
-  cursorY += 6;
+  const drawColumnHeaders = () => {
+      doc.setFontSize(12);
+      doc.setFont("helvetica", "bold");
+      doc.setTextColor(239, 68, 68); // Red
+      doc.text("RISKS", MARGIN, cursorY);
+      doc.setTextColor(16, 185, 129); // Green
+      doc.text("OPPORTUNITIES", col2X, cursorY);
+      cursorY += 6;
+      doc.setFontSize(10);
+      doc.setTextColor(51, 65, 85);
+      doc.setFont("helvetica", "normal");
+  };
 
+  drawColumnHeaders();
+  const riskLines = result.risks?.length ? result.risks : ["None detected."];
+  const oppLines = result.opportunities?.length ? result.opportunities : ["None detected."];
+  for (let i = 0; i < Math.max(riskLines.length, oppLines.length); i++) {
+      const risk = riskLines[i] ? doc.splitTextToSize(`• ${riskLines[i]}`, COLUMN_WIDTH) : [];
+      const opportunity = oppLines[i] ? doc.splitTextToSize(`• ${oppLines[i]}`, COLUMN_WIDTH) : [];
+      const rowHeight = Math.max(risk.length, opportunity.length) * 5 + 2;
+      if (cursorY + rowHeight > PAGE_HEIGHT - MARGIN) {
+          doc.addPage();
+          cursorY = MARGIN;
+          drawColumnHeaders();
+      }
+      if (risk.length > 0) doc.text(risk, MARGIN, cursorY);
+      if (opportunity.length > 0) doc.text(opportunity, col2X, cursorY);
+      cursorY += rowHeight;
+  }
+
+  // --- CONTENTS PAGE NUMBERS (linked) ---
+  doc.setPage(1);
   doc.setFontSize(10);
-  doc.setTextColor(51, 65, 85);
   doc.setFont("helvetica", "normal");
-  const oppLines = result.opportunities || ["None detected."];
-  oppLines.forEach(o => {
-      const lines = doc.splitTextToSize(`• ${o}`, (CONTENT_WIDTH / 2) - 10);
-      doc.text(lines, col2X, cursorY);
-      cursorY += (lines.length * 5) + 2;
+  doc.setTextColor(51, 65, 85);
+  tocRows.forEach(({ title, y }) => {
+      const pageNumber = sectionPages.get(title);
+      if (!pageNumber) return;
+      doc.text(String(pageNumber), PAGE_WIDTH - MARGIN, y, { align: "right" });
+      doc.link(MARGIN, y - 4, CONTENT_WIDTH, 6, { pageNumber });
   });
 
   // --- FOOTER ---
-  const pageCount = doc.getNumberOfPages();
-  for(let i = 1; i <= pageCount; i++) {
-      doc.setPage(i);
-      doc.setFontSize(8);
-      doc.setTextColor(148, 163, 184);
-      doc.text(`Generated by Aether Analytica - Page ${i} of ${pageCount}`, PAGE_WIDTH / 2, PAGE_HEIGHT - 10, { align: "center" });
-  }
+  drawPageFooters(doc);
 
   doc.save("Aether-Analysis-Report.pdf");
+};
+
+export const generateDigestPDF = (digest: WeeklyDigest) => {
+  const doc = new jsPDF();
+  const PAGE_HEIGHT = doc.internal.pageSize.getHeight();
+  const PAGE_WIDTH = doc.internal.pageSize.getWidth();
+  const MARGIN = 20;
+  const CONTENT_WIDTH = PAGE_WIDTH - (MARGIN * 2);
+
+  let cursorY = 55;
+
+  const checkPageBreak = (neededHeight: number) => {
+    if (cursorY + neededHeight > PAGE_HEIGHT - MARGIN) {
+      doc.addPage();
+      cursorY = MARGIN;
+    }
+  };
+
+  const addSectionTitle = (title: string, color: [number, number, number]) => {
+    checkPageBreak(15);
+    doc.setFontSize(14);
+    doc.setFont("helvetica", "bold");
+    doc.setTextColor(color[0], color[1], color[2]);
+    doc.text(title, MARGIN, cursorY);
+    cursorY += 8;
+  };
+
+  const addLine = (text: string, bullet = true) => {
+    const indent = bullet ? 5 : 0;
+    const lines = doc.splitTextToSize(text, CONTENT_WIDTH - indent);
+    checkPageBreak(lines.length * 5 + 2);
+    doc.setFontSize(10);
+    doc.setFont("helvetica", "normal");
+    doc.setTextColor(51, 65, 85);
+    if (bullet) doc.text("•", MARGIN, cursorY);
+    doc.text(lines, MARGIN + indent, cursorY);
+    cursorY += lines.length * 5 + 2;
+  };
+
+  drawHeader(doc, "WEEKLY DIGEST", [formatDigestPeriod(digest), `${digest.analysisCount} ANALYSES`]);
+
+  // --- Scores by category: one row per category with a bar for the average ---
+  addSectionTitle("SCORES BY CATEGORY", [6, 182, 212]); // Cyan
+  if (digest.categories.length === 0) addLine("No analyses this week.", false);
+  const LABEL_WIDTH = 40;
+  const BAR_HEIGHT = 6;
+  const barAreaWidth = CONTENT_WIDTH - LABEL_WIDTH - 45;
+  digest.categories.forEach(category => {
+      checkPageBreak(BAR_HEIGHT + 3);
+      doc.setFontSize(9);
+      doc.setFont("helvetica", "normal");
+      doc.setTextColor(51, 65, 85);
+      doc.text(category.category, MARGIN, cursorY + 4.5);
+      doc.setFillColor(6, 182, 212);
+      doc.rect(MARGIN + LABEL_WIDTH, cursorY, Math.max((category.average / 100) * barAreaWidth, 0.5), BAR_HEIGHT, 'F');
+      if (category.change !== null && category.change > 0) doc.setTextColor(16, 185, 129);
+      else if (category.change !== null && category.change < 0) doc.setTextColor(239, 68, 68);
+      doc.text(`${category.average} (${formatScoreChange(category.change)}) · ${category.count}x`, MARGIN + CONTENT_WIDTH, cursorY + 4.5, { align: "right" });
+      cursorY += BAR_HEIGHT + 3;
+  });
+  cursorY += 5;
+
+  addSectionTitle("NEW HIGH-SEVERITY RISKS", [239, 68, 68]); // Red
+  if (digest.newRisks.length === 0) addLine("None.", false);
+  digest.newRisks.forEach(risk => addLine(`${risk.domain}: ${risk.prediction} (${risk.source})`));
+  cursorY += 5;
+
+  addSectionTitle("ACTIONS", [16, 185, 129]); // Green
+  addLine(`${digest.actions.completed.length} completed · ${digest.actions.open} open · ${digest.actions.overdue} overdue`, false);
+  digest.actions.completed.forEach(text => addLine(`[done] ${text}`));
+  cursorY += 5;
+
+  addSectionTitle("RECURRING ENTITIES", [147, 51, 234]); // Purple
+  if (digest.recurringEntities.length === 0) addLine("None.", false);
+  digest.recurringEntities.forEach(entity => addLine(`${entity.label} — ${entity.count} analyses`));
+
+  drawPageFooters(doc);
+  doc.save(`Aether-Weekly-Digest-${new Date(digest.periodEnd - 1).toISOString().slice(0, 10)}.pdf`);
 };
\ No newline at end of file
@@ -0,0 +1,212 @@
+import { describe, expect, it } from 'vitest';
+import ICAL from 'ical.js';
+import Papa from 'papaparse';
+import { marked, Tokens } from 'marked';
+import { AnalysisCategory, AnalysisResult } from '../types';
+import { CSV_COLUMNS, PlanEntry, buildPlanEntries, defaultDueDate, toCSV, toICS, toMarkdown } from './planExport';
+
+// Wednesday 5 March 2025, 10:00 local time
+const ANALYZED_AT = new Date(2025, 2, 5, 10);
+const EXPORTED_AT = new Date(Date.UTC(2025, 5, 1, 8, 30));
+const COMPLETED_AT = Date.UTC(2025, 2, 4, 12);
+
+const result: AnalysisResult = {
+  category: AnalysisCategory.SCHEDULE,
+  summary: 'Busy week',
+  score: 60,
+  metrics: [],
+  insights: [],
+  actionPlan: ['Book the dentist', 'Renew passport'],
+  risks: [],
+  opportunities: [],
+  consequences: [{ domain: 'TIME', prediction: 'Overbooked Friday', severity: 'medium', timeframe: 'short_term' }],
+  events: [
+    { title: 'Standup', day: 'Friday', start: '9:00', end: '09:15' },
+    { title: 'Gym', day: '2025-03-10', start: '18:30' },
+    { title: 'Someday', day: 'soon', start: '10:00' }
+  ]
+};
+
+const task = (overrides: Partial<PlanEntry>): PlanEntry => ({
+  uid: 'task@aether',
+  title: 'Task',
+  date: '2025-03-06',
+  dateIsDefault: false,
+  done: false,
+  ...overrides
+});
+
+const event = (overrides: Partial<PlanEntry>): PlanEntry => task({ uid: 'event@aether', start: '09:00', end: '10:00', ...overrides });
+
+// Bytes per physical line, CRLF excluded
+const octets = (line: string) => new TextEncoder().encode(line).length;
+
+const parseCalendar = (ics: string) => new ICAL.Component(ICAL.parse(ics));
+
+describe('buildPlanEntries', () => {
+  it('dates everything from the analysis, not the export', () => {
+    const source = { id: 'h1', timestamp: ANALYZED_AT, result };
+    const entries = buildPlanEntries(source);
+    expect(buildPlanEntries(source)).toEqual(entries);
+
+    const [dentist, passport, standup, gym] = entries;
+    expect(dentist).toMatchObject({ uid: 'h1:action:0@aether', date: '2025-03-12', dateIsDefault: true });
+    expect(passport.date).toBe('2025-03-12');
+    expect(standup).toMatchObject({ title: 'Standup', date: '2025-03-07', start: '09:00', end: '09:15' });
+    expect(gym).toMatchObject({ date: '2025-03-10', start: '18:30', end: undefined });
+    expect(entries).toHaveLength(4); // "soon" is not a day
+  });
+
+  it('keeps tracked due dates and completion', () => {
+    const [entry] = buildPlanEntries({
+      id: 'h1',
+      timestamp: ANALYZED_AT,
+      result,
+      actions: [{ id: 'a1', text: 'Call mum', done: true, completedAt: COMPLETED_AT, dueDate: '2025-03-04', priority: 'high' }]
+    });
+    expect(entry).toMatchObject({ uid: 'a1@aether', date: '2025-03-04', dateIsDefault: false, done: true, priority: 'high' });
+  });
+
+  it('counts a weekday matching the analysis day as that day', () => {
+    const [standup] = buildPlanEntries({
+      id: 'h1', timestamp: ANALYZED_AT, result: { ...result, actionPlan: [], events: [{ title: 'Standup', day: 'wed', start: '09:00' }] }
+    });
+    expect(standup.date).toBe('2025-03-05');
+  });
+
+  it('suggests due dates from the most urgent consequence', () => {
+    const consequence = (timeframe: 'immediate' | 'short_term' | 'long_term') =>
+      ({ domain: 'TIME' as const, prediction: '', severity: 'low' as const, timeframe });
+    expect(defaultDueDate([consequence('long_term'), consequence('immediate')], ANALYZED_AT)).toBe('2025-03-06');
+    expect(defaultDueDate([consequence('long_term')], ANALYZED_AT)).toBe('2025-04-04');
+    expect(defaultDueDate([], ANALYZED_AT)).toBe('2025-03-12');
+  });
+});
+
+describe('toICS', () => {
+  it('parses as a calendar with a VTODO per task and a VEVENT per timed entry', () => {
+    const calendar = parseCalendar(toICS([task({}), event({})], 'Plan', EXPORTED_AT));
+    expect(calendar.name).toBe('vcalendar');
+    expect(calendar.getFirstPropertyValue('version')).toBe('2.0');
+    expect(calendar.getAllSubcomponents('vtodo')).toHaveLength(1);
+    expect(calendar.getAllSubcomponents('vevent')).toHaveLength(1);
+  });
+
+  it('writes tasks with a date-only DUE, status, completion and priority', () => {
+    const calendar = parseCalendar(toICS([
+      task({ uid: 'open@aether', priority: 'low' }),
+      task({ uid: 'done@aether', done: true, completedAt: COMPLETED_AT, priority: 'high' })
+    ], 'Plan', EXPORTED_AT));
+    const [open, done] = calendar.getAllSubcomponents('vtodo');
+
+    const due = open.getFirstPropertyValue('due') as ICAL.Time;
+    expect(due.isDate).toBe(true);
+    expect(due.toString()).toBe('2025-03-06');
+    expect(open.getFirstPropertyValue('status')).toBe('NEEDS-ACTION');
+    expect(open.getFirstPropertyValue('priority')).toBe(9);
+    expect(open.hasProperty('completed')).toBe(false);
+
+    expect(done.getFirstPropertyValue('uid')).toBe('done@aether');
+    expect(done.getFirstPropertyValue('status')).toBe('COMPLETED');
+    expect((done.getFirstPropertyValue('completed') as ICAL.Time).toString()).toBe('2025-03-04T12:00:00Z');
+    expect(done.getFirstPropertyValue('priority')).toBe(1);
+    expect((done.getFirstPropertyValue('dtstamp') as ICAL.Time).toString()).toBe('2025-06-01T08:30:00Z');
+  });
+
+  it('writes events as local times and gives end-less ones an hour', () => {
+    const calendar = parseCalendar(toICS([event({ start: '18:30', end: undefined }), event({ start: '23:15', end: '22:00' })], 'Plan'));
+    const [evening, late] = calendar.getAllSubcomponents('vevent');
+    expect((evening.getFirstPropertyValue('dtstart') as ICAL.Time).toString()).toBe('2025-03-06T18:30:00');
+    expect((evening.getFirstPropertyValue('dtend') as ICAL.Time).toString()).toBe('2025-03-06T19:30:00');
+    expect((late.getFirstPropertyValue('dtend') as ICAL.Time).toString()).toBe('2025-03-06T23:59:00');
+  });
+
+  it('escapes text so it round-trips', () => {
+    const title = 'Pay rent; call landlord, then back\\slash\nsecond line';
+    const notes = 'Bring: ID, lease;\r\nask about "parking"';
+    const ics = toICS([task({ title, notes })], 'Mine, yours; ours', EXPORTED_AT);
+    expect(ics).toContain('SUMMARY:Pay rent\\; call landlord\\, then back\\\\slash\\nsecond line');
+
+    const calendar = parseCalendar(ics);
+    const todo = calendar.getFirstSubcomponent('vtodo')!;
+    expect(todo.getFirstPropertyValue('summary')).toBe(title);
+    expect(todo.getFirstPropertyValue('description')).toBe('Bring: ID, lease;\nask about "parking"');
+    // ical.js leaves X- properties raw, so the TEXT escaping is checked on the line itself
+    expect(ics).toContain('X-WR-CALNAME:Mine\\, yours\\; ours\r\n');
+  });
+
+  it('folds lines at 75 octets without splitting multibyte characters', () => {
+    const title = `Réserver le café ☕ avec Zoë 🎉 — ${'日本語のテキスト'.repeat(6)} ✅`;
+    const ics = toICS([task({ title, notes: 'é'.repeat(120) })], 'Plan', EXPORTED_AT);
+    const lines = ics.split('\r\n');
+
+    expect(ics.endsWith('\r\n')).toBe(true);
+    lines.forEach(line => expect(octets(line)).toBeLessThanOrEqual(75));
+    expect(lines.some(line => line.startsWith(' '))).toBe(true);
+
+    const todo = parseCalendar(ics).getFirstSubcomponent('vtodo')!;
+    expect(todo.getFirstPropertyValue('summary')).toBe(title);
+    expect(todo.getFirstPropertyValue('description')).toBe('é'.repeat(120));
+  });
+});
+
+describe('toCSV', () => {
+  const parse = (csv: string) => Papa.parse<Record<string, string>>(csv, { header: true, skipEmptyLines: true });
+
+  it('parses back to one row per entry under the documented columns', () => {
+    const parsed = parse(toCSV([
+      task({ priority: 'high', done: true, completedAt: COMPLETED_AT }),
+      event({ title: 'Standup' })
+    ]));
+    expect(parsed.errors).toEqual([]);
+    expect(parsed.meta.fields).toEqual(CSV_COLUMNS);
+    expect(parsed.data).toEqual([
+      { Type: 'task', Title: 'Task', Status: 'done', Priority: 'high', Date: '2025-03-06', Start: '', End: '', Completed: '2025-03-04T12:00:00.000Z', Notes: '' },
+      { Type: 'event', Title: 'Standup', Status: 'open', Priority: '', Date: '2025-03-06', Start: '09:00', End: '10:00', Completed: '', Notes: '' }
+    ]);
+  });
+
+  it('quotes fields with commas, quotes and line breaks', () => {
+    const title = 'Say "no", politely';
+    const notes = 'First line\r\nsecond, with "quotes"\nthird';
+    const csv = toCSV([task({ title, notes })]);
+    expect(csv).toContain('"Say ""no"", politely"');
+
+    const parsed = parse(csv);
+    expect(parsed.errors).toEqual([]);
+    expect(parsed.data).toHaveLength(1);
+    expect(parsed.data[0].Title).toBe(title);
+    expect(parsed.data[0].Notes).toBe(notes);
+  });
+});
+
+describe('toMarkdown', () => {
+  const listItems = (markdown: string) =>
+    marked.lexer(markdown, { gfm: true })
+      .filter((token): token is Tokens.List => token.type === 'list')
+      .flatMap(list => list.items);
+
+  it('renders every entry as a GFM task-list item', () => {
+    const markdown = toMarkdown([
+      task({ title: 'Open task', dateIsDefault: true }),
+      task({ title: 'Done task', done: true, priority: 'high' }),
+      event({ title: 'Standup' })
+    ], 'Weekly Plan');
+    const items = listItems(markdown);
+
+    expect(items).toHaveLength(3);
+    items.forEach(item => expect(item.task).toBe(true));
+    expect(items.map(item => item.checked)).toEqual([false, true, false]);
+    expect(items[0].text).toContain('Open task — due 2025-03-06 (suggested)');
+    expect(items[1].text).toContain('high priority');
+    expect(items[2].text).toContain('2025-03-06 09:00–10:00 Standup');
+    expect(marked.lexer(markdown)[0]).toMatchObject({ type: 'heading', depth: 1, text: 'Weekly Plan' });
+  });
+
+  it('keeps multi-line titles and notes inside their list item', () => {
+    const items = listItems(toMarkdown([task({ title: 'Line one\nline two', notes: 'Note\r\n\r\n- not a task' })], 'Plan'));
+    expect(items).toHaveLength(1);
+    expect(items[0].text).toContain('Line one line two');
+    expect(items[0].text).toContain('Note - not a task');
+  });
+});
@@ -0,0 +1,254 @@
+import { ActionItem, ActionPriority, AnalysisResult, Consequence } from '../types';
+import { createActionItems } from './actions';
+import { toIsoDate } from './dates';
+import { downloadBlob } from './download';
+
+// Action plans and SCHEDULE events as files other tools understand: iCalendar (RFC 5545),
+// CSV (RFC 4180) and GitHub-flavoured Markdown checklists.
+
+export type PlanExportFormat = 'ics' | 'csv' | 'markdown';
+
+export const PLAN_EXPORT_LABELS: Record<PlanExportFormat, string> = {
+  ics: 'Calendar (.ics)',
+  csv: 'Spreadsheet (.csv)',
+  markdown: 'Checklist (.md)'
+};
+
+// One row of the export. Anything with a start time becomes a timed VEVENT, the rest a VTODO.
+export interface PlanEntry {
+  uid: string;
+  title: string;
+  date: string; // YYYY-MM-DD: due date for tasks, day for events
+  dateIsDefault: boolean; // Derived from the consequence timeframe rather than set by the user
+  start?: string; // HH:MM
+  end?: string;
+  done: boolean;
+  completedAt?: number; // epoch ms
+  priority?: ActionPriority;
+  notes?: string;
+}
+
+export interface PlanSource {
+  id: string; // History id; '' for an unsaved analysis
+  timestamp: Date; // When the analysis was made; suggested dates and weekday events count from here
+  result: AnalysisResult;
+  actions?: ActionItem[]; // Tracked tasks; falls back to result.actionPlan
+}
+
+// --- Default Dates ---
+// Actions without a due date inherit the horizon of the most urgent consequence the analysis found.
+export const TIMEFRAME_OFFSET_DAYS: Record<Consequence['timeframe'], number> = {
+  immediate: 1,
+  short_term: 7,
+  long_term: 30
+};
+
+const DEFAULT_TIMEFRAME: Consequence['timeframe'] = 'short_term';
+
+const addDays = (date: Date, days: number) => {
+  const next = new Date(date);
+  next.setDate(next.getDate() + days);
+  return next;
+};
+
+export const defaultDueDate = (consequences: Consequence[], base: Date): string => {
+  const timeframe = (Object.keys(TIMEFRAME_OFFSET_DAYS) as Consequence['timeframe'][])
+    .find(bucket => consequences.some(consequence => consequence.timeframe === bucket)) || DEFAULT_TIMEFRAME;
+  return toIsoDate(addDays(base, TIMEFRAME_OFFSET_DAYS[timeframe]));
+};
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+const TIME_PATTERN = /^([01]?\d|2[0-3]):([0-5]\d)$/;
+
+// SCHEDULE events give an ISO date or a weekday name; weekdays resolve to the next occurrence
+// after the analysis (its own day counts).
+const resolveEventDay = (day: string, base: Date): string | null => {
+  const iso = /^\d{4}-\d{2}-\d{2}/.exec(day.trim());
+  if (iso) return iso[0];
+  const prefix = day.trim().toLowerCase().slice(0, 3);
+  const weekday = prefix.length === 3 ? WEEKDAYS.findIndex(name => name.startsWith(prefix)) : -1;
+  if (weekday === -1) return null;
+  return toIsoDate(addDays(base, (weekday - base.getDay() + 7) % 7));
+};
+
+const normalizeTime = (time?: string) => {
+  const match = time ? TIME_PATTERN.exec(time.trim()) : null;
+  return match ? `${match[1].padStart(2, '0')}:${match[2]}` : undefined;
+};
+
+// Dates depend only on the source, so re-exporting an old plan gives the same file
+export const buildPlanEntries = ({ id, timestamp, result, actions }: PlanSource): PlanEntry[] => {
+  const uidBase = id || `unsaved-${timestamp.getTime()}`;
+  const fallbackDate = defaultDueDate(result.consequences || [], timestamp);
+
+  const tasks = (actions || createActionItems(uidBase, result.actionPlan)).map((action): PlanEntry => ({
+    uid: `${action.id}@aether`,
+    title: action.text,
+    date: action.dueDate || fallbackDate,
+    dateIsDefault: !action.dueDate,
+    done: action.done,
+    completedAt: action.completedAt,
+    priority: action.priority,
+    notes: action.notes
+  }));
+
+  const events = (result.events || []).flatMap((event, i): PlanEntry[] => {
+    const date = resolveEventDay(event.day, timestamp);
+    if (!date) return [];
+    return [{
+      uid: `${uidBase}:event:${i}@aether`,
+      title: event.title,
+      date,
+      dateIsDefault: false,
+      start: normalizeTime(event.start),
+      end: normalizeTime(event.end),
+      done: false
+    }];
+  });
+
+  return [...tasks, ...events];
+};
+
+// --- iCalendar ---
+const ICS_PRIORITY: Record<ActionPriority, number> = { high: 1, medium: 5, low: 9 };
+
+const escapeText = (text: string) =>
+  text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// Content lines are folded at 75 octets; continuation lines start with a space.
+const foldLine = (line: string): string => {
+  const bytes = new TextEncoder().encode(line);
+  if (bytes.length <= 75) return line;
+  const parts: string[] = [];
+  let current = '';
+  let currentBytes = 0;
+  for (const char of line) {
+    const size = new TextEncoder().encode(char).length;
+    const limit = parts.length === 0 ? 75 : 74; // Continuations lose one octet to the leading space
+    if (currentBytes + size > limit) {
+      parts.push(current);
+      current = '';
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+const icsDate = (date: string) => date.replace(/-/g, '');
+const icsLocalDateTime = (date: string, time: string) => `${icsDate(date)}T${time.replace(':', '')}00`;
+const icsUtc = (time: number) => new Date(time).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+// Events without an end last an hour
+const defaultEnd = (start: string) => {
+  const [hours, minutes] = start.split(':').map(Number);
+  return hours >= 23 ? '23:59' : `${String(hours + 1).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`;
+};
+
+export const toICS = (entries: PlanEntry[], calendarName: string, now = new Date()): string => {
+  const stamp = icsUtc(now.getTime());
+  const lines = ['BEGIN:VCALENDAR', 'VERSION:2.0', 'PRODID:-//Aether Analytica//Action Plan//EN', 'CALSCALE:GREGORIAN', `X-WR-CALNAME:${escapeText(calendarName)}`];
+
+  entries.forEach(entry => {
+    if (entry.start) {
+      const end = entry.end && entry.end > entry.start ? entry.end : defaultEnd(entry.start);
+      lines.push(
+        'BEGIN:VEVENT',
+        `UID:${entry.uid}`,
+        `DTSTAMP:${stamp}`,
+        `DTSTART:${icsLocalDateTime(entry.date, entry.start)}`,
+        `DTEND:${icsLocalDateTime(entry.date, end)}`,
+        `SUMMARY:${escapeText(entry.title)}`,
+        ...(entry.notes ? [`DESCRIPTION:${escapeText(entry.notes)}`] : []),
+        'END:VEVENT'
+      );
+    } else {
+      lines.push(
+        'BEGIN:VTODO',
+        `UID:${entry.uid}`,
+        `DTSTAMP:${stamp}`,
+        `DUE;VALUE=DATE:${icsDate(entry.date)}`,
+        `SUMMARY:${escapeText(entry.title)}`,
+        `STATUS:${entry.done ? 'COMPLETED' : 'NEEDS-ACTION'}`,
+        ...(entry.done && entry.completedAt ? [`COMPLETED:${icsUtc(entry.completedAt)}`] : []),
+        ...(entry.priority ? [`PRIORITY:${ICS_PRIORITY[entry.priority]}`] : []),
+        ...(entry.notes ? [`DESCRIPTION:${escapeText(entry.notes)}`] : []),
+        'END:VTODO'
+      );
+    }
+  });
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
+
+// --- CSV ---
+export const CSV_COLUMNS = ['Type', 'Title', 'Status', 'Priority', 'Date', 'Start', 'End', 'Completed', 'Notes'];
+
+const csvField = (value: string) => /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+export const toCSV = (entries: PlanEntry[]): string => {
+  const rows = entries.map(entry => [
+    entry.start ? 'event' : 'task',
+    entry.title,
+    entry.done ? 'done' : 'open',
+    entry.priority || '',
+    entry.date,
+    entry.start || '',
+    entry.end || '',
+    entry.completedAt ? new Date(entry.completedAt).toISOString() : '',
+    entry.notes || ''
+  ]);
+  return [CSV_COLUMNS, ...rows].map(row => row.map(csvField).join(',')).join('\r\n') + '\r\n';
+};
+
+// --- Markdown ---
+// Checklist text is kept on one line so every item stays a single task-list entry.
+const inline = (text: string) => text.replace(/\s*\r?\n\s*/g, ' ').trim();
+
+export const toMarkdown = (entries: PlanEntry[], title: string): string => {
+  const tasks = entries.filter(entry => !entry.start);
+  const events = entries.filter(entry => entry.start);
+  const lines = [`# ${inline(title)}`, ''];
+
+  if (tasks.length > 0) {
+    lines.push('## Action Plan', '');
+    tasks.forEach(entry => {
+      const details = [
+        `due ${entry.date}${entry.dateIsDefault ? ' (suggested)' : ''}`,
+        ...(entry.priority && entry.priority !== 'medium' ? [`${entry.priority} priority`] : [])
+      ];
+      lines.push(`- [${entry.done ? 'x' : ' '}] ${inline(entry.title)} — ${details.join(', ')}`);
+      if (entry.notes) lines.push(`  > ${inline(entry.notes)}`);
+    });
+    lines.push('');
+  }
+
+  if (events.length > 0) {
+    lines.push('## Schedule', '');
+    events.forEach(entry => {
+      lines.push(`- [ ] ${entry.date} ${entry.start}${entry.end ? `–${entry.end}` : ''} ${inline(entry.title)}`);
+    });
+    lines.push('');
+  }
+
+  return lines.join('\n');
+};
+
+// --- Download ---
+const MIME_TYPES: Record<PlanExportFormat, string> = {
+  ics: 'text/calendar',
+  csv: 'text/csv',
+  markdown: 'text/markdown'
+};
+
+const EXTENSIONS: Record<PlanExportFormat, string> = { ics: 'ics', csv: 'csv', markdown: 'md' };
+
+export const downloadPlan = (format: PlanExportFormat, source: PlanSource, title: string) => {
+  const entries = buildPlanEntries(source);
+  const content = format === 'ics' ? toICS(entries, title) : format === 'csv' ? toCSV(entries) : toMarkdown(entries, title);
+  const blob = new Blob([content], { type: `${MIME_TYPES[format]};charset=utf-8` });
+  downloadBlob(blob, `aether-${source.result.category.toLowerCase()}-plan-${new Date().toISOString().slice(0, 10)}.${EXTENSIONS[format]}`);
+};
@@ -0,0 +1,30 @@
+import { Prediction } from '../types';
+
+export const PREDICTION_LEVELS = ['Low', 'Medium', 'High'] as const;
+export type PredictionLevel = 0 | 1 | 2;
+
+// Older history entries hold free-text ratings ("likely", "Very high"), so map loosely.
+export const toPredictionLevel = (rating: string): PredictionLevel => {
+  const value = (rating || '').toLowerCase();
+  if (/high|likely|major|severe|critical/.test(value) && !/unlikely/.test(value)) return 2;
+  if (/low|unlikely|minor|rare/.test(value)) return 0;
+  return 1;
+};
+
+export interface MatrixCell {
+  likelihood: PredictionLevel;
+  impact: PredictionLevel;
+  predictions: Prediction[];
+}
+
+// 3×3 grid, rows ordered High → Low likelihood so the top-right cell is the most urgent.
+export const buildPredictionMatrix = (predictions: Prediction[]): MatrixCell[][] =>
+  ([2, 1, 0] as PredictionLevel[]).map(likelihood =>
+    ([0, 1, 2] as PredictionLevel[]).map(impact => ({
+      likelihood,
+      impact,
+      predictions: predictions.filter(
+        p => toPredictionLevel(p.likelihood) === likelihood && toPredictionLevel(p.impact) === impact
+      )
+    }))
+  );
@@ -0,0 +1,98 @@
+import { GraphEdge, GraphNode, HistoryItem, Project } from '../types';
+
+// Titles, tags and project roll-ups shared by the history list and project pages.
+
+const TITLE_FALLBACK_LENGTH = 80;
+
+export const getItemTitle = (item: HistoryItem): string => {
+  if (item.title?.trim()) return item.title.trim();
+  const summary = item.result.summary;
+  return summary.length > TITLE_FALLBACK_LENGTH ? `${summary.substring(0, TITLE_FALLBACK_LENGTH)}...` : summary;
+};
+
+// Tags are compared verbatim, so "Q3 Budget" and "#q3-budget" are folded into one form.
+export const normalizeTag = (tag: string): string =>
+  tag.trim().replace(/^#+/, '').toLowerCase().replace(/\s+/g, '-');
+
+export const createProject = (name: string): Project => ({
+  id: `project-${Date.now().toString(36)}`,
+  name: name.trim(),
+  createdAt: Date.now()
+});
+
+export const getProjectItems = (history: HistoryItem[], projectId: string): HistoryItem[] =>
+  history.filter(item => item.projectIds.includes(projectId));
+
+export interface ProjectSummary {
+  count: number;
+  averageScore: number | null; // null while the project is empty
+  lastActivity: Date | null;
+}
+
+export const summarizeProject = (items: HistoryItem[]): ProjectSummary => ({
+  count: items.length,
+  averageScore: items.length > 0 ? Math.round(items.reduce((sum, item) => sum + item.result.score, 0) / items.length) : null,
+  lastActivity: items.length > 0 ? new Date(Math.max(...items.map(item => item.timestamp.getTime()))) : null
+});
+
+export interface ProjectTrendPoint {
+  time: number; // epoch ms
+  value: number; // The analysis' own score
+  average: number; // Running mean up to and including this analysis
+  historyId: string;
+}
+
+export const buildProjectTrend = (items: HistoryItem[]): ProjectTrendPoint[] => {
+  let total = 0;
+  return [...items]
+    .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+    .map((item, i) => {
+      total += item.result.score;
+      return { time: item.timestamp.getTime(), value: item.result.score, average: Math.round(total / (i + 1)), historyId: item.id };
+    });
+};
+
+// --- Combined Knowledge Graph ---
+// Nodes with the same label (case-insensitive) are one concept across analyses. Only the most
+// frequently mentioned concepts are kept so a long project still renders legibly.
+const MAX_MERGED_NODES = 40;
+
+const nodeKey = (label: string) => label.trim().toLowerCase().replace(/\s+/g, ' ');
+
+export const mergeKnowledgeGraphs = (items: HistoryItem[]): { nodes: GraphNode[], edges: GraphEdge[] } => {
+  const merged = new Map<string, { node: GraphNode, mentions: number }>();
+  const edges = new Map<string, GraphEdge>();
+
+  items.forEach(item => {
+    const graph = item.result.knowledgeGraph;
+    if (!graph) return;
+
+    const localToMerged = new Map<string, string>();
+    graph.nodes.forEach(node => {
+      const key = nodeKey(node.label);
+      const entry = merged.get(key) || { node: { ...node, id: `n${merged.size}` }, mentions: 0 };
+      entry.mentions++;
+      merged.set(key, entry);
+      localToMerged.set(node.id, entry.node.id);
+    });
+
+    graph.edges.forEach(edge => {
+      const from = localToMerged.get(edge.from);
+      const to = localToMerged.get(edge.to);
+      if (!from || !to || from === to) return;
+      const key = `${from}|${to}|${edge.label.toLowerCase()}`;
+      if (!edges.has(key)) edges.set(key, { from, to, label: edge.label });
+    });
+  });
+
+  const kept = [...merged.values()]
+    .sort((a, b) => b.mentions - a.mentions)
+    .slice(0, MAX_MERGED_NODES)
+    .map(entry => entry.node);
+  const keptIds = new Set(kept.map(node => node.id));
+
+  return {
+    nodes: kept,
+    edges: [...edges.values()].filter(edge => keptIds.has(edge.from) && keptIds.has(edge.to))
+  };
+};
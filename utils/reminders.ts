@@ -0,0 +1,108 @@
+import { AnalysisCategory, HistoryItem } from '../types';
+import { QuietHours, ReminderSettings } from '../services/settingsStore';
+import { getItemTitle } from './projects';
+import { toIsoDate } from './dates';
+
+// Which pending work deserves a nudge: open actions that are due, and high-severity
+// consequences an analysis expects "immediately". Pure rules; the scheduler decides when to show them.
+
+export type ReminderKind = 'action' | 'consequence';
+
+export interface Reminder {
+  key: string; // Stable across checks; a new due date yields a new key, so rescheduling re-arms it
+  kind: ReminderKind;
+  historyId: string;
+  category: AnalysisCategory;
+  title: string;
+  body: string;
+}
+
+// Per-reminder state kept by the reminder store
+export interface ReminderState {
+  notifiedAt?: number;
+  snoozedUntil?: number;
+  dismissed?: boolean;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// An "immediate" consequence stops being news a few days after the analysis
+export const URGENT_WINDOW_DAYS = 3;
+
+// A reminder that is still pending is shown again after this long
+export const REPEAT_INTERVAL_MS = 24 * HOUR_MS;
+
+// Expects live (non-trashed) history
+export const collectReminders = (history: HistoryItem[], settings: ReminderSettings, now = new Date()): Reminder[] => {
+  const today = toIsoDate(now);
+  const urgentSince = now.getTime() - URGENT_WINDOW_DAYS * 24 * HOUR_MS;
+
+  return history
+    .filter(item => !settings.mutedCategories.includes(item.result.category))
+    .flatMap(item => {
+      const category = item.result.category;
+      const source = getItemTitle(item);
+
+      const actions = !settings.actionsDue ? [] : item.actions
+        .filter(action => !action.done && action.dueDate && action.dueDate <= today)
+        .map((action): Reminder => ({
+          key: `action:${action.id}:${action.dueDate}`,
+          kind: 'action',
+          historyId: item.id,
+          category,
+          title: action.dueDate < today ? `Overdue since ${action.dueDate}` : 'Action due today',
+          body: `${action.text} — ${source}`
+        }));
+
+      const consequences = !settings.urgentConsequences || item.timestamp.getTime() < urgentSince ? [] : (item.result.consequences || [])
+        .map((consequence, i) => ({ consequence, i }))
+        .filter(({ consequence }) => consequence.severity === 'high' && consequence.timeframe === 'immediate')
+        .map(({ consequence, i }): Reminder => ({
+          key: `consequence:${item.id}:${i}`,
+          kind: 'consequence',
+          historyId: item.id,
+          category,
+          title: `Urgent ${consequence.domain.toLowerCase()} consequence`,
+          body: `${consequence.prediction} — ${source}`
+        }));
+
+      return [...actions, ...consequences];
+    });
+};
+
+const minutesOf = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+// The window includes its start and excludes its end; start after end wraps past midnight
+export const isQuietTime = (quietHours: QuietHours, now = new Date()): boolean => {
+  if (!quietHours.enabled) return false;
+  const start = minutesOf(quietHours.start);
+  const end = minutesOf(quietHours.end);
+  const current = now.getHours() * 60 + now.getMinutes();
+  if (start === end) return false;
+  return start < end ? current >= start && current < end : current >= start || current < end;
+};
+
+// Pending: not dismissed and not snoozed
+export const isReminderActive = (state: ReminderState | undefined, now = Date.now()): boolean =>
+  !state?.dismissed && !(state?.snoozedUntil && state.snoozedUntil > now);
+
+// Due for a system notification: active and not shown within the repeat interval (or since the snooze ended)
+export const shouldNotify = (state: ReminderState | undefined, now = Date.now()): boolean => {
+  if (!isReminderActive(state, now)) return false;
+  if (!state?.notifiedAt) return true;
+  if (state.snoozedUntil && state.snoozedUntil > state.notifiedAt) return true;
+  return now - state.notifiedAt >= REPEAT_INTERVAL_MS;
+};
+
+export const SNOOZE_HOUR_MS = HOUR_MS;
+
+// 9:00 tomorrow, local time
+export const nextMorning = (now = new Date()): number => {
+  const morning = new Date(now);
+  morning.setDate(morning.getDate() + 1);
+  morning.setHours(9, 0, 0, 0);
+  return morning.getTime();
+};
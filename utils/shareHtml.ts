@@ -0,0 +1,110 @@
+import { Consequence } from '../types';
+import type { ShareSnapshot } from '../services/analysisShare';
+import { getNodeColor, layoutKnowledgeGraph } from './graphLayout';
+
+// Renders a share snapshot as one standalone HTML page: inline styles, inline SVG and
+// data-URL images, no scripts and no external requests, so it opens anywhere offline.
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&#39;');
+
+const STYLES = `
+*{box-sizing:border-box}body{margin:0;background:#020617;color:#cbd5e1;font:15px/1.6 system-ui,-apple-system,Segoe UI,sans-serif}
+main{max-width:880px;margin:0 auto;padding:40px 20px}h1{color:#fff;font-weight:300;letter-spacing:-.02em;margin:0}
+h2{color:#64748b;font-size:12px;letter-spacing:.15em;text-transform:uppercase;margin:0 0 16px}
+section{background:rgba(255,255,255,.03);border:1px solid rgba(255,255,255,.08);border-radius:16px;padding:24px;margin:20px 0}
+header{display:flex;justify-content:space-between;align-items:center;gap:20px}.score{text-align:center;border:4px solid rgba(255,255,255,.08);border-radius:50%;width:96px;height:96px;display:flex;flex-direction:column;justify-content:center;flex-shrink:0}
+.score b{color:#fff;font-size:30px;line-height:1}.score span,.muted{color:#64748b;font-size:11px;letter-spacing:.1em;text-transform:uppercase}
+table{width:100%;border-collapse:collapse}td{padding:8px 0;border-bottom:1px solid rgba(255,255,255,.05)}td:last-child{text-align:right;color:#fff;font-family:ui-monospace,monospace}
+ul{margin:0;padding-left:20px}li{margin:4px 0}.grid{display:grid;grid-template-columns:repeat(auto-fit,minmax(240px,1fr));gap:16px}
+.card{padding:12px;border-radius:12px;background:rgba(255,255,255,.04);border-left:4px solid #06b6d4;margin-bottom:8px}.card.high{border-left-color:#ef4444}
+.bar{height:8px;border-radius:4px;background:#06b6d4}.images img{width:100%;border-radius:12px;border:1px solid rgba(255,255,255,.1)}
+.chat p{margin:8px 0;padding:10px 14px;border-radius:12px;background:rgba(255,255,255,.04)}.chat .user{background:rgba(6,182,212,.12);margin-left:15%}
+footer{text-align:center;color:#475569;font-size:12px;margin-top:40px}`;
+
+const TIMEFRAME_LABELS: Record<Consequence['timeframe'], string> = {
+  immediate: 'Immediate (1 Week)',
+  short_term: 'Short Term (1 Month)',
+  long_term: 'Long Term (1 Year)'
+};
+
+const list = (items: string[]) => `<ul>${items.map(item => `<li>${escapeHtml(item)}</li>`).join('')}</ul>`;
+
+const section = (title: string, body: string) => `<section><h2>${escapeHtml(title)}</h2>${body}</section>`;
+
+const renderGraph = (snapshot: ShareSnapshot) => {
+  const graph = snapshot.result.knowledgeGraph;
+  if (!graph || graph.nodes.length === 0) return '';
+  const width = 640;
+  const height = 400;
+  const nodes = layoutKnowledgeGraph(graph.nodes, width, height);
+  const byId = new Map(nodes.map(node => [node.id, node]));
+  const edges = graph.edges.map(edge => {
+    const from = byId.get(edge.from);
+    const to = byId.get(edge.to);
+    return from && to ? `<line x1="${from.x}" y1="${from.y}" x2="${to.x}" y2="${to.y}" stroke="#475569" stroke-width="1"><title>${escapeHtml(edge.label)}</title></line>` : '';
+  }).join('');
+  const circles = nodes.map(node => {
+    const label = node.label.length > 18 ? `${node.label.slice(0, 17)}…` : node.label;
+    return `<g><circle cx="${node.x}" cy="${node.y}" r="7" fill="#0f172a" stroke="${getNodeColor(node.type)}" stroke-width="2"><title>${escapeHtml(node.label)}</title></circle>`
+      + `<text x="${node.x}" y="${node.y + 20}" text-anchor="middle" fill="#94a3b8" font-size="10">${escapeHtml(label)}</text></g>`;
+  }).join('');
+  return section('World Graph', `<svg viewBox="0 0 ${width} ${height}" width="100%" role="img" aria-label="Knowledge graph">${edges}${circles}</svg>`);
+};
+
+const renderConsequences = (consequences: Consequence[]) => {
+  if (consequences.length === 0) return '';
+  const columns = (Object.keys(TIMEFRAME_LABELS) as Consequence['timeframe'][]).map(timeframe => {
+    const cards = consequences.filter(c => c.timeframe === timeframe).map(c =>
+      `<div class="card ${c.severity === 'high' ? 'high' : ''}"><div class="muted">${escapeHtml(c.domain)} · ${escapeHtml(c.severity)}</div>${escapeHtml(c.prediction)}</div>`
+    ).join('');
+    return `<div><div class="muted" style="margin-bottom:8px">${TIMEFRAME_LABELS[timeframe]}</div>${cards || '<p class="muted">None</p>'}</div>`;
+  }).join('');
+  return section('Future Impact', `<div class="grid">${columns}</div>`);
+};
+
+export const buildShareHTML = (snapshot: ShareSnapshot): string => {
+  const { result, lens } = snapshot;
+  const title = `${result.category} Analysis`;
+  const maxChart = Math.max(...(result.chartData || []).map(point => Math.abs(point.value)), 1);
+
+  const body = [
+    `<header><div><div class="muted">Aether Analytica${lens ? ` · ${escapeHtml(lens.name)} lens` : ''}</div><h1>${escapeHtml(title)}</h1></div>`
+      + `<div class="score"><b>${result.score}</b><span>Score</span></div></header>`,
+    section('Summary', `<p>${escapeHtml(result.summary)}</p>${result.scoreRationale ? `<p class="muted">Score rationale: ${escapeHtml(result.scoreRationale)}</p>` : ''}`),
+    result.metrics.length > 0 ? section('Key Metrics', `<table>${result.metrics.map(m =>
+      `<tr><td>${escapeHtml(m.label)}</td><td>${escapeHtml(String(m.value))}${m.unit ? ` ${escapeHtml(m.unit)}` : ''}</td></tr>`).join('')}</table>`) : '',
+    renderGraph(snapshot),
+    result.chartData?.length ? section('Data Breakdown', `<table>${result.chartData.map(point =>
+      `<tr><td style="width:30%">${escapeHtml(point.name)}</td><td><div class="bar" style="width:${(Math.abs(point.value) / maxChart) * 100}%"></div></td><td style="width:15%">${point.value}</td></tr>`).join('')}</table>`) : '',
+    result.insights.length > 0 ? section('Strategic Insights', list(result.insights)) : '',
+    result.actionPlan.length > 0 ? section('Recommended Actions', list(result.actionPlan)) : '',
+    renderConsequences(result.consequences),
+    result.predictions?.length ? section('Predictions', list(result.predictions.map(p => `${p.outcome} (${p.likelihood} likelihood, ${p.impact} impact, ${p.timeframe})`))) : '',
+    result.causeEffectChain?.length ? section('Logic Chain', `<ol>${result.causeEffectChain.map(step => `<li><b>${escapeHtml(step.step)}</b> — ${escapeHtml(step.description)}</li>`).join('')}</ol>`) : '',
+    `<div class="grid">${section('Risks', list(result.risks.length ? result.risks : ['None detected.']))}${section('Opportunities', list(result.opportunities.length ? result.opportunities : ['None detected.']))}</div>`,
+    snapshot.images?.length ? section('Inputs', `<div class="grid images">${snapshot.images
+      .filter(src => src.startsWith('data:image/'))
+      .map(src => `<img src="${escapeHtml(src)}" alt="Analysis input">`).join('')}</div>`) : '',
+    snapshot.chat?.length ? section('Conversation', `<div class="chat">${snapshot.chat.map(message =>
+      `<p class="${message.role}">${escapeHtml(message.text)}</p>`).join('')}</div>`) : ''
+  ].join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; img-src data:; style-src 'unsafe-inline'">
+<title>${escapeHtml(title)} · Aether Analytica</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<main>
+${body}
+<footer>Read-only snapshot shared ${escapeHtml(new Date(snapshot.sharedAt).toLocaleString())} · Aether Analytica</footer>
+</main>
+</body>
+</html>
+`;
+};
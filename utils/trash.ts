@@ -0,0 +1,20 @@
+import { HistoryItem } from '../types';
+
+// Deleting moves an analysis to the trash (it keeps its record, images and project
+// memberships); only purging or emptying the trash removes it from storage.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const isInTrash = (item: HistoryItem): boolean => item.deletedAt !== undefined;
+
+// Items whose retention period has run out. A retention of 0 never expires anything.
+export const getExpiredTrash = (history: HistoryItem[], retentionDays: number, now = Date.now()): HistoryItem[] =>
+  retentionDays > 0
+    ? history.filter(item => isInTrash(item) && now - item.deletedAt! >= retentionDays * DAY_MS)
+    : [];
+
+// Whole days left before purge (at least 1 while still in the trash), or null when nothing is purged.
+export const daysUntilPurge = (item: HistoryItem, retentionDays: number, now = Date.now()): number | null => {
+  if (!isInTrash(item) || retentionDays <= 0) return null;
+  return Math.max(1, Math.ceil((item.deletedAt! + retentionDays * DAY_MS - now) / DAY_MS));
+};
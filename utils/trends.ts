@@ -0,0 +1,75 @@
+import { AnalysisCategory, HistoryItem } from '../types';
+
+export interface TrendPoint {
+  time: number; // epoch ms, used as the numeric x-axis
+  value: number;
+  historyId: string;
+}
+
+export interface ScoreSeries {
+  category: AnalysisCategory;
+  points: TrendPoint[];
+}
+
+export interface MetricSeries {
+  label: string;
+  unit?: string;
+  points: TrendPoint[];
+  min: number;
+  max: number;
+  average: number;
+}
+
+// Metric values arrive as strings like "3,410", "38%" or "High"; only numeric ones can be plotted.
+export const parseMetricValue = (value: string | number): number | null => {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  const match = /-?\d+(?:\.\d+)?/.exec(value.replace(/,/g, ''));
+  return match ? parseFloat(match[0]) : null;
+};
+
+// Labels are free text from the model, so "Savings rate" and "Savings Rate " must match.
+const metricKey = (label: string) => label.trim().toLowerCase().replace(/\s+/g, ' ');
+
+const byTime = (a: TrendPoint, b: TrendPoint) => a.time - b.time;
+
+export const buildScoreSeries = (history: HistoryItem[]): ScoreSeries[] => {
+  const groups = new Map<AnalysisCategory, TrendPoint[]>();
+  history.forEach(item => {
+    const points = groups.get(item.result.category) || [];
+    points.push({ time: item.timestamp.getTime(), value: item.result.score, historyId: item.id });
+    groups.set(item.result.category, points);
+  });
+
+  return [...groups.entries()].map(([category, points]) => ({ category, points: points.sort(byTime) }));
+};
+
+// Only metrics seen in at least `minPoints` analyses form a series.
+export const buildMetricSeries = (history: HistoryItem[], minPoints = 2): MetricSeries[] => {
+  const groups = new Map<string, { label: string; unit?: string; points: TrendPoint[] }>();
+
+  history.forEach(item => {
+    item.result.metrics.forEach(metric => {
+      const value = parseMetricValue(metric.value);
+      if (value === null) return;
+
+      const key = metricKey(metric.label);
+      const group = groups.get(key) || { label: metric.label.trim(), unit: metric.unit, points: [] };
+      group.points.push({ time: item.timestamp.getTime(), value, historyId: item.id });
+      groups.set(key, group);
+    });
+  });
+
+  return [...groups.values()]
+    .filter(group => group.points.length >= minPoints)
+    .map(group => {
+      const values = group.points.map(p => p.value);
+      return {
+        ...group,
+        points: group.points.sort(byTime),
+        min: Math.min(...values),
+        max: Math.max(...values),
+        average: values.reduce((sum, v) => sum + v, 0) / values.length
+      };
+    })
+    .sort((a, b) => b.points.length - a.points.length);
+};
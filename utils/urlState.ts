@@ -0,0 +1,6 @@
+// View state mirrored into the address bar. replaceState, so changing a filter or view
+// doesn't add a back-button entry; path and hash (e.g. #share=) are kept as they are.
+export const replaceSearchParams = (params: URLSearchParams) => {
+  const search = params.toString();
+  window.history.replaceState(null, '', `${window.location.pathname}${search ? `?${search}` : ''}${window.location.hash}`);
+};